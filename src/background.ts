@@ -1,14 +1,589 @@
 // background.ts
+import { colorCommand, type CommandId } from "@/lib/commands"
+import type {
+  BackgroundResponse,
+  ContentMessage,
+  StoreMessage,
+  TabMessage
+} from "@/lib/messages"
+import { getPdfFileUrl, getPdfViewerUrl } from "@/lib/pdf"
+import { isSiteEnabled } from "@/lib/settings"
+import { HighlightStore } from "@/lib/store"
+import { getBadge, TabStateStore, type HighlightCounts } from "@/lib/tabs"
+import type { Highlight } from "@/lib/types"
+
 chrome.runtime.onInstalled.addListener(() => {
   console.log("Text Highlighter extension installed")
 })
 
+// Merge page buckets stored before URLs were normalized; a no-op once done
+HighlightStore.migrateUrls().catch((error) =>
+  console.warn("Could not normalize highlight URLs:", error)
+)
+
+// Link highlights saved with a plain color to the palette; a no-op once done
+HighlightStore.migrateColors().catch((error) =>
+  console.warn("Could not link highlight colors to the palette:", error)
+)
+
+// Permanently delete highlights that have been in the trash too long
+HighlightStore.purgeExpiredTrash().catch((error) =>
+  console.warn("Could not purge the trash:", error)
+)
+
+/**
+ * Executes a store message against the background-owned highlight store
+ *
+ * @param {StoreMessage} message - The message received from a content script or the popup
+ * @returns {Promise<unknown>} The payload to send back to the caller
+ */
+async function handleStoreMessage(message: StoreMessage): Promise<unknown> {
+  switch (message.type) {
+    case "CREATE_HIGHLIGHT":
+      return HighlightStore.create(message.highlight)
+    case "GET_HIGHLIGHTS":
+      return HighlightStore.getByUrl(message.url)
+    case "UPDATE_HIGHLIGHT":
+      return HighlightStore.update(message.id, message.updates)
+    case "DELETE_HIGHLIGHT":
+      return HighlightStore.delete(message.id)
+    case "DELETE_HIGHLIGHTS":
+      return HighlightStore.deleteMany(message.ids)
+    case "LIST_HIGHLIGHTS":
+      return HighlightStore.list()
+    case "MIGRATE_HIGHLIGHTS":
+      return HighlightStore.migrate(message.highlights)
+    case "IMPORT_HIGHLIGHTS": {
+      const imported = await HighlightStore.import(
+        message.highlights,
+        message.collections,
+        message.palette
+      )
+      // Palette entries may have been added to the color submenu
+      buildContextMenus()
+      return imported
+    }
+    case "GET_DOMAIN_RULES":
+      return HighlightStore.getDomainRules()
+    case "SET_DOMAIN_RULES":
+      return HighlightStore.setDomainRules(message.rules)
+    case "LIST_TAGS":
+      return HighlightStore.listTags()
+    case "LIST_COLLECTIONS":
+      return HighlightStore.listCollections()
+    case "CREATE_COLLECTION":
+      return HighlightStore.createCollection(message.name)
+    case "RENAME_COLLECTION":
+      return HighlightStore.renameCollection(message.id, message.name)
+    case "DELETE_COLLECTION":
+      return HighlightStore.deleteCollection(message.id)
+    case "SEARCH_HIGHLIGHTS":
+      return HighlightStore.search(message.query, message.url, message.limit)
+    case "GET_PALETTE":
+      return HighlightStore.getPalette()
+    case "SET_PALETTE": {
+      const recolored = await HighlightStore.setPalette(message.palette)
+      // The color submenu lists the palette's labels
+      buildContextMenus()
+      return recolored
+    }
+    case "ADD_COMMENT":
+      return HighlightStore.addComment(message.id, message.text)
+    case "UPDATE_COMMENT":
+      return HighlightStore.updateComment(
+        message.id,
+        message.commentId,
+        message.text
+      )
+    case "DELETE_COMMENT":
+      return HighlightStore.deleteComment(message.id, message.commentId)
+    case "UNDO":
+      return HighlightStore.undo(message.url)
+    case "REDO":
+      return HighlightStore.redo(message.url)
+    case "LIST_TRASH":
+      return HighlightStore.listTrash()
+    case "RESTORE_HIGHLIGHTS":
+      return HighlightStore.restore(message.ids)
+    case "PURGE_TRASH":
+      return HighlightStore.purgeTrash(message.ids)
+    case "GET_SETTINGS":
+      return HighlightStore.getSettings()
+    case "UPDATE_SETTINGS":
+      return HighlightStore.updateSettings(message.updates)
+  }
+}
+
+// How long to wait for a newly opened page to finish loading
+const TAB_LOAD_TIMEOUT = 30_000
+// How often to retry reaching the content script while it starts up
+const CONTENT_RETRY_DELAY = 250
+// How many times to retry reaching the content script
+const CONTENT_RETRY_COUNT = 20
+
+/**
+ * Waits until a tab has finished loading
+ * Resolves anyway after {@link TAB_LOAD_TIMEOUT}, since slow pages may still
+ * render the highlighted text long before every resource has arrived.
+ *
+ * @param {number} tabId - The tab to wait for
+ * @returns {Promise<void>} Resolves once the tab is complete
+ */
+function waitForTabLoad(tabId: number): Promise<void> {
+  return new Promise((resolve) => {
+    const finish = () => {
+      clearTimeout(timeout)
+      chrome.tabs.onUpdated.removeListener(handleUpdated)
+      resolve()
+    }
+    const handleUpdated = (
+      updatedId: number,
+      changeInfo: chrome.tabs.TabChangeInfo
+    ) => {
+      if (updatedId === tabId && changeInfo.status === "complete") finish()
+    }
+    const timeout = setTimeout(finish, TAB_LOAD_TIMEOUT)
+
+    chrome.tabs.onUpdated.addListener(handleUpdated)
+    // The tab may have completed before the listener was attached
+    chrome.tabs
+      .get(tabId)
+      .then((tab) => tab.status === "complete" && finish())
+      .catch(finish)
+  })
+}
+
+/**
+ * Sends a message to a tab's content script, retrying while it starts up
+ *
+ * @param {number} tabId - The tab to message
+ * @param {ContentMessage} message - The message to send
+ * @returns {Promise<void>} Resolves once the content script received it
+ */
+async function sendToContentScript(
+  tabId: number,
+  message: ContentMessage
+): Promise<void> {
+  for (let attempt = 0; attempt < CONTENT_RETRY_COUNT; attempt++) {
+    try {
+      await chrome.tabs.sendMessage(tabId, message)
+      return
+    } catch {
+      // No receiver yet: the content script has not been injected
+      await new Promise((resolve) => setTimeout(resolve, CONTENT_RETRY_DELAY))
+    }
+  }
+  throw new Error("The page did not respond")
+}
+
+/**
+ * Finds an open tab already showing a page
+ * Tabs showing a PDF in the bundled viewer match the PDF's own URL.
+ *
+ * @param {string} url - The page's normalized URL
+ * @returns {Promise<chrome.tabs.Tab | undefined>} The first matching tab
+ */
+async function findPageTab(url: string): Promise<chrome.tabs.Tab | undefined> {
+  const tabs = await chrome.tabs.query({})
+  for (const tab of tabs) {
+    const pageUrl = tab.url && (getPdfFileUrl(tab.url) || tab.url)
+    if (pageUrl && (await HighlightStore.normalize(pageUrl)) === url) {
+      return tab
+    }
+  }
+  return undefined
+}
+
+/**
+ * Shows a highlight's page and scrolls to the highlight
+ * A tab already showing the page is focused and reused; otherwise the page
+ * is opened in a new tab.
+ *
+ * @param {string} id - The unique ID of the highlight to open
+ * @returns {Promise<void>} Resolves once the tab is shown
+ */
+async function openHighlight(id: string): Promise<void> {
+  const highlight = await HighlightStore.get(id)
+  if (!highlight) throw new Error("Highlight not found")
+  if (!/^https?:/.test(highlight.url)) {
+    throw new Error("This highlight has no web page to open")
+  }
+
+  let tab = await findPageTab(highlight.url)
+
+  // The PDF viewer scrolls to the highlight named in its URL fragment
+  if (highlight.pdfPage) {
+    const url = getPdfViewerUrl(highlight.url, id)
+    if (tab?.id !== undefined) {
+      await chrome.tabs.update(tab.id, { url, active: true })
+      await chrome.windows.update(tab.windowId, { focused: true })
+    } else {
+      await chrome.tabs.create({ url })
+    }
+    return
+  }
+
+  if (tab?.id !== undefined) {
+    await chrome.tabs.update(tab.id, { active: true })
+    await chrome.windows.update(tab.windowId, { focused: true })
+  } else {
+    tab = await chrome.tabs.create({ url: highlight.url })
+  }
+  if (tab.id === undefined) return
+  const tabId = tab.id
+
+  // Scroll in the background so the caller isn't kept waiting for the load
+  waitForTabLoad(tabId)
+    .then(() => sendToContentScript(tabId, { type: "SCROLL_TO_HIGHLIGHT", id }))
+    .catch((error) => console.warn("Could not scroll to highlight:", error))
+}
+
+/**
+ * Lists the keyboard shortcuts the user has assigned to the extension
+ * Content scripts can't read them, but show them in the command palette.
+ *
+ * @returns {Promise<Record<string, string>>} Shortcut by command ID, for commands that have one
+ */
+async function getShortcuts(): Promise<Record<string, string>> {
+  const commands = await chrome.commands.getAll()
+  const shortcuts: Record<string, string> = {}
+  commands.forEach((command) => {
+    if (command.name && command.shortcut) {
+      shortcuts[command.name] = command.shortcut
+    }
+  })
+  return shortcuts
+}
+
+/**
+ * Replaces a tab showing a PDF with the bundled viewer
+ * The browser's own viewer can't be reached by content scripts, so PDFs
+ * are reopened in an extension page that renders them with pdf.js. PDFs
+ * from sites turned off in the settings are left to the browser's viewer.
+ *
+ * @param {chrome.runtime.MessageSender} sender - The PDF tab's content script
+ * @returns {Promise<void>} Resolves once the tab is navigating to the viewer
+ */
+async function openPdfViewer(
+  sender: chrome.runtime.MessageSender
+): Promise<void> {
+  const fileUrl = sender.url || sender.tab?.url
+  if (sender.tab?.id === undefined || !fileUrl) {
+    throw new Error("The PDF viewer can only be opened from a tab")
+  }
+  const settings = await HighlightStore.getSettings()
+  if (!isSiteEnabled(settings, new URL(fileUrl).hostname)) return
+  await chrome.tabs.update(sender.tab.id, { url: getPdfViewerUrl(fileUrl) })
+}
+
+/**
+ * Reads the page shown in a content script's tab
+ * Content scripts in iframes can't read a cross-origin top page, so the top
+ * frame's content script is asked for its URL, which honors the page's
+ * canonical link. Until it has loaded, the tab's own URL is used.
+ *
+ * @param {chrome.runtime.MessageSender} sender - A content script in the tab
+ * @returns {Promise<Pick<Highlight, "url" | "title">>} The page's URL and title
+ */
+async function getTabPage(
+  sender: chrome.runtime.MessageSender
+): Promise<Pick<Highlight, "url" | "title">> {
+  const tab = sender.tab
+  if (tab?.id === undefined) {
+    throw new Error("Only content scripts in a tab have a page")
+  }
+
+  const message: ContentMessage = { type: "GET_PAGE_URL" }
+  const url: string | undefined = await chrome.tabs
+    .sendMessage(tab.id, message, { frameId: 0 })
+    .catch(() => undefined)
+  if (!url && !tab.url) throw new Error("The tab's page is unknown")
+  return { url: url || tab.url, title: tab.title }
+}
+
+/**
+ * Reads which tab a message is about
+ *
+ * @param {number | undefined} tabId - The tab named in the message, if any
+ * @param {chrome.runtime.MessageSender} sender - Who sent the message
+ * @returns {number} The named tab, or else the sender's
+ */
+function getMessageTabId(
+  tabId: number | undefined,
+  sender: chrome.runtime.MessageSender
+): number {
+  const id = tabId ?? sender.tab?.id
+  if (id === undefined) throw new Error("No tab given")
+  return id
+}
+
+/**
+ * Turns the highlighter on or off in a tab and tells each of its frames
+ *
+ * @param {number} tabId - The tab
+ * @param {boolean} activated - Whether the highlighter is on
+ * @returns {Promise<void>} Resolves once recorded
+ */
+async function setTabActivation(
+  tabId: number,
+  activated: boolean
+): Promise<void> {
+  await TabStateStore.setActivation(tabId, activated)
+  const message: ContentMessage = { type: "SET_ACTIVATION", activated }
+  // Pages without a content script (e.g. chrome://) have nothing to update
+  await chrome.tabs.sendMessage(tabId, message).catch(() => undefined)
+}
+
+/**
+ * Shows a tab's highlight counts on the toolbar badge
+ *
+ * @param {number} tabId - The tab
+ * @param {HighlightCounts} counts - The tab's totals
+ * @returns {Promise<void>} Resolves once the badge is updated
+ */
+async function showBadge(tabId: number, counts: HighlightCounts) {
+  const { text, color, title } = getBadge(counts)
+  await Promise.all([
+    chrome.action.setBadgeText({ tabId, text }),
+    chrome.action.setBadgeBackgroundColor({ tabId, color }),
+    chrome.action.setTitle({ tabId, title })
+  ])
+}
+
+/**
+ * Records a frame's highlight counts and updates its tab's badge
+ *
+ * @param {chrome.runtime.MessageSender} sender - The reporting content script
+ * @param {HighlightCounts} counts - The frame's counts
+ * @returns {Promise<void>} Resolves once the badge is updated
+ */
+async function reportHighlightCounts(
+  sender: chrome.runtime.MessageSender,
+  counts: HighlightCounts
+): Promise<void> {
+  const tabId = sender.tab?.id
+  if (tabId === undefined) {
+    throw new Error("Only content scripts in a tab can report highlights")
+  }
+  const totals = await TabStateStore.setCounts(
+    tabId,
+    sender.frameId ?? 0,
+    counts
+  )
+  await showBadge(tabId, totals)
+}
+
+/**
+ * Executes a tab message on behalf of an extension page or content script
+ *
+ * @param {TabMessage} message - The message received from the popup or library
+ * @param {chrome.runtime.MessageSender} sender - Who sent the message
+ * @returns {Promise<unknown>} The payload to send back to the caller
+ */
+async function handleTabMessage(
+  message: TabMessage,
+  sender: chrome.runtime.MessageSender
+): Promise<unknown> {
+  switch (message.type) {
+    case "OPEN_HIGHLIGHT":
+      return openHighlight(message.id)
+    case "GET_SHORTCUTS":
+      return getShortcuts()
+    case "OPEN_PDF_VIEWER":
+      return openPdfViewer(sender)
+    case "GET_TAB_PAGE":
+      return getTabPage(sender)
+    case "GET_TAB_ACTIVATION":
+      return TabStateStore.getActivation(getMessageTabId(message.tabId, sender))
+    case "SET_TAB_ACTIVATION":
+      return setTabActivation(
+        getMessageTabId(message.tabId, sender),
+        message.activated
+      )
+    case "REPORT_HIGHLIGHT_COUNTS":
+      return reportHighlightCounts(sender, message.counts)
+  }
+}
+
+// Message types handled by the highlight store
+const STORE_MESSAGE_TYPES = new Set<string>([
+  "CREATE_HIGHLIGHT",
+  "GET_HIGHLIGHTS",
+  "UPDATE_HIGHLIGHT",
+  "DELETE_HIGHLIGHT",
+  "DELETE_HIGHLIGHTS",
+  "LIST_HIGHLIGHTS",
+  "MIGRATE_HIGHLIGHTS",
+  "IMPORT_HIGHLIGHTS",
+  "GET_DOMAIN_RULES",
+  "SET_DOMAIN_RULES",
+  "LIST_TAGS",
+  "LIST_COLLECTIONS",
+  "CREATE_COLLECTION",
+  "RENAME_COLLECTION",
+  "DELETE_COLLECTION",
+  "SEARCH_HIGHLIGHTS",
+  "GET_PALETTE",
+  "SET_PALETTE",
+  "ADD_COMMENT",
+  "UPDATE_COMMENT",
+  "DELETE_COMMENT",
+  "UNDO",
+  "REDO",
+  "LIST_TRASH",
+  "RESTORE_HIGHLIGHTS",
+  "PURGE_TRASH",
+  "GET_SETTINGS",
+  "UPDATE_SETTINGS"
+])
+
+// Message types that act on browser tabs
+const TAB_MESSAGE_TYPES = new Set<string>([
+  "OPEN_HIGHLIGHT",
+  "GET_SHORTCUTS",
+  "OPEN_PDF_VIEWER",
+  "GET_TAB_PAGE",
+  "GET_TAB_ACTIVATION",
+  "SET_TAB_ACTIVATION",
+  "REPORT_HIGHLIGHT_COUNTS"
+])
+
 // Handle messages between content scripts and popup
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-  if (message.type === "GET_HIGHLIGHTS") {
-    // This can be used for future cross-tab communication
-    sendResponse({ success: true })
+  let pending: Promise<unknown>
+  if (STORE_MESSAGE_TYPES.has(message?.type)) {
+    pending = handleStoreMessage(message as StoreMessage)
+  } else if (TAB_MESSAGE_TYPES.has(message?.type)) {
+    pending = handleTabMessage(message as TabMessage, sender)
+  } else {
+    return
   }
+
+  pending
+    .then((data) =>
+      sendResponse({ success: true, data } as BackgroundResponse<unknown>)
+    )
+    .catch((error) =>
+      sendResponse({
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      } as BackgroundResponse)
+    )
+
+  // Keep the message channel open for the async response
+  return true
+})
+
+/**
+ * Asks a page's content script to run a highlighter command
+ * The content script does the work since it owns the selection and the
+ * rendered spans. Pages without one, such as the browser's own, ignore it.
+ *
+ * Without a frame the command is a keyboard shortcut: the background can't
+ * tell which frame has keyboard focus, so every frame gets it and the
+ * focused one runs it.
+ *
+ * @param {number} tabId - The tab to run the command in
+ * @param {CommandId} command - The command to run
+ * @param {number} [frameId] - The frame holding the selection
+ */
+function runContentCommand(
+  tabId: number,
+  command: CommandId,
+  frameId?: number
+) {
+  const message: ContentMessage =
+    frameId === undefined
+      ? { type: "RUN_COMMAND", command, shortcut: true }
+      : { type: "RUN_COMMAND", command }
+  chrome.tabs
+    .sendMessage(tabId, message, frameId === undefined ? {} : { frameId })
+    .catch((error) => console.warn("Could not run command:", error))
+}
+
+// Forward keyboard shortcuts to the page they were pressed on
+chrome.commands.onCommand.addListener((command, tab) => {
+  if (tab?.id === undefined) return
+  runContentCommand(tab.id, command as CommandId)
+})
+
+// Context menu item grouping one entry per palette color
+const COLOR_MENU_ID = "highlight-with-color"
+// Rebuilds run one after another so menu IDs never collide
+let contextMenuQueue: Promise<void> = Promise.resolve()
+
+/**
+ * Registers the context menu shown on selected text
+ * Item IDs are the matching keyboard commands, so a click runs exactly what
+ * the shortcut would. The color submenu follows the user's palette and is
+ * rebuilt whenever the palette is saved.
+ *
+ * @returns {Promise<void>} Resolves once the menu is registered
+ */
+function buildContextMenus(): Promise<void> {
+  contextMenuQueue = contextMenuQueue
+    .then(async () => {
+      const palette = await HighlightStore.getPalette()
+      await new Promise<void>((resolve) =>
+        chrome.contextMenus.removeAll(resolve)
+      )
+
+      const contexts: chrome.contextMenus.ContextType[] = ["selection"]
+      chrome.contextMenus.create({
+        id: "highlight-selection",
+        title: "Highlight",
+        contexts
+      })
+      chrome.contextMenus.create({
+        id: COLOR_MENU_ID,
+        title: "Highlight with color",
+        contexts
+      })
+      palette.forEach((entry, index) => {
+        chrome.contextMenus.create({
+          id: colorCommand(index),
+          parentId: COLOR_MENU_ID,
+          title: entry.label,
+          contexts
+        })
+      })
+      chrome.contextMenus.create({
+        id: "add-note",
+        title: "Highlight and add note",
+        contexts
+      })
+    })
+    .catch((error) => console.warn("Could not build context menus:", error))
+  return contextMenuQueue
+}
+
+// Menu items persist across service worker restarts, so they are only
+// registered on install and update, and when the palette changes
+chrome.runtime.onInstalled.addListener(() => {
+  buildContextMenus()
+})
+
+// Highlight the selection the menu was opened on, whether or not the
+// toolbar is activated
+chrome.contextMenus.onClicked.addListener((info, tab) => {
+  if (tab?.id === undefined || info.menuItemId === COLOR_MENU_ID) return
+  runContentCommand(tab.id, String(info.menuItemId) as CommandId, info.frameId)
+})
+
+// A tab loading a new page starts with an empty badge; its frames report
+// their counts as they place highlights
+chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+  if (changeInfo.status !== "loading") return
+  TabStateStore.clearCounts(tabId)
+    .then(() => showBadge(tabId, { placed: 0, orphaned: 0 }))
+    .catch((error) => console.warn("Could not reset the badge:", error))
+})
+
+// Forget the state of closed tabs
+chrome.tabs.onRemoved.addListener((tabId) => {
+  TabStateStore.remove(tabId).catch((error) =>
+    console.warn("Could not forget a closed tab:", error)
+  )
 })
 
 export {}
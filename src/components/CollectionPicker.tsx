@@ -0,0 +1,115 @@
+// Storage utilities for creating collections
+import { HighlightStorage } from "@/lib/storage"
+// Type definitions for collection objects
+import type { Collection } from "@/lib/types"
+// Icon for creating a collection
+import { FolderPlus } from "lucide-react"
+import React, { useState } from "react"
+
+/**
+ * Props interface for the CollectionPicker component
+ * @interface CollectionPickerProps
+ */
+interface CollectionPickerProps {
+  /** Every collection the user has created */
+  collections: Collection[]
+  /** IDs of the collections the highlight belongs to */
+  selectedIds: string[]
+  /** Callback function receiving the new list of collection IDs */
+  onChange: (ids: string[]) => void
+  /** Callback function after a new collection was created */
+  onCreated: (collection: Collection) => void
+}
+
+/**
+ * CollectionPicker Component
+ *
+ * A checkbox list for adding a highlight to named collections, with an input
+ * for creating a new collection on the spot. New collections are saved right
+ * away and selected for the highlight being edited.
+ *
+ * @param {CollectionPickerProps} props - Component properties
+ * @returns {JSX.Element} The collection picker component
+ */
+export function CollectionPicker({
+  collections,
+  selectedIds,
+  onChange,
+  onCreated
+}: CollectionPickerProps) {
+  // State for the name of a collection being created
+  const [newName, setNewName] = useState("")
+
+  /**
+   * Toggles membership in a collection
+   * @param {string} id - The unique ID of the collection
+   */
+  const handleToggle = (id: string) => {
+    onChange(
+      selectedIds.includes(id)
+        ? selectedIds.filter((c) => c !== id)
+        : [...selectedIds, id]
+    )
+  }
+
+  /**
+   * Creates a collection from the input and selects it
+   */
+  const handleCreate = async () => {
+    if (!newName.trim()) return
+    try {
+      const collection = await HighlightStorage.createCollection(newName)
+      onCreated(collection)
+      if (!selectedIds.includes(collection.id)) {
+        onChange([...selectedIds, collection.id])
+      }
+      setNewName("")
+    } catch (error) {
+      console.warn("Could not create collection:", error)
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      {collections.length > 0 && (
+        <div className="max-h-24 overflow-y-auto space-y-0.5">
+          {collections.map((collection) => (
+            <label
+              key={collection.id}
+              className="flex items-center gap-1 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(collection.id)}
+                onChange={() => handleToggle(collection.id)}
+              />
+              {collection.name}
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-1">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault()
+              handleCreate()
+            }
+          }}
+          placeholder="New collection..."
+          className="flex-1 text-sm border rounded px-2 py-1 focus:outline-none focus:ring focus:border-blue-300"
+        />
+        <button
+          onClick={handleCreate}
+          disabled={!newName.trim()}
+          className="flex items-center justify-center border border-gray-300 rounded px-2 hover:bg-gray-100 disabled:opacity-50"
+          title="Create collection">
+          <FolderPlus className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,148 @@
+// Command type and identifiers
+import type { CommandId, CommandInfo } from "@/lib/commands"
+// Icon for the filter input
+import { Command } from "lucide-react"
+import React, { useEffect, useRef, useState } from "react"
+
+/**
+ * Props interface for the CommandPalette component
+ * @interface CommandPaletteProps
+ */
+interface CommandPaletteProps {
+  /** Every command the user can run, in display order */
+  commands: CommandInfo[]
+  /** Callback function receiving the chosen command */
+  onRun: (id: CommandId) => void
+  /** Callback function to close the palette without running anything */
+  onClose: () => void
+}
+
+/**
+ * Checks whether a command matches the filter typed by the user
+ * Every word of the filter has to appear in the command's title.
+ *
+ * @param {CommandInfo} command - The command to check
+ * @param {string} filter - The text typed into the palette
+ * @returns {boolean} True if the command should be listed
+ */
+function matchesFilter(command: CommandInfo, filter: string): boolean {
+  const title = command.title.toLowerCase()
+  return filter
+    .toLowerCase()
+    .split(/\s+/)
+    .every((word) => title.includes(word))
+}
+
+/**
+ * CommandPalette Component
+ *
+ * A keyboard-driven list of highlighter commands shown in the middle of the
+ * page. Typing filters the list, the arrow keys move the selection, Enter
+ * runs the selected command and Escape closes the palette. Key presses are
+ * kept from reaching the page so its own shortcuts don't fire while typing.
+ *
+ * @param {CommandPaletteProps} props - Component properties
+ * @returns {JSX.Element} The command palette component
+ */
+export function CommandPalette({
+  commands,
+  onRun,
+  onClose
+}: CommandPaletteProps) {
+  // State for the text typed into the filter input
+  const [filter, setFilter] = useState("")
+  // State for the position of the selected command in the filtered list
+  const [selectedIndex, setSelectedIndex] = useState(0)
+  // Reference to the filter input, focused when the palette opens
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const visible = commands.filter((command) => matchesFilter(command, filter))
+
+  useEffect(() => {
+    inputRef.current?.focus()
+  }, [])
+
+  // Start from the top of the list whenever the filter changes
+  useEffect(() => {
+    setSelectedIndex(0)
+  }, [filter])
+
+  /**
+   * Handles navigation keys in the filter input
+   * @param {React.KeyboardEvent} e - Keyboard event
+   */
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault()
+      setSelectedIndex((index) => Math.min(index + 1, visible.length - 1))
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault()
+      setSelectedIndex((index) => Math.max(index - 1, 0))
+    } else if (e.key === "Enter") {
+      e.preventDefault()
+      if (visible[selectedIndex]) onRun(visible[selectedIndex].id)
+    } else if (e.key === "Escape") {
+      e.preventDefault()
+      onClose()
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-[10004] flex items-start justify-center pt-[15vh] bg-black/20"
+      onMouseDown={(e) => e.target === e.currentTarget && onClose()}
+      onKeyDown={(e) => e.stopPropagation()}
+      onKeyUp={(e) => e.stopPropagation()}
+      onKeyPress={(e) => e.stopPropagation()}>
+      <div className="w-96 shadow-lg border bg-white rounded-lg overflow-hidden">
+        {/* Filter input */}
+        <div className="flex items-center gap-2 px-3 py-2 border-b">
+          <Command className="h-4 w-4 text-gray-400 shrink-0" />
+          <input
+            ref={inputRef}
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Type a command..."
+            className="flex-1 text-sm focus:outline-none"
+          />
+        </div>
+
+        {/* Matching commands */}
+        <div className="max-h-80 overflow-y-auto py-1">
+          {visible.length === 0 ? (
+            <p className="px-3 py-2 text-sm text-gray-500">
+              No matching commands
+            </p>
+          ) : (
+            visible.map((command, index) => (
+              <button
+                key={command.id}
+                onClick={() => onRun(command.id)}
+                onMouseEnter={() => setSelectedIndex(index)}
+                className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm ${
+                  index === selectedIndex
+                    ? "bg-blue-50 text-blue-900"
+                    : "text-gray-800"
+                }`}>
+                {command.color && (
+                  <span
+                    className="h-3 w-3 rounded-full border border-gray-300 shrink-0"
+                    style={{ backgroundColor: command.color }}
+                  />
+                )}
+                <span className="flex-1 truncate">{command.title}</span>
+                {command.shortcut && (
+                  <kbd className="text-xs text-gray-500 border border-gray-200 rounded px-1">
+                    {command.shortcut}
+                  </kbd>
+                )}
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
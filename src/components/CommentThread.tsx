@@ -0,0 +1,184 @@
+// Markdown rendering and editing for comment bodies
+import { Markdown } from "@/components/Markdown"
+import { MarkdownEditor } from "@/components/MarkdownEditor"
+// Type definitions for comment objects
+import type { HighlightComment } from "@/lib/types"
+// Icons for the thread header and comment actions
+import { Edit2, MessageSquare, Trash2 } from "lucide-react"
+import React, { useState } from "react"
+
+/**
+ * Props interface for the CommentThread component
+ * Without the callbacks the thread is shown read-only.
+ * @interface CommentThreadProps
+ */
+interface CommentThreadProps {
+  /** The highlight's comments, oldest first */
+  comments: HighlightComment[]
+  /** Callback function to add a comment */
+  onAdd?: (text: string) => Promise<void>
+  /** Callback function to change a comment's text */
+  onUpdate?: (commentId: string, text: string) => Promise<void>
+  /** Callback function to delete a comment */
+  onDelete?: (commentId: string) => Promise<void>
+}
+
+/**
+ * CommentThread Component
+ *
+ * Lists a highlight's comments with when they were written, rendered as
+ * Markdown. When editable, each comment can be edited or deleted and new
+ * comments are added at the bottom, so a discussion builds up over time
+ * instead of one note being overwritten.
+ *
+ * @param {CommentThreadProps} props - Component properties
+ * @returns {JSX.Element | null} The thread, or nothing for an empty read-only thread
+ */
+export function CommentThread({
+  comments,
+  onAdd,
+  onUpdate,
+  onDelete
+}: CommentThreadProps) {
+  // State for the comment being written
+  const [draft, setDraft] = useState("")
+  // State for the ID of the comment being edited
+  const [editingId, setEditingId] = useState<string | null>(null)
+  // State for the edited text of that comment
+  const [editText, setEditText] = useState("")
+
+  if (comments.length === 0 && !onAdd) return null
+
+  /**
+   * Adds the drafted comment and clears the input
+   * The draft is kept if saving fails.
+   */
+  const handleAdd = async () => {
+    if (!draft.trim()) return
+    const text = draft
+    try {
+      await onAdd?.(text)
+      // Keep anything typed while the comment was saving
+      setDraft((current) => (current === text ? "" : current))
+    } catch (error) {
+      console.warn("Could not add comment:", error)
+    }
+  }
+
+  /**
+   * Saves the comment being edited
+   * The editor stays open if saving fails.
+   */
+  const handleSaveEdit = async () => {
+    if (!editingId || !editText.trim()) return
+    const id = editingId
+    try {
+      await onUpdate?.(id, editText)
+      // Another comment may have been opened while this one was saving
+      setEditingId((current) => (current === id ? null : current))
+    } catch (error) {
+      console.warn("Could not update comment:", error)
+    }
+  }
+
+  /**
+   * Deletes a comment
+   * @param {string} commentId - The comment to delete
+   */
+  const handleDelete = async (commentId: string) => {
+    try {
+      await onDelete?.(commentId)
+    } catch (error) {
+      console.warn("Could not delete comment:", error)
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-1 text-xs font-medium text-gray-600">
+        <MessageSquare className="h-3 w-3" />
+        Comments ({comments.length})
+      </div>
+
+      {comments.map((comment) => (
+        <div
+          key={comment.id}
+          className="bg-gray-50 p-2 rounded text-xs text-gray-700 space-y-1">
+          <div className="flex items-center justify-between text-[10px] text-gray-500">
+            <span>
+              {new Date(comment.timestamp).toLocaleString()}
+              {comment.edited && " (edited)"}
+            </span>
+            {(onUpdate || onDelete) && editingId !== comment.id && (
+              <div className="flex items-center gap-1">
+                {onUpdate && (
+                  <button
+                    onClick={() => {
+                      setEditingId(comment.id)
+                      setEditText(comment.text)
+                    }}
+                    className="hover:text-gray-900"
+                    title="Edit comment">
+                    <Edit2 className="h-3 w-3" />
+                  </button>
+                )}
+                {onDelete && (
+                  <button
+                    onClick={() => handleDelete(comment.id)}
+                    className="hover:text-red-600"
+                    title="Delete comment">
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          {editingId === comment.id ? (
+            <div className="space-y-1">
+              <MarkdownEditor
+                value={editText}
+                onChange={setEditText}
+                autoFocus
+                heightClassName="min-h-12"
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={handleSaveEdit}
+                  disabled={!editText.trim()}
+                  className="flex-1 bg-blue-600 hover:bg-blue-700 text-white rounded px-2 py-1 font-medium disabled:opacity-50 transition-colors">
+                  Save
+                </button>
+                <button
+                  onClick={() => setEditingId(null)}
+                  className="flex-1 border border-gray-300 bg-white rounded px-2 py-1 font-medium hover:bg-gray-100 transition-colors">
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <Markdown source={comment.text} />
+          )}
+        </div>
+      ))}
+
+      {/* Input for a new comment */}
+      {onAdd && (
+        <div className="space-y-1">
+          <MarkdownEditor
+            value={draft}
+            onChange={setDraft}
+            placeholder="Add a comment..."
+            heightClassName="min-h-12"
+          />
+          <button
+            onClick={handleAdd}
+            disabled={!draft.trim()}
+            className="w-full border border-gray-300 rounded px-2 py-1 text-xs font-medium hover:bg-gray-100 disabled:opacity-50 transition-colors">
+            Comment
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
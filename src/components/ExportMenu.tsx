@@ -0,0 +1,121 @@
+// Export helpers for generating and downloading files
+import { downloadExport, type ExportFormat } from "@/lib/export"
+// Storage utilities for loading highlights of every page
+import { HighlightStorage } from "@/lib/storage"
+// Type definitions for highlight objects
+import type { Highlight } from "@/lib/types"
+// Icons for the export toggle
+import { Download } from "lucide-react"
+import React, { useState } from "react"
+
+/**
+ * Props interface for the ExportMenu component
+ * @interface ExportMenuProps
+ */
+interface ExportMenuProps {
+  /** Highlights of the current page */
+  pageHighlights: Highlight[]
+}
+
+// Available export formats, in display order
+const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: "markdown", label: "Markdown" },
+  { value: "json", label: "JSON" },
+  { value: "html", label: "HTML" }
+]
+
+/**
+ * ExportMenu Component
+ *
+ * A collapsible panel in the popup for downloading highlights, either of the
+ * current page or of every page, as Markdown, a lossless JSON backup or a
+ * standalone HTML report.
+ *
+ * @param {ExportMenuProps} props - Component properties
+ * @returns {JSX.Element} The export menu component
+ */
+export function ExportMenu({ pageHighlights }: ExportMenuProps) {
+  // State for toggling the export panel
+  const [isOpen, setIsOpen] = useState(false)
+  // State for which highlights to export
+  const [scope, setScope] = useState<"page" | "all">("page")
+  // State for disabling the buttons while all highlights are loading
+  const [isExporting, setIsExporting] = useState(false)
+
+  /**
+   * Handles exporting in the chosen format
+   * @param {ExportFormat} format - The file format to download
+   */
+  const handleExport = async (format: ExportFormat) => {
+    setIsExporting(true)
+    try {
+      const [highlights, collections, palette] = await Promise.all([
+        scope === "page" ? pageHighlights : HighlightStorage.getAll(),
+        HighlightStorage.listCollections(),
+        HighlightStorage.getPalette()
+      ])
+      const date = new Date().toISOString().slice(0, 10)
+      downloadExport(
+        highlights,
+        format,
+        `highlights-${scope === "page" ? "page" : "all"}-${date}`,
+        { collections, palette }
+      )
+    } catch (error) {
+      console.warn("Could not export highlights:", error)
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-center gap-1 border border-gray-300 rounded px-3 py-1.5 text-xs font-medium hover:bg-gray-100 transition-colors">
+        <Download className="h-3 w-3" />
+        Export highlights
+      </button>
+
+      {isOpen && (
+        <div className="p-2 space-y-2 border border-gray-200 rounded-lg bg-gray-50">
+          {/* Scope selection */}
+          <div className="flex gap-3 text-xs text-gray-700">
+            <label className="flex items-center gap-1">
+              <input
+                type="radio"
+                checked={scope === "page"}
+                onChange={() => setScope("page")}
+              />
+              This page
+            </label>
+            <label className="flex items-center gap-1">
+              <input
+                type="radio"
+                checked={scope === "all"}
+                onChange={() => setScope("all")}
+              />
+              All pages
+            </label>
+          </div>
+
+          {/* One download button per format */}
+          <div className="flex gap-2">
+            {EXPORT_FORMATS.map((format) => (
+              <button
+                key={format.value}
+                onClick={() => handleExport(format.value)}
+                disabled={
+                  isExporting ||
+                  (scope === "page" && pageHighlights.length === 0)
+                }
+                className="flex-1 border border-gray-300 bg-white rounded px-2 py-1 text-xs font-medium hover:bg-gray-100 disabled:opacity-50 transition-colors">
+                {format.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,160 @@
+// Highlight span lookup, to place the ticks
+import { findHighlightSpans } from "@/lib/highlighter"
+// Palette helpers for tick colors
+import { getHighlightColor, type PaletteColor } from "@/lib/palette"
+// Type definitions for highlight objects
+import type { Highlight } from "@/lib/types"
+import React, { useEffect, useState } from "react"
+
+/**
+ * Props interface for the HighlightMinimap component
+ * @interface HighlightMinimapProps
+ */
+interface HighlightMinimapProps {
+  /** The page's highlights; those rendered on the page get a tick */
+  highlights: Highlight[]
+  /** The user's color palette */
+  palette: PaletteColor[]
+  /** Distance of the strip from the right edge of the window, in pixels */
+  rightOffset: number
+  /** Callback when a tick is clicked, receiving the highlight ID */
+  onSelect: (id: string) => void
+}
+
+/**
+ * Where a highlight sits in the document, as fractions of its height
+ */
+interface MinimapExtent {
+  /** Start of the highlight's first span */
+  top: number
+  /** End of the highlight's last span */
+  bottom: number
+}
+
+// Width of the strip, in pixels
+const MINIMAP_WIDTH = 8
+// Shortest tick, in pixels, so one-line highlights stay visible and clickable
+const MIN_TICK_HEIGHT = 3
+// Number of characters of highlighted text shown in a tick's tooltip
+const TICK_TITLE_LENGTH = 80
+
+/**
+ * Measures where each rendered highlight sits in the document
+ * Highlights without a visible span, e.g. inside collapsed sections, are
+ * left out.
+ *
+ * @returns {Map<string, MinimapExtent>} Extent of each highlight, by ID
+ */
+function measureHighlightExtents(): Map<string, MinimapExtent> {
+  const extents = new Map<string, MinimapExtent>()
+  const height = document.documentElement.scrollHeight
+  if (height <= 0) return extents
+
+  findHighlightSpans().forEach((span) => {
+    const rect = span.getBoundingClientRect()
+    if (rect.width === 0 && rect.height === 0) return
+    const top = (rect.top + window.scrollY) / height
+    const bottom = (rect.bottom + window.scrollY) / height
+    const id = span.dataset.highlightId
+    const extent = extents.get(id)
+    extents.set(
+      id,
+      extent
+        ? {
+            top: Math.min(extent.top, top),
+            bottom: Math.max(extent.bottom, bottom)
+          }
+        : { top, bottom }
+    )
+  })
+  return extents
+}
+
+/**
+ * HighlightMinimap Component
+ *
+ * A thin strip along the right edge of the window, next to the scrollbar,
+ * with a tick in the highlight's color wherever the page has a highlight,
+ * at the same relative height as in the document. It gives long articles
+ * an overview of where their highlights are; clicking a tick scrolls to
+ * its highlight.
+ *
+ * Ticks are measured again when the window resizes, the page changes or
+ * the highlights are rendered again.
+ *
+ * @param {HighlightMinimapProps} props - Component properties
+ * @returns {JSX.Element | null} The strip, or null if no highlight is on the page
+ */
+export function HighlightMinimap({
+  highlights,
+  palette,
+  rightOffset,
+  onSelect
+}: HighlightMinimapProps) {
+  // State for the position of each highlight in the document, by ID
+  const [extents, setExtents] = useState<Map<string, MinimapExtent>>(new Map())
+
+  useEffect(() => {
+    let frame = 0
+
+    /**
+     * Measures the highlights again, at most once per animation frame
+     */
+    const measure = () => {
+      if (frame) return
+      frame = requestAnimationFrame(() => {
+        frame = 0
+        setExtents(measureHighlightExtents())
+      })
+    }
+
+    measure()
+    window.addEventListener("resize", measure)
+    // Content loaded or removed by the page moves its highlights
+    const mutationObserver = new MutationObserver(measure)
+    mutationObserver.observe(document.body, {
+      childList: true,
+      subtree: true,
+      characterData: true
+    })
+    // Layout changes that don't touch the DOM, like images finishing loading
+    const resizeObserver = new ResizeObserver(measure)
+    resizeObserver.observe(document.body)
+    return () => {
+      cancelAnimationFrame(frame)
+      window.removeEventListener("resize", measure)
+      mutationObserver.disconnect()
+      resizeObserver.disconnect()
+    }
+  }, [highlights])
+
+  const placed = highlights.filter((h) => extents.has(h.id))
+  if (placed.length === 0) return null
+
+  return (
+    <div
+      className="fixed top-0 z-[9999] h-full bg-gray-200/50 pointer-events-none"
+      style={{ right: rightOffset, width: MINIMAP_WIDTH }}>
+      {placed.map((highlight) => {
+        const { top, bottom } = extents.get(highlight.id)
+        return (
+          <button
+            key={highlight.id}
+            onClick={() => onSelect(highlight.id)}
+            className="absolute left-0 w-full rounded-sm pointer-events-auto hover:opacity-70"
+            style={{
+              top: `${top * 100}%`,
+              height: `max(${(bottom - top) * 100}%, ${MIN_TICK_HEIGHT}px)`,
+              backgroundColor: getHighlightColor(highlight, palette)
+            }}
+            title={
+              highlight.text.length > TICK_TITLE_LENGTH
+                ? highlight.text.substring(0, TICK_TITLE_LENGTH) + "..."
+                : highlight.text
+            }
+          />
+        )
+      })}
+    </div>
+  )
+}
@@ -1,7 +1,16 @@
 // UI components for building the overlay interface
 // Removed shadcn/ui imports
+// Range anchoring for locating the selection on later visits
+
+// Markdown editor for the note
+import { MarkdownEditor } from "@/components/MarkdownEditor"
+import { describeRange } from "@/lib/anchoring"
+// Palette helpers and entry type
+import { findPaletteColor, type PaletteColor } from "@/lib/palette"
 // Type definitions for highlight objects
 import type { Highlight } from "@/lib/types"
+// Canonical URL of the page the highlight belongs to
+import { getPageUrl } from "@/lib/url"
 // Icons for save and close actions
 import { Save, X } from "lucide-react"
 import React, { useState } from "react"
@@ -13,10 +22,22 @@ import React, { useState } from "react"
 interface HighlightOverlayProps {
   /** The text that was selected by the user */
   selectedText: string
-  /** Screen coordinates where the overlay should appear */
+  /**
+   * The selected range, captured when the overlay opened since typing the
+   * note moves the page selection into the overlay
+   */
+  range: Range
+  /** Viewport coordinates where the overlay should appear */
   position: { x: number; y: number }
-  /** Callback function to save the highlight with note */
-  onSave: (highlight: Omit<Highlight, "id" | "timestamp" | "color">) => void
+  /** The user's color palette, in display order */
+  palette: PaletteColor[]
+  /** Palette entry chosen when the overlay opens */
+  initialColorId: string
+  /** Callback function to save the highlight with note and chosen color */
+  onSave: (
+    highlight: Omit<Highlight, "id" | "timestamp" | "color">,
+    colorId: string
+  ) => void
   /** Callback function to close the overlay without saving */
   onClose: () => void
 }
@@ -24,14 +45,16 @@ interface HighlightOverlayProps {
 /**
  * HighlightOverlay Component
  *
- * A floating overlay that appears when users select text on a webpage.
+ * A floating overlay that appears next to the selection in note mode.
  * Allows users to add an optional note to their highlight before saving.
  * The overlay intelligently positions itself to stay within the viewport.
  *
  * Features:
- * - Shows a preview of the selected text (truncated if too long)
- * - Provides a textarea for adding notes
- * - Generates XPath for precise element location tracking
+ * - Shows a preview of the selected text (truncated if too long) in the chosen color
+ * - Provides a Markdown editor with preview for adding notes
+ * - Offers the palette colors, labelled with what they mean
+ * - Escape cancels, Ctrl/Cmd+Enter saves
+ * - Records start and end anchors for precise location tracking
  * - Handles viewport edge cases for positioning
  * - Saves highlights with metadata (URL, position, timestamp)
  *
@@ -40,46 +63,71 @@ interface HighlightOverlayProps {
  */
 export function HighlightOverlay({
   selectedText,
+  range,
   position,
+  palette,
+  initialColorId,
   onSave,
   onClose
 }: HighlightOverlayProps) {
   // State for storing the user's note input
   const [note, setNote] = useState("")
+  // State for the palette entry the highlight will be saved with
+  const [colorId, setColorId] = useState(initialColorId)
+  const color = findPaletteColor(palette, colorId) || palette[0]
 
   /**
    * Handles saving the highlight with all necessary metadata
-   * Captures the current selection, generates XPath, and creates highlight object
+   * Describes the captured selection's anchors and creates highlight object
    * Calls the parent's onSave callback and closes the overlay
    */
   const handleSave = () => {
-    const selection = window.getSelection()
-    if (!selection || selection.rangeCount === 0) return
-
-    const range = selection.getRangeAt(0)
-    // Generate XPath to uniquely identify the element containing the selection
-    const xpath = generateXPath(range.commonAncestorContainer)
+    // Describe where the selection starts and ends, even across elements
+    const anchors = describeRange(range)
+    if (!anchors) return
 
     // Create highlight object with all required metadata (color will be added by parent)
-    onSave({
-      url: window.location.href,
-      text: selectedText,
-      note,
-      startOffset: range.startOffset,
-      endOffset: range.endOffset,
-      xpath
-    })
+    onSave(
+      {
+        url: getPageUrl(),
+        title: document.title,
+        text: selectedText,
+        note,
+        ...anchors
+      },
+      color.id
+    )
 
     onClose()
   }
 
+  /**
+   * Handles shortcut keys while the overlay has focus
+   * Key presses are kept from the page so its own shortcuts don't fire while
+   * typing the note.
+   * @param {React.KeyboardEvent} e - Keyboard event
+   */
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation()
+    if (e.key === "Escape") {
+      e.preventDefault()
+      onClose()
+    } else if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault()
+      handleSave()
+    }
+  }
+
   return (
     <div
       className="fixed z-[10000] p-4 w-80 shadow-lg border bg-white rounded-lg"
       style={{
         left: Math.min(position.x, window.innerWidth - 320),
-        top: Math.min(position.y + 20, window.innerHeight - 200)
-      }}>
+        top: Math.max(0, Math.min(position.y + 20, window.innerHeight - 320))
+      }}
+      onKeyDown={handleKeyDown}
+      onKeyUp={(e) => e.stopPropagation()}
+      onKeyPress={(e) => e.stopPropagation()}>
       <div className="space-y-3">
         {/* Header with title and close button */}
         <div className="flex items-start justify-between">
@@ -93,7 +141,9 @@ export function HighlightOverlay({
         </div>
 
         {/* Preview of selected text with visual styling */}
-        <div className="bg-yellow-100 p-2 rounded text-sm text-gray-800 border-l-4 border-yellow-400">
+        <div
+          className="p-2 rounded text-sm text-gray-800 border-l-4 border-gray-400"
+          style={{ backgroundColor: color.color }}>
           "
           {selectedText.length > 100
             ? selectedText.substring(0, 100) + "..."
@@ -101,14 +151,32 @@ export function HighlightOverlay({
           "
         </div>
 
-        {/* Textarea for adding optional notes */}
-        <textarea
-          placeholder="Add a note (optional)..."
+        {/* Markdown editor for adding optional notes */}
+        <MarkdownEditor
           value={note}
-          onChange={(e) => setNote(e.target.value)}
-          className="min-h-20 text-sm w-full border rounded p-2 focus:outline-none focus:ring focus:border-blue-300"
+          onChange={setNote}
+          placeholder="Add a note (optional)..."
+          autoFocus
+          heightClassName="min-h-20"
         />
 
+        {/* Color choice, defaulting to the toolbar's color */}
+        <div className="flex flex-wrap gap-1">
+          {palette.map((entry) => (
+            <button
+              key={entry.id}
+              onClick={() => setColorId(entry.id)}
+              className={`h-6 w-6 rounded border-2 ${
+                color.id === entry.id ? "border-gray-600" : "border-gray-300"
+              }`}
+              style={{ backgroundColor: entry.color }}
+              title={entry.label}
+              aria-label={entry.label}
+            />
+          ))}
+        </div>
+        <p className="text-xs text-gray-500">{color.label}</p>
+
         {/* Action buttons for save and cancel */}
         <div className="flex gap-2">
           <button
@@ -127,56 +195,3 @@ export function HighlightOverlay({
     </div>
   )
 }
-
-/**
- * Generates an XPath expression for a given DOM node
- *
- * XPath provides a reliable way to locate elements even after page changes.
- * This function creates a path from the root document to the target element
- * by traversing up the DOM tree and noting each element's position among siblings.
- *
- * The generated XPath format: /html[1]/body[1]/div[2]/p[1]
- * Numbers indicate the element's position among same-type siblings.
- *
- * @param {Node} element - The DOM node to generate XPath for
- * @returns {string} The XPath expression as a string
- */
-function generateXPath(element: Node): string {
-  // Handle text nodes by getting their parent element
-  if (element.nodeType === Node.TEXT_NODE) {
-    element = element.parentNode!
-  }
-
-  // Only process element nodes
-  if (element.nodeType !== Node.ELEMENT_NODE) {
-    return ""
-  }
-
-  const xpath: string[] = []
-  let current = element as Element
-
-  // Traverse up the DOM tree to build the path
-  while (current && current.nodeType === Node.ELEMENT_NODE) {
-    let index = 1
-    let sibling = current.previousSibling
-
-    // Count same-name siblings that come before this element
-    while (sibling) {
-      if (
-        sibling.nodeType === Node.ELEMENT_NODE &&
-        sibling.nodeName === current.nodeName
-      ) {
-        index++
-      }
-      sibling = sibling.previousSibling
-    }
-
-    // Build path segment: tagname[position]
-    const tagName = current.nodeName.toLowerCase()
-    xpath.unshift(`${tagName}[${index}]`)
-    current = current.parentNode as Element
-  }
-
-  // Return complete XPath starting with root slash
-  return `/${xpath.join("/")}`
-}
@@ -0,0 +1,242 @@
+// Markdown rendering for notes
+import { Markdown } from "@/components/Markdown"
+// Highlight span lookup, to tell which highlight is in view
+import { findHighlightSpans } from "@/lib/highlighter"
+// Palette helpers for card colors
+import { getHighlightColor, type PaletteColor } from "@/lib/palette"
+// Type definitions for highlight objects
+import type { Highlight } from "@/lib/types"
+// Icons for closing the panel and orphaned highlights
+import { AlertTriangle, Crosshair, PanelRightClose } from "lucide-react"
+import React, { useEffect, useRef, useState } from "react"
+
+/**
+ * Props interface for the HighlightSidebar component
+ * @interface HighlightSidebarProps
+ */
+interface HighlightSidebarProps {
+  /** Whether the panel is open */
+  isOpen: boolean
+  /** The page's highlights in reading order, unplaced ones last */
+  highlights: Highlight[]
+  /** The user's color palette */
+  palette: PaletteColor[]
+  /** Callback when a card is clicked, receiving the highlight ID */
+  onSelect: (id: string) => void
+  /** Callback to pick a new location for a highlight that couldn't be placed */
+  onReanchor: (highlight: Highlight) => void
+  /** Callback to collapse the panel */
+  onClose: () => void
+}
+
+// Number of characters of highlighted text shown on a card
+const CARD_TEXT_LENGTH = 200
+// Width of the panel, in pixels
+export const SIDEBAR_WIDTH = 320
+
+/**
+ * Finds the first highlight visible in the viewport
+ *
+ * @param {HTMLElement[]} spans - The page's highlight spans, in page order
+ * @returns {string | null} Its ID, or null if none is in view
+ */
+function findHighlightInView(spans: HTMLElement[]): string | null {
+  const span = spans.find((span) => {
+    if (!span.isConnected) return false
+    const rect = span.getBoundingClientRect()
+    return rect.width > 0 && rect.bottom > 0 && rect.top < window.innerHeight
+  })
+  return span?.dataset.highlightId || null
+}
+
+/**
+ * HighlightSidebar Component
+ *
+ * A collapsible panel along the right edge of the page listing the page's
+ * highlights in reading order, with their color, text, note and tags.
+ * Clicking a card scrolls the page to its highlight. While the page
+ * scrolls, the card of the first highlight in view is marked and kept
+ * visible in the list, so the panel doubles as an outline of where the
+ * reader is.
+ *
+ * Highlights that couldn't be placed are listed last, with a button to
+ * re-anchor them.
+ *
+ * @param {HighlightSidebarProps} props - Component properties
+ * @returns {JSX.Element | null} The panel, or null while collapsed
+ */
+export function HighlightSidebar({
+  isOpen,
+  highlights,
+  palette,
+  onSelect,
+  onReanchor,
+  onClose
+}: HighlightSidebarProps) {
+  // State for the highlight currently in view
+  const [activeId, setActiveId] = useState<string | null>(null)
+  // Scrollable list of cards
+  const listRef = useRef<HTMLDivElement>(null)
+  // Card elements by highlight ID, to keep the active one in view
+  const cardRefs = useRef(new Map<string, HTMLElement>())
+
+  useEffect(() => {
+    if (!isOpen) return
+    // Spans only change when the highlights are rendered again, so they are
+    // looked up once rather than on every scroll
+    const spans = findHighlightSpans()
+    let frame = 0
+
+    /**
+     * Marks the highlight in view, at most once per animation frame
+     */
+    const handleScroll = () => {
+      if (frame) return
+      frame = requestAnimationFrame(() => {
+        frame = 0
+        setActiveId(findHighlightInView(spans))
+      })
+    }
+
+    handleScroll()
+    // Capture scrolls of inner containers too, which don't bubble
+    window.addEventListener("scroll", handleScroll, true)
+    window.addEventListener("resize", handleScroll)
+    return () => {
+      cancelAnimationFrame(frame)
+      window.removeEventListener("scroll", handleScroll, true)
+      window.removeEventListener("resize", handleScroll)
+    }
+  }, [isOpen, highlights])
+
+  useEffect(() => {
+    // Bring the active card into the list's view, without moving the page
+    const card = activeId && cardRefs.current.get(activeId)
+    const list = listRef.current
+    if (!card || !list) return
+    if (
+      card.offsetTop < list.scrollTop ||
+      card.offsetTop + card.offsetHeight > list.scrollTop + list.clientHeight
+    ) {
+      list.scrollTo({
+        top: card.offsetTop - (list.clientHeight - card.offsetHeight) / 2,
+        behavior: "smooth"
+      })
+    }
+  }, [activeId])
+
+  if (!isOpen) return null
+
+  return (
+    <aside
+      className="fixed top-0 right-0 z-[10000] flex h-full flex-col border-l border-gray-200 bg-white shadow-lg"
+      style={{ width: SIDEBAR_WIDTH }}>
+      {/* Header with the highlight count and collapse button */}
+      <div className="flex items-center justify-between border-b px-3 py-2">
+        <h2 className="text-sm font-semibold text-gray-900">
+          Highlights ({highlights.length})
+        </h2>
+        <button
+          onClick={onClose}
+          className="p-1 rounded text-gray-500 hover:bg-gray-100 hover:text-gray-900"
+          title="Hide sidebar">
+          <PanelRightClose className="h-4 w-4" />
+        </button>
+      </div>
+
+      {/* Cards in reading order */}
+      <div
+        ref={listRef}
+        className="relative flex-1 space-y-2 overflow-y-auto p-3">
+        {highlights.length === 0 ? (
+          <p className="text-center text-sm text-gray-500">
+            No highlights on this page yet
+          </p>
+        ) : (
+          highlights.map((highlight) => {
+            const color = getHighlightColor(highlight, palette)
+            const isActive = highlight.id === activeId
+            return (
+              <div
+                key={highlight.id}
+                ref={(element) => {
+                  if (element) cardRefs.current.set(highlight.id, element)
+                  else cardRefs.current.delete(highlight.id)
+                }}
+                className={`space-y-1 rounded-lg border p-2 transition-colors ${
+                  highlight.orphaned
+                    ? "border-amber-200 bg-amber-50"
+                    : isActive
+                      ? "border-gray-400 bg-gray-50"
+                      : "border-gray-200 bg-white"
+                }`}>
+                {/* Highlighted text; click to scroll to it */}
+                {highlight.orphaned ? (
+                  <div className="rounded border-l-2 border-amber-400 bg-white p-2 text-xs text-gray-800">
+                    {highlight.text.length > CARD_TEXT_LENGTH
+                      ? highlight.text.substring(0, CARD_TEXT_LENGTH) + "..."
+                      : highlight.text}
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => {
+                      setActiveId(highlight.id)
+                      onSelect(highlight.id)
+                    }}
+                    title="Scroll to this highlight"
+                    className="w-full rounded border-l-2 p-2 text-left text-xs text-gray-800 hover:opacity-80"
+                    style={{
+                      backgroundColor: `${color}80`,
+                      borderColor: color
+                    }}>
+                    {highlight.text.length > CARD_TEXT_LENGTH
+                      ? highlight.text.substring(0, CARD_TEXT_LENGTH) + "..."
+                      : highlight.text}
+                  </button>
+                )}
+
+                {/* Note display (if note exists) */}
+                {highlight.note && (
+                  <Markdown
+                    source={highlight.note}
+                    className="px-1 text-xs text-gray-700"
+                  />
+                )}
+
+                {/* Tags of the highlight */}
+                {highlight.tags?.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {highlight.tags.map((tag) => (
+                      <span
+                        key={tag}
+                        className="rounded bg-blue-100 px-1.5 py-0.5 text-xs text-blue-800">
+                        #{tag}
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                {/* Re-anchor action for highlights that couldn't be placed */}
+                {highlight.orphaned && (
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="flex items-center gap-1 text-amber-700">
+                      <AlertTriangle className="h-3 w-3" />
+                      Couldn't place on this page
+                    </span>
+                    <button
+                      onClick={() => onReanchor(highlight)}
+                      className="flex items-center gap-1 font-medium text-blue-600 hover:text-blue-700"
+                      title="Select the new location on the page">
+                      <Crosshair className="h-3 w-3" />
+                      Re-anchor
+                    </button>
+                  </div>
+                )}
+              </div>
+            )
+          })
+        )}
+      </div>
+    </aside>
+  )
+}
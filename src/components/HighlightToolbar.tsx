@@ -1,7 +1,15 @@
 // UI components for building the toolbar interface
 // Removed shadcn/ui imports
-// Icons for color selection and note adding
-import { Move, Palette, StickyNote } from "lucide-react"
+// Palette helpers and entry type
+import { findPaletteColor, type PaletteColor } from "@/lib/palette"
+// Icons for color selection, note adding, the sidebar and margin notes
+import {
+  MessageSquareText,
+  Move,
+  Palette,
+  PanelRight,
+  StickyNote
+} from "lucide-react"
 import React, { useEffect, useRef, useState } from "react"
 
 /**
@@ -11,31 +19,39 @@ import React, { useEffect, useRef, useState } from "react"
 interface HighlightToolbarProps {
   /** Whether the toolbar is currently visible */
   isVisible: boolean
-  /** Currently selected highlight color */
-  selectedColor: string
-  /** Callback when color is changed */
-  onColorChange: (color: string) => void
+  /** The user's color palette, in display order */
+  palette: PaletteColor[]
+  /** ID of the currently selected palette entry */
+  selectedColorId: string
+  /** Callback when color is changed, receiving the palette entry ID */
+  onColorChange: (colorId: string) => void
+  /** Whether the next selection opens the note overlay */
+  isNoteMode: boolean
   /** Callback when note icon is clicked */
   onNoteClick: () => void
+  /** Whether the highlight sidebar is open */
+  isSidebarOpen: boolean
+  /** Callback when the sidebar icon is clicked */
+  onSidebarClick: () => void
+  /** Whether notes are shown in the margin */
+  isMarginMode: boolean
+  /** Callback when the margin notes icon is clicked */
+  onMarginClick: () => void
   /** Callback when toolbar is moved */
   onPositionChange?: (x: number, y: number) => void
 }
 
-// Available highlight colors
-const HIGHLIGHT_COLORS = [
-  { name: "Yellow", value: "#fef08a" },
-  { name: "Green", value: "#bbf7d0" },
-  { name: "Blue", value: "#bfdbfe" },
-  { name: "Pink", value: "#fce7f3" },
-  { name: "Orange", value: "#fed7aa" },
-  { name: "Purple", value: "#e9d5ff" }
-]
-
 export function HighlightToolbar({
   isVisible,
-  selectedColor,
+  palette,
+  selectedColorId,
   onColorChange,
+  isNoteMode,
   onNoteClick,
+  isSidebarOpen,
+  onSidebarClick,
+  isMarginMode,
+  onMarginClick,
   onPositionChange
 }: HighlightToolbarProps) {
   const [showColorPicker, setShowColorPicker] = useState(false)
@@ -43,6 +59,7 @@ export function HighlightToolbar({
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 })
   const [position, setPosition] = useState({ x: 20, y: 100 })
   const toolbarRef = useRef<HTMLDivElement>(null)
+  const selectedColor = findPaletteColor(palette, selectedColorId) || palette[0]
 
   // Handle drag start
   const handleDragStart = (e: React.MouseEvent) => {
@@ -105,33 +122,36 @@ export function HighlightToolbar({
           <button
             onClick={() => setShowColorPicker(!showColorPicker)}
             className="p-1 h-8 w-8 flex items-center justify-center rounded hover:bg-gray-100"
-            title="Select highlight color">
+            title={`Highlight color: ${selectedColor?.label}`}>
             <div
               className="w-5 h-5 rounded border-2 border-gray-300"
-              style={{ backgroundColor: selectedColor }}
+              style={{ backgroundColor: selectedColor?.color }}
             />
           </button>
 
           {showColorPicker && (
-            <div className="absolute top-10 left-0 bg-white border rounded-lg shadow-lg p-2 z-[10002]">
-              <div className="grid grid-cols-3 gap-1">
-                {HIGHLIGHT_COLORS.map((color) => (
-                  <button
-                    key={color.value}
-                    className={`w-8 h-8 rounded border-2 hover:scale-110 transition-transform ${
-                      selectedColor === color.value
+            <div className="absolute top-10 left-0 w-44 bg-white border rounded-lg shadow-lg p-1 z-[10002]">
+              {palette.map((entry) => (
+                <button
+                  key={entry.id}
+                  className={`w-full flex items-center gap-2 rounded px-2 py-1 text-left text-sm text-gray-800 hover:bg-gray-100 ${
+                    selectedColor?.id === entry.id ? "bg-gray-100" : ""
+                  }`}
+                  onClick={() => {
+                    onColorChange(entry.id)
+                    setShowColorPicker(false)
+                  }}>
+                  <span
+                    className={`w-5 h-5 shrink-0 rounded border-2 ${
+                      selectedColor?.id === entry.id
                         ? "border-gray-600"
                         : "border-gray-300"
                     }`}
-                    style={{ backgroundColor: color.value }}
-                    onClick={() => {
-                      onColorChange(color.value)
-                      setShowColorPicker(false)
-                    }}
-                    title={color.name}
+                    style={{ backgroundColor: entry.color }}
                   />
-                ))}
-              </div>
+                  <span className="truncate">{entry.label}</span>
+                </button>
+              ))}
             </div>
           )}
         </div>
@@ -139,9 +159,48 @@ export function HighlightToolbar({
         {/* Note icon */}
         <button
           onClick={onNoteClick}
-          className="p-1 h-8 w-8 flex items-center justify-center rounded hover:bg-gray-100"
-          title="Click to add note to selected text">
-          <StickyNote className="h-4 w-4 text-gray-600" />
+          className={`p-1 h-8 w-8 flex items-center justify-center rounded hover:bg-gray-100 ${
+            isNoteMode ? "bg-blue-100 ring-2 ring-blue-400" : ""
+          }`}
+          title={
+            isNoteMode
+              ? "Select text to highlight it with a note (click to cancel)"
+              : "Click, then select text to highlight it with a note"
+          }
+          aria-pressed={isNoteMode}>
+          <StickyNote
+            className={`h-4 w-4 ${isNoteMode ? "text-blue-700" : "text-gray-600"}`}
+          />
+        </button>
+
+        {/* Sidebar icon */}
+        <button
+          onClick={onSidebarClick}
+          className={`p-1 h-8 w-8 flex items-center justify-center rounded hover:bg-gray-100 ${
+            isSidebarOpen ? "bg-gray-100" : ""
+          }`}
+          title={
+            isSidebarOpen
+              ? "Hide the list of highlights"
+              : "Show the highlights on this page"
+          }
+          aria-pressed={isSidebarOpen}>
+          <PanelRight className="h-4 w-4 text-gray-600" />
+        </button>
+
+        {/* Margin notes icon */}
+        <button
+          onClick={onMarginClick}
+          className={`p-1 h-8 w-8 flex items-center justify-center rounded hover:bg-gray-100 ${
+            isMarginMode ? "bg-gray-100" : ""
+          }`}
+          title={
+            isMarginMode
+              ? "Hide notes in the margin"
+              : "Show notes in the margin"
+          }
+          aria-pressed={isMarginMode}>
+          <MessageSquareText className="h-4 w-4 text-gray-600" />
         </button>
       </div>
     </div>
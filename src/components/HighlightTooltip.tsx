@@ -1,10 +1,20 @@
 // UI components for building the tooltip interface
 // Removed shadcn/ui imports
-// Type definitions for highlight objects
-import type { Highlight } from "@/lib/types"
-// Icons for various actions (edit, save, delete, close)
-import { Edit2, Save, Trash2, X } from "lucide-react"
-import React, { useState } from "react"
+// Editors for the highlight's collections and tags
+import { CollectionPicker } from "@/components/CollectionPicker"
+// Comment thread shown below the note
+import { CommentThread } from "@/components/CommentThread"
+// Markdown rendering and editing for the note
+import { Markdown } from "@/components/Markdown"
+import { MarkdownEditor } from "@/components/MarkdownEditor"
+import { TagInput } from "@/components/TagInput"
+// Storage utilities for loading tag suggestions and collections
+import { HighlightStorage } from "@/lib/storage"
+// Type definitions for highlight and collection objects
+import type { Collection, Highlight } from "@/lib/types"
+// Icons for various actions (edit, save, delete, close, collections)
+import { Edit2, Folder, Save, Trash2, X } from "lucide-react"
+import React, { useEffect, useState } from "react"
 
 /**
  * Props interface for the HighlightTooltip component
@@ -16,11 +26,23 @@ interface HighlightTooltipProps {
   /** Screen coordinates where the tooltip should appear */
   position: { x: number; y: number }
   /** Callback function to update the highlight with changes */
-  onUpdate: (id: string, updates: Partial<Highlight>) => void
+  onUpdate: (id: string, updates: Partial<Highlight>) => Promise<void>
   /** Callback function to delete the highlight */
-  onDelete: (id: string) => void
+  onDelete: (id: string) => Promise<void>
+  /** Callback function to add a comment to the highlight's thread */
+  onAddComment: (id: string, text: string) => Promise<void>
+  /** Callback function to change one of the highlight's comments */
+  onUpdateComment: (
+    id: string,
+    commentId: string,
+    text: string
+  ) => Promise<void>
+  /** Callback function to delete one of the highlight's comments */
+  onDeleteComment: (id: string, commentId: string) => Promise<void>
   /** Callback function to close the tooltip */
   onClose: () => void
+  /** Whether to open straight into edit mode, e.g. to add a note */
+  startEditing?: boolean
 }
 
 /**
@@ -32,9 +54,12 @@ interface HighlightTooltipProps {
  *
  * Features:
  * - Displays the highlighted text with visual preview
- * - Shows existing notes or provides option to add notes
+ * - Shows existing notes, rendered as Markdown, or provides option to add notes
+ * - Edits notes in Markdown with a preview toggle
+ * - Shows a thread of timestamped comments that can be added to over time
+ * - Shows and edits tags (autocompleted from existing ones) and collections
  * - Toggle between view and edit modes for notes
- * - Delete functionality with confirmation dialog
+ * - Delete functionality, undoable from the page
  * - Smart positioning to stay within viewport
  * - Shows creation timestamp for reference
  *
@@ -46,36 +71,87 @@ export function HighlightTooltip({
   position,
   onUpdate,
   onDelete,
-  onClose
+  onAddComment,
+  onUpdateComment,
+  onDeleteComment,
+  onClose,
+  startEditing = false
 }: HighlightTooltipProps) {
   // State for toggling between view and edit modes
-  const [isEditing, setIsEditing] = useState(false)
+  const [isEditing, setIsEditing] = useState(startEditing)
   // State for managing the note text during editing
   const [editNote, setEditNote] = useState(highlight.note)
+  // State for managing the tags during editing
+  const [editTags, setEditTags] = useState(highlight.tags || [])
+  // State for managing the collection IDs during editing
+  const [editCollections, setEditCollections] = useState(
+    highlight.collections || []
+  )
+  // State for every tag in use, offered as autocompletion
+  const [allTags, setAllTags] = useState<string[]>([])
+  // State for every collection the user has created
+  const [collections, setCollections] = useState<Collection[]>([])
+
+  // Load tag suggestions and collections when the tooltip opens
+  useEffect(() => {
+    HighlightStorage.listTags()
+      .then(setAllTags)
+      .catch((error) => console.warn("Could not load tags:", error))
+    HighlightStorage.listCollections()
+      .then(setCollections)
+      .catch((error) => console.warn("Could not load collections:", error))
+  }, [])
+
+  // Collections the highlight belongs to, skipping deleted ones
+  const highlightCollections = collections.filter((c) =>
+    highlight.collections?.includes(c.id)
+  )
 
   /**
-   * Handles saving changes to the highlight note
-   * Updates the highlight through the parent callback and exits edit mode
+   * Enters edit mode with the highlight's current values
    */
-  const handleSave = () => {
-    onUpdate(highlight.id, { note: editNote })
-    setIsEditing(false)
+  const handleEdit = () => {
+    setEditNote(highlight.note)
+    setEditTags(highlight.tags || [])
+    setEditCollections(highlight.collections || [])
+    setIsEditing(true)
   }
 
   /**
-   * Handles deleting the highlight with user confirmation
-   * Shows a confirmation dialog before proceeding with deletion
+   * Handles saving changes to the highlight note, tags and collections
+   * Updates the highlight through the parent callback and exits edit mode.
+   * If saving fails the editor stays open, so the changes aren't lost.
    */
-  const handleDelete = () => {
-    if (confirm("Delete this highlight?")) {
-      onDelete(highlight.id)
+  const handleSave = async () => {
+    try {
+      await onUpdate(highlight.id, {
+        note: editNote,
+        tags: editTags,
+        collections: editCollections
+      })
+      setIsEditing(false)
+    } catch (error) {
+      console.warn("Could not save highlight:", error)
+    }
+  }
+
+  /**
+   * Handles deleting the highlight
+   * No confirmation is asked, since the deletion can be undone. The
+   * tooltip stays open if the deletion fails.
+   */
+  const handleDelete = async () => {
+    try {
+      await onDelete(highlight.id)
       onClose()
+    } catch (error) {
+      console.warn("Could not delete highlight:", error)
     }
   }
 
   return (
     <div
-      className="fixed z-[10000] p-3 w-72 shadow-lg border bg-white rounded-lg"
+      className="fixed z-[10000] p-3 w-72 max-h-[80vh] overflow-y-auto shadow-lg border bg-white rounded-lg"
       style={{
         left: Math.min(position.x, window.innerWidth - 288),
         top: Math.min(position.y - 10, window.innerHeight - 200)
@@ -103,13 +179,30 @@ export function HighlightTooltip({
 
         {/* Conditional rendering: Edit mode vs View mode */}
         {isEditing ? (
-          // Edit mode: Textarea for modifying notes
+          // Edit mode: Markdown editor for modifying notes
           <div className="space-y-2">
-            <textarea
+            <MarkdownEditor
               value={editNote}
-              onChange={(e) => setEditNote(e.target.value)}
-              className="min-h-16 text-sm w-full border rounded p-2 focus:outline-none focus:ring focus:border-blue-300"
+              onChange={setEditNote}
               placeholder="Add a note..."
+              autoFocus
+            />
+            <TagInput
+              tags={editTags}
+              suggestions={allTags}
+              onChange={setEditTags}
+            />
+            <CollectionPicker
+              collections={collections}
+              selectedIds={editCollections}
+              onChange={setEditCollections}
+              onCreated={(collection) =>
+                setCollections((prev) =>
+                  prev.some((c) => c.id === collection.id)
+                    ? prev
+                    : [...prev, collection]
+                )
+              }
             />
             {/* Edit mode action buttons */}
             <div className="flex gap-2">
@@ -131,18 +224,41 @@ export function HighlightTooltip({
           <div className="space-y-2">
             {/* Display existing note if available */}
             {highlight.note && (
-              <div className="bg-gray-50 p-2 rounded text-sm text-gray-700">
-                {highlight.note}
+              <Markdown
+                source={highlight.note}
+                className="bg-gray-50 p-2 rounded text-sm text-gray-700"
+              />
+            )}
+
+            {/* Tags and collections of the highlight */}
+            {(highlight.tags?.length > 0 ||
+              highlightCollections.length > 0) && (
+              <div className="flex flex-wrap gap-1">
+                {highlight.tags?.map((tag) => (
+                  <span
+                    key={tag}
+                    className="bg-blue-100 text-blue-800 rounded px-1.5 py-0.5 text-xs">
+                    #{tag}
+                  </span>
+                ))}
+                {highlightCollections.map((collection) => (
+                  <span
+                    key={collection.id}
+                    className="flex items-center gap-0.5 bg-gray-100 text-gray-700 rounded px-1.5 py-0.5 text-xs">
+                    <Folder className="h-3 w-3" />
+                    {collection.name}
+                  </span>
+                ))}
               </div>
             )}
 
             {/* View mode action buttons */}
             <div className="flex gap-2">
               <button
-                onClick={() => setIsEditing(true)}
+                onClick={handleEdit}
                 className="flex-1 flex items-center justify-center gap-1 border border-gray-300 rounded px-3 py-2 text-sm font-medium hover:bg-gray-100 transition-colors">
                 <Edit2 className="h-4 w-4 mr-1" />
-                {highlight.note ? "Edit" : "Add Note"}
+                {highlight.note || highlight.tags?.length ? "Edit" : "Add Note"}
               </button>
               <button
                 onClick={handleDelete}
@@ -150,6 +266,16 @@ export function HighlightTooltip({
                 <Trash2 className="h-4 w-4" />
               </button>
             </div>
+
+            {/* Discussion added after the note */}
+            <CommentThread
+              comments={highlight.comments || []}
+              onAdd={(text) => onAddComment(highlight.id, text)}
+              onUpdate={(commentId, text) =>
+                onUpdateComment(highlight.id, commentId, text)
+              }
+              onDelete={(commentId) => onDeleteComment(highlight.id, commentId)}
+            />
           </div>
         )}
 
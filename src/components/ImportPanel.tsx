@@ -0,0 +1,194 @@
+// Import helpers for parsing files and previewing their effect
+import { parseImportFile, planImport, type ImportPlan } from "@/lib/import"
+// Storage utilities for comparing with and saving highlights
+import { HighlightStorage } from "@/lib/storage"
+// Built-in page identity rules, applied after the user's own
+import { DEFAULT_DOMAIN_RULES } from "@/lib/url"
+// Icons for the import toggle
+import { Upload } from "lucide-react"
+import React, { useRef, useState } from "react"
+
+/**
+ * Props interface for the ImportPanel component
+ * @interface ImportPanelProps
+ */
+interface ImportPanelProps {
+  /** Callback after highlights were saved, to reload the popup's lists */
+  onImported: () => void
+}
+
+// Human readable names of the supported import formats
+const SOURCE_LABELS: Record<ImportPlan["source"], string> = {
+  backup: "Text Highlighter backup",
+  kindle: "Kindle clippings",
+  hypothesis: "Hypothesis annotations"
+}
+
+/**
+ * ImportPanel Component
+ *
+ * Lets the user pick a JSON backup, a Kindle "My Clippings.txt" or a
+ * Hypothesis JSON export, then previews what would be added, skipped or
+ * conflicting before anything is written to storage.
+ *
+ * @param {ImportPanelProps} props - Component properties
+ * @returns {JSX.Element} The import panel component
+ */
+export function ImportPanel({ onImported }: ImportPanelProps) {
+  // Hidden file input opened by the import button
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  // State for the preview of the chosen file
+  const [plan, setPlan] = useState<ImportPlan | null>(null)
+  // State for whether conflicting highlights are replaced by imported ones
+  const [overwriteConflicts, setOverwriteConflicts] = useState(false)
+  // State for the last error or success message
+  const [status, setStatus] = useState("")
+  // State for disabling the buttons while saving
+  const [isImporting, setIsImporting] = useState(false)
+
+  /**
+   * Handles the chosen file: parses it and builds the preview
+   * @param {React.ChangeEvent<HTMLInputElement>} e - File input change event
+   */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // Allow picking the same file again later
+    e.target.value = ""
+    if (!file) return
+
+    setStatus("")
+    try {
+      const parsed = parseImportFile(file.name, await file.text())
+      const [existing, rules] = await Promise.all([
+        HighlightStorage.getAll(),
+        HighlightStorage.getDomainRules()
+      ])
+      setPlan(planImport(parsed, existing, [...rules, ...DEFAULT_DOMAIN_RULES]))
+      setOverwriteConflicts(false)
+    } catch (error) {
+      setPlan(null)
+      setStatus(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  /**
+   * Handles committing the previewed import
+   */
+  const handleConfirm = async () => {
+    if (!plan) return
+    const highlights = [
+      ...plan.added,
+      ...(overwriteConflicts ? plan.conflicts.map((c) => c.incoming) : [])
+    ]
+
+    setIsImporting(true)
+    try {
+      const saved = await HighlightStorage.import(
+        highlights,
+        plan.collections,
+        plan.palette
+      )
+      setStatus(`Imported ${saved} highlight${saved === 1 ? "" : "s"}`)
+      setPlan(null)
+      onImported()
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : String(error))
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const importCount =
+    (plan?.added.length || 0) +
+    (overwriteConflicts ? plan?.conflicts.length || 0 : 0)
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="w-full flex items-center justify-center gap-1 border border-gray-300 rounded px-3 py-1.5 text-xs font-medium hover:bg-gray-100 transition-colors">
+        <Upload className="h-3 w-3" />
+        Import highlights
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,.txt,application/json,text/plain"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+
+      {status && !plan && (
+        <p className="text-xs text-gray-600 text-center">{status}</p>
+      )}
+
+      {/* Preview of what the import would do */}
+      {plan && (
+        <div className="p-2 space-y-2 border border-gray-200 rounded-lg bg-gray-50 text-xs">
+          <p className="font-medium text-gray-900">
+            {SOURCE_LABELS[plan.source]}
+          </p>
+          <ul className="space-y-0.5 text-gray-700">
+            <li>{plan.added.length} new</li>
+            <li>{plan.skipped.length} skipped</li>
+            <li>{plan.conflicts.length} conflicting</li>
+          </ul>
+
+          {plan.skipped.length > 0 && (
+            <details>
+              <summary className="cursor-pointer text-gray-600">
+                Skipped records
+              </summary>
+              <ul className="mt-1 max-h-24 overflow-y-auto space-y-1">
+                {plan.skipped.map((issue, index) => (
+                  <li key={index} className="text-gray-600">
+                    <span className="text-gray-800">{issue.label}</span> —{" "}
+                    {issue.reason}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+
+          {plan.conflicts.length > 0 && (
+            <details>
+              <summary className="cursor-pointer text-gray-600">
+                Conflicting highlights
+              </summary>
+              <ul className="mt-1 max-h-24 overflow-y-auto space-y-1">
+                {plan.conflicts.map(({ incoming, existing }) => (
+                  <li key={incoming.id} className="text-gray-600">
+                    <span className="text-gray-800">"{existing.text}"</span>{" "}
+                    differs from the saved version
+                  </li>
+                ))}
+              </ul>
+              <label className="mt-1 flex items-center gap-1 text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={overwriteConflicts}
+                  onChange={(e) => setOverwriteConflicts(e.target.checked)}
+                />
+                Replace saved versions with imported ones
+              </label>
+            </details>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleConfirm}
+              disabled={isImporting || importCount === 0}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 text-white rounded px-2 py-1 font-medium disabled:opacity-50 transition-colors">
+              Import {importCount}
+            </button>
+            <button
+              onClick={() => setPlan(null)}
+              className="flex-1 border border-gray-300 bg-white rounded px-2 py-1 font-medium hover:bg-gray-100 transition-colors">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
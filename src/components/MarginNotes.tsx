@@ -0,0 +1,225 @@
+// Markdown rendering and editing for notes
+import { Markdown } from "@/components/Markdown"
+import { MarkdownEditor } from "@/components/MarkdownEditor"
+// Highlight span lookup, to align notes with their highlights
+import { findHighlightSpans } from "@/lib/highlighter"
+// Gutter size and the layout of overlapping notes
+import { MARGIN_WIDTH, stackMarginNotes } from "@/lib/margin"
+// Palette helpers for card colors
+import { getHighlightColor, type PaletteColor } from "@/lib/palette"
+// Type definitions for highlight objects
+import type { Highlight } from "@/lib/types"
+// Icons for editing notes
+import { Edit2, Save, X } from "lucide-react"
+import React, { useEffect, useLayoutEffect, useRef, useState } from "react"
+
+/**
+ * Props interface for the MarginNotes component
+ * @interface MarginNotesProps
+ */
+interface MarginNotesProps {
+  /** The page's highlights; those with a note get a card */
+  highlights: Highlight[]
+  /** The user's color palette */
+  palette: PaletteColor[]
+  /** Distance of the gutter from the right edge of the window, in pixels */
+  rightOffset: number
+  /** Callback function to save an edited note */
+  onUpdate: (id: string, updates: Partial<Highlight>) => Promise<void>
+}
+
+/**
+ * Measures where each highlight starts in the viewport
+ * Highlights without a visible span, e.g. inside collapsed sections, are
+ * left out.
+ *
+ * @param {HTMLElement[]} spans - The page's highlight spans, in page order
+ * @returns {Map<string, number>} Viewport top of each rendered highlight, by ID
+ */
+function measureHighlightTops(spans: HTMLElement[]): Map<string, number> {
+  const tops = new Map<string, number>()
+  spans.forEach((span) => {
+    const id = span.dataset.highlightId
+    if (tops.has(id) || !span.isConnected) return
+    const rect = span.getBoundingClientRect()
+    if (rect.width > 0 || rect.height > 0) tops.set(id, rect.top)
+  })
+  return tops
+}
+
+/**
+ * MarginNotes Component
+ *
+ * Margin mode: the notes of the page's highlights shown as cards in a
+ * gutter along the right edge of the window, each level with its
+ * highlight. Cards that would overlap are pushed down below the one above,
+ * and every card follows its highlight as the page scrolls, resizes or
+ * re-renders. A card's note can be edited in place.
+ *
+ * While shown, the page is padded on the right so the gutter doesn't cover
+ * its text.
+ *
+ * @param {MarginNotesProps} props - Component properties
+ * @returns {JSX.Element} The gutter with the note cards
+ */
+export function MarginNotes({
+  highlights,
+  palette,
+  rightOffset,
+  onUpdate
+}: MarginNotesProps) {
+  // State for the viewport top of each highlight, by ID
+  const [anchorTops, setAnchorTops] = useState<Map<string, number>>(new Map())
+  // State for the highlight whose note is being edited
+  const [editingId, setEditingId] = useState<string | null>(null)
+  // State for the note being edited
+  const [draft, setDraft] = useState("")
+  // Card elements by highlight ID, measured to stack them
+  const cardRefs = useRef(new Map<string, HTMLElement>())
+
+  // Highlights with a note that is rendered on the page, or being edited
+  const noted = highlights.filter(
+    (h) => (h.note || h.id === editingId) && anchorTops.has(h.id)
+  )
+
+  useEffect(() => {
+    // Spans only change when the highlights are rendered again, so they are
+    // looked up once rather than on every scroll
+    const spans = findHighlightSpans()
+    let frame = 0
+
+    /**
+     * Measures the highlights again, at most once per animation frame
+     */
+    const measure = () => {
+      if (frame) return
+      frame = requestAnimationFrame(() => {
+        frame = 0
+        setAnchorTops(measureHighlightTops(spans))
+      })
+    }
+
+    measure()
+    // Capture scrolls of inner containers too, which don't bubble
+    window.addEventListener("scroll", measure, true)
+    window.addEventListener("resize", measure)
+    // Layout changes that move text without a scroll or resize
+    const observer = new ResizeObserver(measure)
+    observer.observe(document.body)
+    return () => {
+      cancelAnimationFrame(frame)
+      window.removeEventListener("scroll", measure, true)
+      window.removeEventListener("resize", measure)
+      observer.disconnect()
+    }
+  }, [highlights])
+
+  useEffect(() => {
+    // Make room for the gutter so the cards don't cover the page's text;
+    // the highlights move with it and are measured again
+    const root = document.documentElement
+    const previous = root.style.paddingRight
+    root.style.paddingRight = `${MARGIN_WIDTH + rightOffset}px`
+    return () => {
+      root.style.paddingRight = previous
+    }
+  }, [rightOffset])
+
+  useLayoutEffect(() => {
+    // Stack the cards now that their heights are known, before painting
+    const tops = stackMarginNotes(
+      noted.map((h) => ({
+        id: h.id,
+        anchorTop: anchorTops.get(h.id),
+        height: cardRefs.current.get(h.id)?.offsetHeight || 0
+      }))
+    )
+    tops.forEach((top, id) => {
+      const card = cardRefs.current.get(id)
+      if (card) card.style.transform = `translateY(${top}px)`
+    })
+  })
+
+  /**
+   * Opens a note for editing
+   * @param {Highlight} highlight - The highlight whose note to edit
+   */
+  const handleEdit = (highlight: Highlight) => {
+    setDraft(highlight.note)
+    setEditingId(highlight.id)
+  }
+
+  /**
+   * Saves the edited note and closes the editor
+   * If saving fails the editor stays open, so the note isn't lost.
+   */
+  const handleSave = async () => {
+    const id = editingId
+    try {
+      await onUpdate(id, { note: draft })
+      // Another note may have been opened while this one was saving
+      setEditingId((current) => (current === id ? null : current))
+    } catch (error) {
+      console.warn("Could not save note:", error)
+    }
+  }
+
+  return (
+    <div
+      className="fixed top-0 z-[9999] h-full overflow-hidden pointer-events-none"
+      style={{ right: rightOffset, width: MARGIN_WIDTH }}>
+      {noted.map((highlight) => {
+        const color = getHighlightColor(highlight, palette)
+        return (
+          <div
+            key={highlight.id}
+            ref={(element) => {
+              if (element) cardRefs.current.set(highlight.id, element)
+              else cardRefs.current.delete(highlight.id)
+            }}
+            className="absolute top-0 left-2 right-2 p-2 space-y-1 rounded border border-l-4 bg-white shadow-sm text-xs text-gray-700 pointer-events-auto"
+            style={{ borderLeftColor: color }}>
+            {highlight.id === editingId ? (
+              // Edit mode: Markdown editor with save and cancel
+              <div className="space-y-2">
+                <MarkdownEditor
+                  value={draft}
+                  onChange={setDraft}
+                  placeholder="Add a note..."
+                  autoFocus
+                />
+                <div className="flex justify-end gap-1">
+                  <button
+                    onClick={() => setEditingId(null)}
+                    className="flex items-center gap-1 rounded px-2 py-1 hover:bg-gray-100"
+                    title="Discard changes">
+                    <X className="h-3 w-3" />
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSave}
+                    className="flex items-center gap-1 rounded px-2 py-1 text-white bg-blue-600 hover:bg-blue-700"
+                    title="Save note">
+                    <Save className="h-3 w-3" />
+                    Save
+                  </button>
+                </div>
+              </div>
+            ) : (
+              // View mode: the note with an edit button
+              <div className="flex items-start gap-1">
+                <Markdown source={highlight.note} className="flex-1 min-w-0" />
+                <button
+                  onClick={() => handleEdit(highlight)}
+                  className="shrink-0 p-0.5 rounded text-gray-400 hover:bg-gray-100 hover:text-gray-700"
+                  title="Edit note">
+                  <Edit2 className="h-3 w-3" />
+                </button>
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
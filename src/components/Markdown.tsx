@@ -0,0 +1,130 @@
+// Markdown parser and syntax tree types
+import {
+  parseMarkdown,
+  type MarkdownBlock,
+  type MarkdownInline
+} from "@/lib/markdown"
+import React, { useMemo } from "react"
+
+/**
+ * Props interface for the Markdown component
+ * @interface MarkdownProps
+ */
+interface MarkdownProps {
+  /** The Markdown text of a note or comment */
+  source: string
+  /** Extra classes for the wrapper, e.g. the text size */
+  className?: string
+}
+
+/**
+ * Renders inline Markdown content
+ *
+ * @param {MarkdownInline[]} nodes - The inline content
+ * @returns {React.ReactNode[]} One element per node
+ */
+function renderInline(nodes: MarkdownInline[]): React.ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return <React.Fragment key={index}>{node.text}</React.Fragment>
+      case "code":
+        return (
+          <code
+            key={index}
+            className="rounded bg-gray-100 px-1 font-mono text-[0.9em]">
+            {node.text}
+          </code>
+        )
+      case "strong":
+        return <strong key={index}>{renderInline(node.children)}</strong>
+      case "em":
+        return <em key={index}>{renderInline(node.children)}</em>
+      case "link":
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-600 underline hover:text-blue-700">
+            {renderInline(node.children)}
+          </a>
+        )
+      case "break":
+        return <br key={index} />
+    }
+  })
+}
+
+/**
+ * Renders block-level Markdown content
+ *
+ * @param {MarkdownBlock[]} blocks - The blocks to render
+ * @returns {React.ReactNode[]} One element per block
+ */
+function renderBlocks(blocks: MarkdownBlock[]): React.ReactNode[] {
+  return blocks.map((block, index) => {
+    switch (block.type) {
+      case "paragraph":
+        return <p key={index}>{renderInline(block.children)}</p>
+      case "heading":
+        return (
+          <p key={index} className="font-semibold">
+            {renderInline(block.children)}
+          </p>
+        )
+      case "list": {
+        const items = block.items.map((item, i) => (
+          <li key={i}>{renderInline(item)}</li>
+        ))
+        return block.ordered ? (
+          <ol key={index} start={block.start} className="list-decimal pl-5">
+            {items}
+          </ol>
+        ) : (
+          <ul key={index} className="list-disc pl-5">
+            {items}
+          </ul>
+        )
+      }
+      case "code":
+        return (
+          <pre
+            key={index}
+            className="overflow-x-auto rounded bg-gray-100 p-2 font-mono text-[0.9em]">
+            <code>{block.text}</code>
+          </pre>
+        )
+      case "quote":
+        return (
+          <blockquote
+            key={index}
+            className="space-y-1 border-l-2 border-gray-300 pl-2 text-gray-600">
+            {renderBlocks(block.children)}
+          </blockquote>
+        )
+    }
+  })
+}
+
+/**
+ * Markdown Component
+ *
+ * Renders a note or comment written in Markdown. The text is parsed into
+ * plain data and rendered as React elements, so raw HTML in a note shows
+ * up as text and only web and mail links become clickable. Headings are
+ * shown as bold lines, since notes sit in small cards.
+ *
+ * @param {MarkdownProps} props - Component properties
+ * @returns {JSX.Element} The rendered note
+ */
+export function Markdown({ source, className = "" }: MarkdownProps) {
+  const blocks = useMemo(() => parseMarkdown(source), [source])
+
+  return (
+    <div className={`space-y-1 break-words ${className}`}>
+      {renderBlocks(blocks)}
+    </div>
+  )
+}
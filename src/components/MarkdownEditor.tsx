@@ -0,0 +1,88 @@
+// Renderer for the preview tab
+import { Markdown } from "@/components/Markdown"
+import React, { useState } from "react"
+
+/**
+ * Props interface for the MarkdownEditor component
+ * @interface MarkdownEditorProps
+ */
+interface MarkdownEditorProps {
+  /** The Markdown text being edited */
+  value: string
+  /** Callback function receiving the edited text */
+  onChange: (value: string) => void
+  /** Hint shown while the text is empty */
+  placeholder?: string
+  /** Whether to focus the textarea when the editor opens */
+  autoFocus?: boolean
+  /** Minimum height class of the textarea and preview */
+  heightClassName?: string
+}
+
+/**
+ * MarkdownEditor Component
+ *
+ * A textarea for writing notes and comments in Markdown, with a toggle to
+ * preview how the text will be shown. Previewing keeps the text; switching
+ * back to "Write" continues editing where the user left off.
+ *
+ * @param {MarkdownEditorProps} props - Component properties
+ * @returns {JSX.Element} The editor component
+ */
+export function MarkdownEditor({
+  value,
+  onChange,
+  placeholder,
+  autoFocus = false,
+  heightClassName = "min-h-16"
+}: MarkdownEditorProps) {
+  // State for toggling between writing and previewing
+  const [isPreviewing, setIsPreviewing] = useState(false)
+
+  const tabClassName = (active: boolean) =>
+    `px-2 py-0.5 rounded text-xs font-medium ${
+      active ? "bg-gray-200 text-gray-900" : "text-gray-500 hover:text-gray-900"
+    }`
+
+  return (
+    <div className="space-y-1">
+      {/* Write / Preview toggle */}
+      <div className="flex items-center gap-1">
+        <button
+          type="button"
+          onClick={() => setIsPreviewing(false)}
+          className={tabClassName(!isPreviewing)}>
+          Write
+        </button>
+        <button
+          type="button"
+          onClick={() => setIsPreviewing(true)}
+          className={tabClassName(isPreviewing)}>
+          Preview
+        </button>
+        <span className="ml-auto text-[10px] text-gray-400">
+          Markdown supported
+        </span>
+      </div>
+
+      {isPreviewing ? (
+        <div
+          className={`${heightClassName} w-full border rounded p-2 text-sm text-gray-700 bg-gray-50`}>
+          {value.trim() ? (
+            <Markdown source={value} />
+          ) : (
+            <p className="text-gray-400">Nothing to preview</p>
+          )}
+        </div>
+      ) : (
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          autoFocus={autoFocus}
+          className={`${heightClassName} text-sm w-full border rounded p-2 focus:outline-none focus:ring focus:border-blue-300`}
+        />
+      )}
+    </div>
+  )
+}
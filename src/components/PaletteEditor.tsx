@@ -0,0 +1,193 @@
+// Palette entry type and checks
+import { validatePalette, type PaletteColor } from "@/lib/palette"
+// Storage utilities for saving the palette
+import { HighlightStorage } from "@/lib/storage"
+// Icons for the palette toggle and entry actions
+import { ArrowDown, ArrowUp, Palette, Plus, Trash2 } from "lucide-react"
+import React, { useState } from "react"
+
+/**
+ * Props interface for the PaletteEditor component
+ * @interface PaletteEditorProps
+ */
+interface PaletteEditorProps {
+  /** The saved palette */
+  palette: PaletteColor[]
+  /** Callback after the palette was saved, receiving the new palette */
+  onSaved: (palette: PaletteColor[]) => void
+}
+
+// Color given to entries added by the user, before they pick one
+const NEW_ENTRY_COLOR = "#d1d5db"
+
+/**
+ * PaletteEditor Component
+ *
+ * A collapsible panel in the popup for managing the highlight color palette:
+ * colors can be added, given a label describing what they mean, recolored,
+ * reordered and deleted. Changes are kept locally until saved, then every
+ * highlight using an entry is recolored by the background.
+ *
+ * @param {PaletteEditorProps} props - Component properties
+ * @returns {JSX.Element} The palette editor component
+ */
+export function PaletteEditor({ palette, onSaved }: PaletteEditorProps) {
+  // State for toggling the editor panel
+  const [isOpen, setIsOpen] = useState(false)
+  // State for the palette being edited
+  const [draft, setDraft] = useState<PaletteColor[]>(palette)
+  // State for the last error message
+  const [error, setError] = useState("")
+  // State for disabling the buttons while saving
+  const [isSaving, setIsSaving] = useState(false)
+
+  /**
+   * Opens or closes the editor, starting from the saved palette
+   */
+  const handleToggle = () => {
+    setDraft(palette)
+    setError("")
+    setIsOpen(!isOpen)
+  }
+
+  /**
+   * Changes one field of an entry
+   * @param {number} index - Position of the entry
+   * @param {Partial<PaletteColor>} changes - The fields to change
+   */
+  const updateEntry = (index: number, changes: Partial<PaletteColor>) => {
+    setDraft((prev) =>
+      prev.map((entry, i) => (i === index ? { ...entry, ...changes } : entry))
+    )
+  }
+
+  /**
+   * Swaps an entry with its neighbour
+   * @param {number} index - Position of the entry
+   * @param {number} offset - -1 to move up, 1 to move down
+   */
+  const moveEntry = (index: number, offset: number) => {
+    setDraft((prev) => {
+      const next = [...prev]
+      const [entry] = next.splice(index, 1)
+      next.splice(index + offset, 0, entry)
+      return next
+    })
+  }
+
+  /**
+   * Appends a new entry for the user to label and color
+   */
+  const addEntry = () => {
+    setDraft((prev) => [
+      ...prev,
+      {
+        id: Math.random().toString(36).slice(2, 11),
+        label: "New color",
+        color: NEW_ENTRY_COLOR
+      }
+    ])
+  }
+
+  /**
+   * Saves the edited palette
+   */
+  const handleSave = async () => {
+    const problem = validatePalette(draft)
+    if (problem) {
+      setError(problem)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await HighlightStorage.setPalette(draft)
+      onSaved(draft)
+      setIsOpen(false)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={handleToggle}
+        className="w-full flex items-center justify-center gap-1 border border-gray-300 rounded px-3 py-1.5 text-xs font-medium hover:bg-gray-100 transition-colors">
+        <Palette className="h-3 w-3" />
+        Edit colors
+      </button>
+
+      {isOpen && (
+        <div className="p-2 space-y-2 border border-gray-200 rounded-lg bg-gray-50 text-xs">
+          {draft.map((entry, index) => (
+            <div key={entry.id} className="flex items-center gap-1">
+              <input
+                type="color"
+                value={entry.color}
+                onChange={(e) => updateEntry(index, { color: e.target.value })}
+                className="h-6 w-6 shrink-0 cursor-pointer rounded border border-gray-300 bg-white p-0"
+                title="Change color"
+              />
+              <input
+                type="text"
+                value={entry.label}
+                onChange={(e) => updateEntry(index, { label: e.target.value })}
+                className="flex-1 min-w-0 h-6 border border-gray-300 rounded bg-white px-1 focus:outline-none focus:ring-2 focus:ring-yellow-400"
+                placeholder="What this color means"
+              />
+              <button
+                onClick={() => moveEntry(index, -1)}
+                disabled={index === 0}
+                className="h-6 w-5 flex items-center justify-center text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                title="Move up">
+                <ArrowUp className="h-3 w-3" />
+              </button>
+              <button
+                onClick={() => moveEntry(index, 1)}
+                disabled={index === draft.length - 1}
+                className="h-6 w-5 flex items-center justify-center text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                title="Move down">
+                <ArrowDown className="h-3 w-3" />
+              </button>
+              <button
+                onClick={() =>
+                  setDraft((prev) => prev.filter((_, i) => i !== index))
+                }
+                disabled={draft.length === 1}
+                className="h-6 w-5 flex items-center justify-center text-gray-400 hover:text-red-600 disabled:opacity-30"
+                title="Delete color (highlights keep their current color)">
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+
+          <button
+            onClick={addEntry}
+            className="flex items-center gap-1 text-blue-600 hover:text-blue-700 font-medium">
+            <Plus className="h-3 w-3" />
+            Add color
+          </button>
+
+          {error && <p className="text-red-600">{error}</p>}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 text-white rounded px-2 py-1 font-medium disabled:opacity-50 transition-colors">
+              Save colors
+            </button>
+            <button
+              onClick={() => setIsOpen(false)}
+              className="flex-1 border border-gray-300 bg-white rounded px-2 py-1 font-medium hover:bg-gray-100 transition-colors">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+// PDF rendering: document and page types, and the text layer builder
+import {
+  renderTextLayer,
+  type PDFDocumentProxy,
+  type RenderTask
+} from "pdfjs-dist"
+import React, { useEffect, useRef, useState } from "react"
+
+/**
+ * Props interface for the PdfPage component
+ * @interface PdfPageProps
+ */
+interface PdfPageProps {
+  /** The loaded PDF */
+  pdf: PDFDocumentProxy
+  /** The page to render, from 1 */
+  pageNumber: number
+  /** Zoom factor, 1 being the PDF's own size at 72 dpi */
+  scale: number
+  /** Size shown until the page itself has loaded */
+  placeholderSize: { width: number; height: number }
+  /** Callback once the page's text layer is ready for highlights */
+  onTextLayerReady: (pageNumber: number, textLayer: HTMLElement) => void
+}
+
+/**
+ * PdfPage Component
+ *
+ * One page of the PDF viewer: a canvas with the rendered page and, on top
+ * of it, pdf.js's text layer of transparent, absolutely positioned text
+ * runs. The text layer is what the user selects and what highlight spans
+ * are wrapped into.
+ *
+ * Pages are only rendered once they come near the viewport, so long
+ * documents open quickly; a rendered page is kept afterwards, along with
+ * its highlights.
+ *
+ * @param {PdfPageProps} props - Component properties
+ * @returns {JSX.Element} The page component
+ */
+export function PdfPage({
+  pdf,
+  pageNumber,
+  scale,
+  placeholderSize,
+  onTextLayerReady
+}: PdfPageProps) {
+  // The page container, watched for coming into view
+  const containerRef = useRef<HTMLDivElement>(null)
+  // Canvas the page is drawn on
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  // Container of the selectable text runs
+  const textLayerRef = useRef<HTMLDivElement>(null)
+  // State for whether the page has come near the viewport
+  const [isNearViewport, setIsNearViewport] = useState(false)
+  // State for the page's size at the current scale, once known
+  const [size, setSize] = useState<{ width: number; height: number } | null>(
+    null
+  )
+
+  useEffect(() => {
+    // Start rendering a screen ahead of the scroll position
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          setIsNearViewport(true)
+          observer.disconnect()
+        }
+      },
+      { rootMargin: "100% 0px" }
+    )
+    observer.observe(containerRef.current)
+    return () => observer.disconnect()
+  }, [])
+
+  useEffect(() => {
+    if (!isNearViewport) return
+    let cancelled = false
+    let renderTask: RenderTask | null = null
+
+    /**
+     * Draws the page and builds its text layer
+     */
+    const render = async () => {
+      const page = await pdf.getPage(pageNumber)
+      if (cancelled) return
+      const viewport = page.getViewport({ scale })
+      setSize({ width: viewport.width, height: viewport.height })
+
+      // Draw at the screen's pixel density so text stays sharp
+      const canvas = canvasRef.current
+      const ratio = window.devicePixelRatio || 1
+      canvas.width = Math.floor(viewport.width * ratio)
+      canvas.height = Math.floor(viewport.height * ratio)
+      renderTask = page.render({
+        canvasContext: canvas.getContext("2d"),
+        viewport,
+        transform: ratio === 1 ? undefined : [ratio, 0, 0, ratio, 0, 0]
+      })
+      await renderTask.promise
+      if (cancelled) return
+
+      const textLayer = textLayerRef.current
+      textLayer.replaceChildren()
+      await renderTextLayer({
+        textContentSource: await page.getTextContent(),
+        container: textLayer,
+        viewport
+      }).promise
+      if (!cancelled) onTextLayerReady(pageNumber, textLayer)
+    }
+
+    render().catch((error) => {
+      if (!cancelled)
+        console.warn(`Could not render page ${pageNumber}:`, error)
+    })
+    return () => {
+      cancelled = true
+      renderTask?.cancel()
+    }
+  }, [isNearViewport, pdf, pageNumber, scale])
+
+  const { width, height } = size || placeholderSize
+
+  return (
+    <div
+      ref={containerRef}
+      data-page-number={pageNumber}
+      className="relative mx-auto bg-white shadow"
+      // pdf.js sizes the text runs from this variable
+      style={{ width, height, ["--scale-factor" as string]: scale }}>
+      <canvas ref={canvasRef} className="absolute inset-0 h-full w-full" />
+      <div ref={textLayerRef} className="textLayer" />
+    </div>
+  )
+}
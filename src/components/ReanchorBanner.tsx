@@ -0,0 +1,57 @@
+// Type definitions for highlight objects
+import type { Highlight } from "@/lib/types"
+// Icons for the banner and cancel action
+import { Crosshair, X } from "lucide-react"
+import React from "react"
+
+/**
+ * Props interface for the ReanchorBanner component
+ * @interface ReanchorBannerProps
+ */
+interface ReanchorBannerProps {
+  /** The orphaned highlight waiting for a new location */
+  highlight: Highlight
+  /** Callback function to leave re-anchor mode without changes */
+  onCancel: () => void
+}
+
+/**
+ * ReanchorBanner Component
+ *
+ * A banner pinned to the top of the page while the user is choosing a new
+ * location for a highlight that could no longer be placed. It reminds the
+ * user which text they are re-anchoring; the next selection they make on the
+ * page becomes the highlight's new anchor.
+ *
+ * @param {ReanchorBannerProps} props - Component properties
+ * @returns {JSX.Element} The banner component
+ */
+export function ReanchorBanner({ highlight, onCancel }: ReanchorBannerProps) {
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-[10003] w-96 p-3 shadow-lg border bg-white rounded-lg">
+      <div className="flex items-start gap-2">
+        <Crosshair className="h-4 w-4 mt-0.5 text-blue-600 shrink-0" />
+        <div className="flex-1 space-y-2">
+          <h3 className="font-medium text-sm text-gray-900">
+            Select the new location for this highlight
+          </h3>
+          {/* Preview of the orphaned highlight's text */}
+          <div className="bg-yellow-100 p-2 rounded text-xs text-gray-800 border-l-2 border-yellow-400">
+            "
+            {highlight.text.length > 100
+              ? highlight.text.substring(0, 100) + "..."
+              : highlight.text}
+            "
+          </div>
+          <p className="text-xs text-gray-500">Press Escape to cancel</p>
+        </div>
+        <button
+          onClick={onCancel}
+          className="h-6 w-6 p-0 flex items-center justify-center rounded hover:bg-gray-100"
+          aria-label="Cancel">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+// Search result types
+import type { SearchResult, SnippetPart } from "@/lib/search"
+// Icon for results on other pages
+import { Globe } from "lucide-react"
+import React from "react"
+
+/**
+ * Props interface for the SearchResults component
+ * @interface SearchResultsProps
+ */
+interface SearchResultsProps {
+  /** Ranked results, best first */
+  results: SearchResult[]
+  /** Whether results from every page are listed, to show their page */
+  showPages: boolean
+  /** Callback function when a result is clicked */
+  onSelect: (result: SearchResult) => void
+}
+
+/**
+ * Renders a snippet with its matching parts marked
+ *
+ * @param {SnippetPart[]} parts - The snippet
+ * @returns {JSX.Element[]} One element per part
+ */
+function renderSnippet(parts: SnippetPart[]) {
+  return parts.map((part, index) =>
+    part.match ? (
+      <mark key={index} className="bg-yellow-300 text-gray-900 rounded-sm">
+        {part.text}
+      </mark>
+    ) : (
+      <span key={index}>{part.text}</span>
+    )
+  )
+}
+
+/**
+ * SearchResults Component
+ *
+ * Lists ranked full-text search results in the popup, with the matching
+ * words marked in excerpts of the highlighted text and note. Results from
+ * other pages show the page they belong to.
+ *
+ * @param {SearchResultsProps} props - Component properties
+ * @returns {JSX.Element} The result list
+ */
+export function SearchResults({
+  results,
+  showPages,
+  onSelect
+}: SearchResultsProps) {
+  if (results.length === 0) {
+    return (
+      <div className="p-4 text-center border border-gray-200 rounded-lg bg-gray-50">
+        <p className="text-sm text-gray-500">No highlights match your search</p>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      {results.map((result) => (
+        <button
+          key={result.highlight.id}
+          onClick={() => onSelect(result)}
+          className="w-full text-left p-3 space-y-1 border border-gray-200 rounded-lg bg-white hover:bg-gray-50 transition-colors">
+          {/* Page the highlight belongs to */}
+          {showPages && (
+            <div className="flex items-center gap-1 text-xs text-gray-500">
+              <Globe className="h-3 w-3 shrink-0" />
+              <span className="truncate">
+                {result.highlight.title || result.highlight.url}
+              </span>
+            </div>
+          )}
+
+          {/* Excerpt of the highlighted text */}
+          <div
+            className="p-2 rounded text-xs text-gray-800 border-l-2"
+            style={{ borderColor: result.highlight.color || "#fef08a" }}>
+            {renderSnippet(result.snippet)}
+          </div>
+
+          {/* Excerpt of the note, when it matched */}
+          {result.noteSnippet && (
+            <div className="bg-gray-50 p-2 rounded text-xs text-gray-700">
+              📝 {renderSnippet(result.noteSnippet)}
+            </div>
+          )}
+        </button>
+      ))}
+    </>
+  )
+}
@@ -0,0 +1,116 @@
+// Site clean-up helper
+import { normalizeSite } from "@/lib/settings"
+// Icons for adding and removing sites
+import { Plus, X } from "lucide-react"
+import React, { useState } from "react"
+
+/**
+ * Props interface for the SiteListEditor component
+ * @interface SiteListEditorProps
+ */
+interface SiteListEditorProps {
+  /** Heading of the list */
+  title: string
+  /** What being on the list means */
+  description: string
+  /** The domains currently listed */
+  sites: string[]
+  /** Callback function receiving the new list of domains */
+  onChange: (sites: string[]) => void
+}
+
+/**
+ * SiteListEditor Component
+ *
+ * Edits one of the settings' site lists: listed domains are shown as
+ * removable chips, and a typed domain, URL or wildcard pattern is reduced
+ * to its bare domain when added.
+ *
+ * @param {SiteListEditorProps} props - Component properties
+ * @returns {JSX.Element} The site list editor component
+ */
+export function SiteListEditor({
+  title,
+  description,
+  sites,
+  onChange
+}: SiteListEditorProps) {
+  // State for the site being typed
+  const [draft, setDraft] = useState("")
+  // State for why the typed site can't be added
+  const [error, setError] = useState("")
+
+  /**
+   * Adds the typed site to the list and clears the input
+   */
+  const addSite = () => {
+    const site = normalizeSite(draft)
+    if (!site) {
+      setError(`"${draft.trim()}" is not a domain`)
+      return
+    }
+    if (!sites.includes(site)) onChange([...sites, site])
+    setDraft("")
+    setError("")
+  }
+
+  /**
+   * Adds the typed site on Enter
+   * @param {React.KeyboardEvent<HTMLInputElement>} e - Keyboard event
+   */
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" && draft.trim()) {
+      e.preventDefault()
+      addSite()
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <h3 className="text-sm font-medium text-gray-900">{title}</h3>
+        <p className="text-xs text-gray-500">{description}</p>
+      </div>
+
+      {sites.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {sites.map((site) => (
+            <span
+              key={site}
+              className="flex items-center gap-0.5 bg-gray-100 text-gray-800 rounded px-1.5 py-0.5 text-xs">
+              {site}
+              <button
+                onClick={() => onChange(sites.filter((s) => s !== site))}
+                className="hover:text-red-600"
+                title={`Remove ${site}`}>
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          placeholder="example.com"
+          value={draft}
+          onChange={(e) => {
+            setDraft(e.target.value)
+            setError("")
+          }}
+          onKeyDown={handleKeyDown}
+          className="flex-1 h-8 border border-gray-300 rounded bg-white px-2 text-sm focus:outline-none focus:ring-2 focus:ring-yellow-400"
+        />
+        <button
+          onClick={addSite}
+          disabled={!draft.trim()}
+          className="flex items-center gap-1 border border-gray-300 rounded px-3 text-xs font-medium hover:bg-gray-100 disabled:opacity-50 transition-colors">
+          <Plus className="h-3 w-3" />
+          Add
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,114 @@
+// Tag clean-up helpers
+import { normalizeTag, normalizeTags } from "@/lib/tags"
+// Icon for removing a tag
+import { X } from "lucide-react"
+import React, { useState } from "react"
+
+/**
+ * Props interface for the TagInput component
+ * @interface TagInputProps
+ */
+interface TagInputProps {
+  /** The tags currently assigned */
+  tags: string[]
+  /** Existing tags offered as autocompletion */
+  suggestions: string[]
+  /** Callback function receiving the new list of tags */
+  onChange: (tags: string[]) => void
+}
+
+// Maximum number of autocompletion suggestions shown at once
+const MAX_SUGGESTIONS = 5
+
+/**
+ * TagInput Component
+ *
+ * A free-form tag editor: assigned tags are shown as removable chips, and
+ * typing suggests matching tags already used on other highlights. Enter or
+ * a comma adds the typed tag; Backspace in an empty input removes the last.
+ *
+ * @param {TagInputProps} props - Component properties
+ * @returns {JSX.Element} The tag editor component
+ */
+export function TagInput({ tags, suggestions, onChange }: TagInputProps) {
+  // State for the tag being typed
+  const [draft, setDraft] = useState("")
+
+  const query = normalizeTag(draft).toLowerCase()
+  const assigned = new Set(tags.map((t) => t.toLowerCase()))
+  const matches = query
+    ? suggestions
+        .filter(
+          (s) =>
+            s.toLowerCase().includes(query) && !assigned.has(s.toLowerCase())
+        )
+        .slice(0, MAX_SUGGESTIONS)
+    : []
+
+  /**
+   * Adds a tag and clears the input
+   * @param {string} tag - The tag to add
+   */
+  const addTag = (tag: string) => {
+    onChange(normalizeTags([...tags, tag]))
+    setDraft("")
+  }
+
+  /**
+   * Handles Enter, comma and Backspace in the input
+   * @param {React.KeyboardEvent<HTMLInputElement>} e - Keyboard event
+   */
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if ((e.key === "Enter" || e.key === ",") && normalizeTag(draft)) {
+      e.preventDefault()
+      addTag(draft)
+    } else if (e.key === "Backspace" && !draft && tags.length > 0) {
+      onChange(tags.slice(0, -1))
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-1 border rounded p-1 focus-within:ring focus-within:border-blue-300">
+        {tags.map((tag) => (
+          <span
+            key={tag}
+            className="flex items-center gap-0.5 bg-blue-100 text-blue-800 rounded px-1.5 py-0.5 text-xs">
+            #{tag}
+            <button
+              onClick={() => onChange(tags.filter((t) => t !== tag))}
+              className="hover:text-blue-950"
+              aria-label={`Remove tag ${tag}`}>
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => normalizeTag(draft) && addTag(draft)}
+          placeholder={tags.length === 0 ? "Add tags..." : ""}
+          className="flex-1 min-w-16 text-sm px-1 focus:outline-none"
+        />
+      </div>
+
+      {/* Existing tags matching what is being typed */}
+      {matches.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {matches.map((tag) => (
+            <button
+              key={tag}
+              // Keep the input focused so onBlur doesn't add the partial draft
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addTag(tag)}
+              className="bg-gray-100 hover:bg-gray-200 text-gray-700 rounded px-1.5 py-0.5 text-xs">
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
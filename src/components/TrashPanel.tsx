@@ -0,0 +1,171 @@
+// Storage utilities for listing, restoring and purging deleted highlights
+import { HighlightStorage } from "@/lib/storage"
+// How long the background keeps deleted highlights
+import { TRASH_RETENTION_DAYS } from "@/lib/store"
+// Type definitions for trash entries
+import type { TrashedHighlight } from "@/lib/types"
+// Icons for the trash toggle and entry actions
+import { RotateCcw, Trash, X } from "lucide-react"
+import React, { useState } from "react"
+
+/**
+ * Props interface for the TrashPanel component
+ * @interface TrashPanelProps
+ */
+interface TrashPanelProps {
+  /** Callback after highlights were restored, to reload the popup's lists */
+  onRestored: () => void
+}
+
+/**
+ * TrashPanel Component
+ *
+ * A collapsible panel in the popup listing deleted highlights from every
+ * page. Each one can be put back on its page or deleted for good; anything
+ * left in the trash is purged automatically after
+ * {@link TRASH_RETENTION_DAYS} days.
+ *
+ * @param {TrashPanelProps} props - Component properties
+ * @returns {JSX.Element} The trash panel component
+ */
+export function TrashPanel({ onRestored }: TrashPanelProps) {
+  // State for toggling the trash panel
+  const [isOpen, setIsOpen] = useState(false)
+  // State for the deleted highlights, most recent first
+  const [trash, setTrash] = useState<TrashedHighlight[]>([])
+  // State for the last error message
+  const [error, setError] = useState("")
+
+  /**
+   * Reloads the trash from the background
+   */
+  const loadTrash = () => {
+    HighlightStorage.listTrash()
+      .then(setTrash)
+      .catch((error) =>
+        setError(error instanceof Error ? error.message : String(error))
+      )
+  }
+
+  /**
+   * Opens or closes the panel, loading the trash when opened
+   */
+  const handleToggle = () => {
+    if (!isOpen) {
+      setError("")
+      loadTrash()
+    }
+    setIsOpen(!isOpen)
+  }
+
+  /**
+   * Puts a deleted highlight back on its page
+   * @param {string} id - The unique ID of the highlight
+   */
+  const handleRestore = async (id: string) => {
+    try {
+      await HighlightStorage.restore([id])
+      setTrash((prev) => prev.filter((entry) => entry.highlight.id !== id))
+      onRestored()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  /**
+   * Permanently deletes highlights from the trash
+   * @param {string[]} [ids] - The highlights to purge; everything if omitted
+   */
+  const handlePurge = async (ids?: string[]) => {
+    try {
+      await HighlightStorage.purgeTrash(ids)
+      loadTrash()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  /**
+   * Empties the trash after confirmation
+   */
+  const handleEmpty = () => {
+    const count = trash.length
+    if (
+      window.confirm(
+        `Permanently delete ${count} highlight${count === 1 ? "" : "s"}? This cannot be undone.`
+      )
+    ) {
+      handlePurge()
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={handleToggle}
+        className="w-full flex items-center justify-center gap-1 border border-gray-300 rounded px-3 py-1.5 text-xs font-medium hover:bg-gray-100 transition-colors">
+        <Trash className="h-3 w-3" />
+        Trash
+      </button>
+
+      {isOpen && (
+        <div className="p-2 space-y-2 border border-gray-200 rounded-lg bg-gray-50 text-xs">
+          {trash.length === 0 ? (
+            <p className="text-gray-500 text-center">The trash is empty</p>
+          ) : (
+            <>
+              <div className="space-y-1 max-h-48 overflow-y-auto">
+                {trash.map(({ highlight, deletedAt }) => (
+                  <div
+                    key={highlight.id}
+                    className="p-2 space-y-1 border border-gray-200 rounded bg-white">
+                    {/* Text of the deleted highlight */}
+                    <p className="text-gray-800">
+                      "
+                      {highlight.text.length > 80
+                        ? highlight.text.substring(0, 80) + "..."
+                        : highlight.text}
+                      "
+                    </p>
+                    <div className="flex items-center justify-between gap-2 text-[10px] text-gray-500">
+                      <span className="truncate" title={highlight.url}>
+                        {highlight.title || highlight.url} • deleted{" "}
+                        {new Date(deletedAt).toLocaleDateString()}
+                      </span>
+                      <div className="flex items-center shrink-0">
+                        <button
+                          onClick={() => handleRestore(highlight.id)}
+                          className="h-5 w-5 flex items-center justify-center text-gray-400 hover:text-blue-600"
+                          title="Restore highlight">
+                          <RotateCcw className="h-3 w-3" />
+                        </button>
+                        <button
+                          onClick={() => handlePurge([highlight.id])}
+                          className="h-5 w-5 flex items-center justify-center text-gray-400 hover:text-red-600"
+                          title="Delete forever">
+                          <X className="h-3 w-3" />
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <button
+                onClick={handleEmpty}
+                className="w-full border border-red-300 text-red-700 bg-white rounded px-2 py-1 font-medium hover:bg-red-50 transition-colors">
+                Empty trash
+              </button>
+            </>
+          )}
+
+          {error && <p className="text-red-600">{error}</p>}
+
+          <p className="text-[10px] text-gray-500 text-center">
+            Deleted highlights are kept for {TRASH_RETENTION_DAYS} days
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
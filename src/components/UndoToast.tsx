@@ -0,0 +1,71 @@
+// Icons for the undo and redo actions
+import { Redo2, Undo2, X } from "lucide-react"
+import React, { useEffect } from "react"
+
+// How long the toast stays on screen
+const TOAST_DURATION = 5000
+
+/**
+ * Props interface for the UndoToast component
+ * @interface UndoToastProps
+ */
+interface UndoToastProps {
+  /** What just happened, e.g. "Highlight deleted" */
+  message: string
+  /**
+   * Whether the toast offers to undo the action or to redo it; null for a
+   * notice with nothing to take back, like a failed save
+   */
+  action: "undo" | "redo" | null
+  /** Callback function to undo or redo the action */
+  onAction: () => void
+  /** Callback function to hide the toast */
+  onClose: () => void
+}
+
+/**
+ * UndoToast Component
+ *
+ * A small notice at the bottom of the page confirming a change to the page's
+ * highlights, with a button to take it back. After an undo it offers to redo
+ * instead. It hides itself after a few seconds; the change can still be
+ * undone with Ctrl+Z afterwards. Changes that failed are reported the same
+ * way, without the button.
+ *
+ * @param {UndoToastProps} props - Component properties
+ * @returns {JSX.Element} The toast component
+ */
+export function UndoToast({
+  message,
+  action,
+  onAction,
+  onClose
+}: UndoToastProps) {
+  useEffect(() => {
+    // Each new action remounts the toast, restarting the countdown
+    const timer = setTimeout(onClose, TOAST_DURATION)
+    return () => clearTimeout(timer)
+  }, [])
+
+  const Icon = action === "undo" ? Undo2 : Redo2
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[10003] flex items-center gap-3 px-4 py-2 shadow-lg rounded-lg bg-gray-900 text-white text-sm">
+      <span>{message}</span>
+      {action && (
+        <button
+          onClick={onAction}
+          className="flex items-center gap-1 font-medium text-blue-300 hover:text-blue-200">
+          <Icon className="h-4 w-4" />
+          {action === "undo" ? "Undo" : "Redo"}
+        </button>
+      )}
+      <button
+        onClick={onClose}
+        className="h-5 w-5 flex items-center justify-center rounded text-gray-400 hover:text-white"
+        aria-label="Dismiss">
+        <X className="h-3 w-3" />
+      </button>
+    </div>
+  )
+}
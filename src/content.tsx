@@ -1,15 +1,74 @@
+import { CommandPalette } from "@/components/CommandPalette"
+import { HighlightMinimap } from "@/components/HighlightMinimap"
 import { HighlightOverlay } from "@/components/HighlightOverlay"
+import { HighlightSidebar, SIDEBAR_WIDTH } from "@/components/HighlightSidebar"
 import { HighlightToolbar } from "@/components/HighlightToolbar"
 import { HighlightTooltip } from "@/components/HighlightTooltip"
-import { getElementByXPath, HighlightStorage } from "@/lib/storage"
-import type { Highlight } from "@/lib/types"
+import { MarginNotes } from "@/components/MarginNotes"
+import { ReanchorBanner } from "@/components/ReanchorBanner"
+import { UndoToast } from "@/components/UndoToast"
+import {
+  describeRange,
+  getPageText,
+  HIGHLIGHT_CLASS,
+  positionToRange,
+  resolveHighlight
+} from "@/lib/anchoring"
+import {
+  getColorCommandIndex,
+  listCommands,
+  TOP_FRAME_COMMANDS,
+  type CommandId
+} from "@/lib/commands"
+import {
+  getFramePath,
+  getTopFrameHost,
+  hasShortcutFocus,
+  isTopFrame
+} from "@/lib/frames"
+import {
+  findHighlightElement,
+  findHighlightSpans,
+  flashHighlight,
+  getRenderedHighlightIds,
+  unwrapHighlights,
+  wrapRange
+} from "@/lib/highlighter"
+import { LOCATION_CHANGE_EVENT, type ContentMessage } from "@/lib/messages"
+import {
+  DEFAULT_PALETTE,
+  findPaletteColor,
+  type PaletteColor
+} from "@/lib/palette"
+import {
+  DEFAULT_SETTINGS,
+  isSiteAutoActivated,
+  isSiteEnabled,
+  readSettings,
+  SETTINGS_KEY,
+  type Settings
+} from "@/lib/settings"
+import { getSelectionRange } from "@/lib/shadow"
+import { HighlightStorage } from "@/lib/storage"
+import type {
+  AnchorResult,
+  Highlight,
+  HighlightAnchors,
+  HighlightOperation
+} from "@/lib/types"
+import { describeOperation, getHistoryShortcut } from "@/lib/undo"
+import { getPageUrl } from "@/lib/url"
 // Adopt Tailwind CSS into the Shadow DOM so utility classes work inside Plasmo's content UI
 import cssText from "data-text:~styles/globals.css"
-import React, { useEffect, useState } from "react"
+import type { PlasmoCSConfig } from "plasmo"
+import React, { useEffect, useRef, useState } from "react"
 import { createRoot } from "react-dom/client"
 
-import { Storage as PlasmoStorage } from "@plasmohq/storage"
-import { useStorage } from "@plasmohq/storage/hook"
+// Run in iframes too, so text inside them can be highlighted
+export const config: PlasmoCSConfig = {
+  matches: ["<all_urls>"],
+  all_frames: true
+}
 
 export const getStyle = () => {
   const style = document.createElement("style")
@@ -18,10 +77,14 @@ export const getStyle = () => {
   return style
 }
 
-// CSS class name used to identify highlighted text elements
-const HIGHLIGHT_CLASS = "text-highlight-extension"
-// Key for storing activation state in localStorage
-const ACTIVATION_STATE_KEY = "highlighter_activated"
+// What the mutation observer watches in the page and in each shadow root
+const MUTATION_OPTIONS: MutationObserverInit = {
+  childList: true,
+  subtree: true,
+  characterData: true
+}
+// How long to wait for a highlight to be placed before giving up scrolling
+const SCROLL_WAIT_TIMEOUT = 10_000
 
 /**
  * Main content script component that handles text highlighting functionality
@@ -34,49 +97,204 @@ const ACTIVATION_STATE_KEY = "highlighter_activated"
  */
 const Content = () => {
   // State management for extension activation and UI
-  // Persist activation state in extension local storage via Plasmo Storage
-  const [isActivated, setIsActivated] = useStorage<boolean>({
-    key: ACTIVATION_STATE_KEY,
-    instance: new PlasmoStorage({ area: "local" })
-  })
+  const [tabActivation, setTabActivation] = useState<boolean | null>(null) // Whether the user turned the highlighter on in this tab, null until they choose
+  const [settings, setSettings] = useState<Settings | null>(null) // User settings, null until loaded
   const [showToolbar, setShowToolbar] = useState(false) // Controls toolbar visibility
+  const [showSidebar, setShowSidebar] = useState(false) // Controls the highlight sidebar's visibility
+  const [sidebarHighlights, setSidebarHighlights] = useState<Highlight[]>([]) // Page highlights listed in the sidebar, in reading order
+  const [showMarginNotes, setShowMarginNotes] = useState(false) // Margin mode: notes shown in a gutter next to their highlights
   const [showOverlay, setShowOverlay] = useState(false) // Controls highlight creation overlay visibility
   const [showTooltip, setShowTooltip] = useState(false) // Controls highlight tooltip visibility
   const [isSelectingForNote, setIsSelectingForNote] = useState(false) // True when user clicked note icon and is selecting text
   const [selectedText, setSelectedText] = useState("") // Stores currently selected text
-  const [selectedColor, setSelectedColor] = useState("#fef08a") // Currently selected highlight color
+  const [palette, setPalette] = useState<PaletteColor[]>(DEFAULT_PALETTE) // User's color palette, in display order
   const [overlayPosition, setOverlayPosition] = useState({ x: 0, y: 0 }) // Position for highlight overlay
+  const [overlayRange, setOverlayRange] = useState<Range | null>(null) // Selection the overlay will highlight, kept while the note is typed
   const [tooltipPosition, setTooltipPosition] = useState({ x: 0, y: 0 }) // Position for highlight tooltip
   const [activeHighlight, setActiveHighlight] = useState<Highlight | null>(null) // Currently active highlight for tooltip
+  const [reanchorTarget, setReanchorTarget] = useState<Highlight | null>(null) // Orphaned highlight waiting for the user to select its new location
+  const [isEditingTooltip, setIsEditingTooltip] = useState(false) // Opens the tooltip straight into edit mode, for adding a note
+  const [showCommandPalette, setShowCommandPalette] = useState(false) // Controls command palette visibility
+  const [shortcuts, setShortcuts] = useState<Record<string, string>>({}) // Keyboard shortcuts assigned to each command
+  const [toast, setToast] = useState<{
+    id: number
+    message: string
+    action: "undo" | "redo" | null
+  } | null>(null) // Last change to the page's highlights, offered for undo or redo, or a change that failed
+  const pageHighlightsRef = useRef<Highlight[]>([]) // Highlights of the current page, as last loaded from the store
+  const anchorResultsRef = useRef(new Map<string, AnchorResult>()) // Where and how confidently each highlight was placed
+  const missedTextRef = useRef(new Map<string, string>()) // Page text each unplaced highlight was last searched for in, so it isn't searched again until the text changes
+  const mutationObserverRef = useRef<MutationObserver | null>(null) // Watches the page for dynamically rendered content
+  const pendingScrollRef = useRef<{ id: string; until: number } | null>(null) // Highlight to scroll to once it has been placed
+  const lastJumpRef = useRef<string | null>(null) // Highlight last reached with next/previous, to continue from
+  const paletteRangeRef = useRef<Range | null>(null) // Selection made before the command palette took focus
+  const shouldRenderRef = useRef(false) // Whether saved highlights are currently shown, see renderHighlights
+  const reportedCountsRef = useRef(JSON.stringify({ placed: 0, orphaned: 0 })) // Highlight counts last sent for the badge, as JSON; the background starts every page at zero
+
+  // Settings that apply to this page
+  const siteHost = getTopFrameHost()
+  const isEnabled = Boolean(settings) && isSiteEnabled(settings, siteHost)
+  const isActivated =
+    isEnabled && (tabActivation ?? isSiteAutoActivated(settings, siteHost))
+  const { minSelectionLength, defaultColorId: selectedColorId } =
+    settings || DEFAULT_SETTINGS
 
   useEffect(() => {
-    // Sync toolbar visibility with stored activation state
-    const activated = Boolean(isActivated)
-    setShowToolbar(activated)
+    // Move highlights saved by older versions in this site's localStorage
+    // into the extension store; the settings then decide whether to render them
+    HighlightStorage.migrateLegacy()
+      .catch((error) => console.warn("Could not migrate highlights:", error))
+      .finally(() =>
+        HighlightStorage.getSettings()
+          .catch((error) => {
+            console.warn("Could not load settings:", error)
+            return DEFAULT_SETTINGS
+          })
+          .then(setSettings)
+      )
+    loadPalette()
+
+    // Activation belongs to the tab and is kept by the background, so every
+    // frame and the popup agree on it
+    HighlightStorage.getTabActivation()
+      .then(setTabActivation)
+      .catch((error) => console.warn("Could not load activation:", error))
+
+    /**
+     * Applies settings changed on the options page or in another tab
+     * @param {Record<string, chrome.storage.StorageChange>} changes - Changed keys
+     * @param {string} areaName - The storage area that changed
+     */
+    const handleStorageChange = (
+      changes: Record<string, chrome.storage.StorageChange>,
+      areaName: string
+    ) => {
+      if (areaName === "local" && SETTINGS_KEY in changes) {
+        setSettings(readSettings(changes[SETTINGS_KEY].newValue))
+      }
+    }
+    chrome.storage.onChanged.addListener(handleStorageChange)
+    return () => chrome.storage.onChanged.removeListener(handleStorageChange)
+  }, [])
 
-    // Always load and render existing highlights regardless of activation state
+  useEffect(() => {
+    // Show or hide saved highlights when the settings or activation change
+    // whether they belong on this page
+    if (!settings) return
+    const shouldRender = isEnabled && (settings.showHighlights || isActivated)
+    if (shouldRender === shouldRenderRef.current) return
+    shouldRenderRef.current = shouldRender
     renderHighlights()
+  }, [settings, isEnabled, isActivated])
+
+  useEffect(() => {
+    // Single-page apps render content after load and navigate without
+    // reloading, so keep watching the page after the initial render
+    // Fragment-only changes (#section) never change which page this is
+    const currentPath = () => window.location.href.split("#")[0]
+    let lastUrl = currentPath()
+    let debounceTimer: ReturnType<typeof setTimeout> | undefined
 
     /**
-     * Handles messages from the extension popup and background script
-     * Supports toggling activation state and refreshing highlights
-     * @param {any} message - Message object from popup or background
+     * Re-scopes the page's highlights when the URL changed client-side
+     * @returns {boolean} True if the URL changed and highlights were reloaded
+     */
+    const handleLocationChange = (): boolean => {
+      if (currentPath() === lastUrl) return false
+      lastUrl = currentPath()
+      setShowTooltip(false)
+      setShowOverlay(false)
+      setReanchorTarget(null)
+      // The background may have cleared the badge for the navigation
+      reportedCountsRef.current = ""
+      renderHighlights()
+      return true
+    }
+
+    /**
+     * Handles DOM mutations, debounced until the page settles
+     * Places highlights whose text has appeared since the last pass, including
+     * ones whose spans were thrown away by the page re-rendering
      */
-    const handleMessage = (message: any) => {
-      console.log("messageeeeeeeeeeeeeeee")
-      if (message.type === "TOGGLE_ACTIVATION") {
-        const newState = !Boolean(isActivated)
-        setIsActivated(newState)
-        setShowToolbar(newState)
-
-        // Reset states when deactivating
-        if (!newState) {
-          setIsSelectingForNote(false)
-          setShowOverlay(false)
-          setShowTooltip(false)
+    const handleMutations = () => {
+      clearTimeout(debounceTimer)
+      debounceTimer = setTimeout(() => {
+        // Some routers mutate the DOM without going through the History API
+        if (handleLocationChange()) return
+
+        const rendered = new Set(getRenderedHighlightIds())
+        const missing = pageHighlightsRef.current.filter(
+          (h) => !rendered.has(h.id)
+        )
+        if (missing.length > 0) {
+          placeHighlights(missing)
         }
+      }, 300)
+    }
+
+    const observer = new MutationObserver(handleMutations)
+    observer.observe(document.body, MUTATION_OPTIONS)
+    mutationObserverRef.current = observer
+
+    window.addEventListener("popstate", handleLocationChange)
+    window.addEventListener(LOCATION_CHANGE_EVENT, handleLocationChange)
+
+    return () => {
+      clearTimeout(debounceTimer)
+      observer.disconnect()
+      mutationObserverRef.current = null
+      window.removeEventListener("popstate", handleLocationChange)
+      window.removeEventListener(LOCATION_CHANGE_EVENT, handleLocationChange)
+    }
+  }, [])
+
+  useEffect(() => {
+    // Sync toolbar visibility with the activation state; iframes share the
+    // top frame's toolbar
+    setShowToolbar(isActivated && isTopFrame())
+
+    /**
+     * Handles messages from the extension popup and background script
+     * Supports setting the tab's activation state, refreshing highlights
+     * and starting the re-anchor flow for orphaned highlights. Messages
+     * reach every frame of the tab; only the top frame reports the page URL.
+     * Sites turned off in the settings ignore activation and commands.
+     * @param {ContentMessage} message - Message object from popup or background
+     * @param {chrome.runtime.MessageSender} sender - Sender of the message
+     * @param {(response?: unknown) => void} sendResponse - Replies to queries such as GET_PAGE_URL
+     */
+    const handleMessage = (
+      message: ContentMessage,
+      sender: chrome.runtime.MessageSender,
+      sendResponse: (response?: unknown) => void
+    ) => {
+      if (message.type === "SET_ACTIVATION") {
+        setTabActivation(message.activated)
       } else if (message.type === "REFRESH_HIGHLIGHTS") {
+        loadPalette()
         renderHighlights()
+      } else if (message.type === "START_REANCHOR") {
+        const highlight = pageHighlightsRef.current.find(
+          (h) => h.id === message.id
+        )
+        if (highlight) startReanchor(highlight)
+      } else if (message.type === "GET_PAGE_URL") {
+        if (isTopFrame()) sendResponse(getPageUrl())
+      } else if (message.type === "SCROLL_TO_HIGHLIGHT") {
+        scrollToHighlight(message.id)
+        // Confirm receipt so the background stops retrying
+        sendResponse(true)
+      } else if (message.type === "RUN_COMMAND") {
+        // Shortcuts reach every frame; only the one they're meant for runs them
+        if (
+          !message.shortcut ||
+          (TOP_FRAME_COMMANDS.has(message.command)
+            ? isTopFrame()
+            : hasShortcutFocus())
+        ) {
+          runCommand(message.command)
+        }
+        sendResponse(true)
       }
     }
 
@@ -96,61 +314,68 @@ const Content = () => {
     }
 
     /**
-     * Handles mouseup event to create highlight only if selection covers the entire text node
+     * Handles mouseup event to create a highlight from the current selection
+     * The selection may span several text nodes and elements. In note mode,
+     * or with Alt held, the note overlay opens instead of saving right away.
+     * @param {MouseEvent} e - Mouse event
      */
-    const handleMouseUp = () => {
-      if (!isActivated) return
+    const handleMouseUp = (e: MouseEvent) => {
+      if (!isActivated && !reanchorTarget) return
+      // Clicks in the command palette leave the page selection for its
+      // command, and clicks in the overlay must not start another one
+      if (showCommandPalette || showOverlay) return
       const selection = window.getSelection()
-      if (!selection || selection.isCollapsed || selection.rangeCount === 0)
-        return
+      const range = getSelectionRange(selection)
+      if (!range) return
       const text = selection.toString().trim()
-      if (text.length < 3) return
-      const range = selection.getRangeAt(0)
-      // Only highlight if selection covers the entire text node
-      if (
-        range.startContainer.nodeType === Node.TEXT_NODE &&
-        range.startContainer === range.endContainer
-      ) {
-        console.log(
-          text,
-          selection,
-          range,
-          range.startContainer.nodeType,
-          Node.TEXT_NODE,
-          range.startContainer,
-          range.endContainer
-        )
-        const xpath = generateXPath(range.commonAncestorContainer)
-        handleSaveHighlight({
-          url: window.location.href,
-          text: text,
-          note: "",
-          startOffset: range.startOffset,
-          endOffset: range.endOffset,
-          xpath
-        })
+      if (text.length < minSelectionLength) return
+      const anchors = describeRange(range)
+      if (!anchors) return
+
+      // In re-anchor mode the selection moves an orphaned highlight instead
+      // of creating a new one
+      if (reanchorTarget) {
+        handleReanchorHighlight(reanchorTarget.id, { text, ...anchors })
+        return
       }
+
+      if (isSelectingForNote || e.altKey) {
+        openOverlay(range, text)
+        return
+      }
+
+      handleSaveHighlight({
+        url: getPageUrl(),
+        title: document.title,
+        text: text,
+        note: "",
+        ...anchors
+      }).catch(reportSaveFailure)
     }
 
     /**
      * Handles clicks on the page
      * Shows tooltip when clicking on highlighted text (regardless of activation state)
-     * Hides tooltip when clicking elsewhere
+     * Hides tooltip when clicking elsewhere. Clicks inside a shadow root are
+     * reported as clicks on its host, so the clicked element is read from the
+     * composed path.
      * @param {MouseEvent} e - Mouse click event
      */
     const handleClick = (e: MouseEvent) => {
-      const target = e.target as Element
-      if (target.classList.contains(HIGHLIGHT_CLASS)) {
+      const clicked = e.composedPath()[0] as Element
+      const target = clicked.closest?.(`.${HIGHLIGHT_CLASS}`)
+      if (target) {
         e.preventDefault()
         e.stopPropagation()
 
         const highlightId = target.getAttribute("data-highlight-id")
         if (highlightId) {
-          const highlight = HighlightStorage.getAll().find(
+          const highlight = pageHighlightsRef.current.find(
             (h) => h.id === highlightId
           )
           if (highlight) {
             setActiveHighlight(highlight)
+            setIsEditingTooltip(false)
             setTooltipPosition({
               x: e.clientX + window.scrollX,
               y: e.clientY + window.scrollY
@@ -163,9 +388,33 @@ const Content = () => {
       }
     }
 
+    /**
+     * Handles key presses on the page
+     * Escape leaves re-anchor mode without changing the highlight, and
+     * cancels the note overlay or note mode. While activated, Ctrl+Z and
+     * Ctrl+Shift+Z (Cmd on macOS) undo and redo changes to the page's
+     * highlights, unless the user is typing in a text field.
+     * @param {KeyboardEvent} e - Keyboard event
+     */
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const direction = isActivated && getHistoryShortcut(e)
+      if (direction) {
+        e.preventDefault()
+        handleHistory(direction)
+        return
+      }
+      if (e.key !== "Escape") return
+      if (reanchorTarget) {
+        setReanchorTarget(null)
+      } else if (showOverlay || isSelectingForNote) {
+        handleCloseOverlay()
+      }
+    }
+
     document.addEventListener("selectionchange", handleSelectionChange)
     document.addEventListener("mouseup", handleMouseUp)
     document.addEventListener("click", handleClick)
+    document.addEventListener("keydown", handleKeyDown)
 
     /**
      * Cleanup function to remove event listeners and Chrome API handlers
@@ -176,44 +425,298 @@ const Content = () => {
       document.removeEventListener("selectionchange", handleSelectionChange)
       document.removeEventListener("mouseup", handleMouseUp)
       document.removeEventListener("click", handleClick)
+      document.removeEventListener("keydown", handleKeyDown)
     }
-  }, [isActivated, isSelectingForNote])
+  }, [
+    isActivated,
+    isEnabled,
+    isSelectingForNote,
+    reanchorTarget,
+    palette,
+    settings,
+    showCommandPalette,
+    showOverlay
+  ])
+
+  useEffect(() => {
+    // Reset states when deactivating, wherever it was done from
+    if (!isActivated) {
+      setIsSelectingForNote(false)
+      setShowOverlay(false)
+      setShowTooltip(false)
+    }
+  }, [isActivated])
+
+  /**
+   * Shows or hides the toolbar in this tab
+   * The background records the choice and passes it on to every frame of
+   * the tab. Turning the toolbar off also keeps a site set to auto-activate
+   * from turning it back on until the tab is closed.
+   */
+  const toggleActivation = () => {
+    const newState = !isActivated
+    setTabActivation(newState)
+    HighlightStorage.setTabActivation(newState).catch((error) =>
+      console.warn("Could not save activation:", error)
+    )
+  }
+
+  /**
+   * Runs a keyboard command or a command chosen in the command palette
+   * Highlighting commands work whether or not the toolbar is activated,
+   * since pressing the shortcut already says what the user wants.
+   * @param {CommandId} command - The command to run
+   */
+  const runCommand = (command: CommandId) => {
+    if (!isEnabled) return
+    const colorIndex = getColorCommandIndex(command)
+    if (colorIndex !== null) {
+      // Palettes may have fewer colors than there are color shortcuts
+      const entry = palette[colorIndex]
+      if (entry) highlightSelection(entry.id).catch(reportSaveFailure)
+      return
+    }
+
+    switch (command) {
+      case "toggle-activation":
+        toggleActivation()
+        break
+      case "highlight-selection":
+        highlightSelection().catch(reportSaveFailure)
+        break
+      case "add-note":
+        highlightSelection(undefined, true).catch(reportSaveFailure)
+        break
+      case "next-highlight":
+        jumpToHighlight(1)
+        break
+      case "previous-highlight":
+        jumpToHighlight(-1)
+        break
+      case "open-command-palette":
+        openCommandPalette()
+        break
+      case "toggle-sidebar":
+        setShowSidebar((open) => !open)
+        break
+      case "toggle-margin-notes":
+        setShowMarginNotes((shown) => !shown)
+        break
+    }
+  }
+
+  /**
+   * Waits for the user to select a new location for an orphaned highlight
+   * @param {Highlight} highlight - The highlight to move
+   */
+  const startReanchor = (highlight: Highlight) => {
+    setShowTooltip(false)
+    window.getSelection()?.removeAllRanges()
+    setReanchorTarget(highlight)
+  }
+
+  /**
+   * Finds the highlight a selection covers exactly
+   * With the toolbar activated, a selection is highlighted as soon as the
+   * mouse is released, so a shortcut pressed right after must act on that
+   * highlight rather than create a second one.
+   * @param {Range} range - The selected range
+   * @param {string} text - The trimmed selected text
+   * @returns {Highlight | undefined} The covered highlight, if any
+   */
+  const findSelectedHighlight = (
+    range: Range,
+    text: string
+  ): Highlight | undefined => {
+    const ids = new Set<string>()
+    findHighlightSpans().forEach((span) => {
+      if (range.intersectsNode(span)) ids.add(span.dataset.highlightId)
+    })
+    if (ids.size !== 1) return undefined
+    const [id] = ids
+    return pageHighlightsRef.current.find(
+      (h) => h.id === id && h.text.trim() === text
+    )
+  }
+
+  /**
+   * Highlights the current selection from the keyboard
+   * A selection that is already exactly one highlight is recolored instead.
+   * @param {string} [colorId] - Palette entry to use instead of the toolbar's
+   * @param {boolean} [withNote] - Open the tooltip to add a note afterwards
+   */
+  const highlightSelection = async (colorId?: string, withNote = false) => {
+    const selection = window.getSelection()
+    const range = getSelectionRange(selection)
+    if (!range) return
+    const text = selection.toString().trim()
+    if (text.length < minSelectionLength) return
+    const rect = range.getBoundingClientRect()
+
+    let highlight = findSelectedHighlight(range, text)
+    if (!highlight && withNote) {
+      // New highlights get their note in the overlay before being saved
+      openOverlay(range, text)
+      return
+    }
+    if (highlight) {
+      const entry = findPaletteColor(palette, colorId)
+      if (entry && entry.id !== highlight.colorId) {
+        await handleUpdateHighlight(highlight.id, {
+          colorId: entry.id,
+          color: entry.color
+        })
+        renderHighlights()
+      }
+    } else {
+      const anchors = describeRange(range)
+      if (!anchors) return
+      highlight = await handleSaveHighlight(
+        {
+          url: getPageUrl(),
+          title: document.title,
+          text: text,
+          note: "",
+          ...anchors
+        },
+        colorId
+      )
+    }
+    selection.removeAllRanges()
+
+    if (withNote) {
+      setActiveHighlight(highlight)
+      setIsEditingTooltip(true)
+      setTooltipPosition({
+        x: rect.left + window.scrollX,
+        y: rect.bottom + window.scrollY
+      })
+      setShowTooltip(true)
+    }
+  }
+
+  /**
+   * Scrolls to the next or previous highlight in page order
+   * Continues from the highlight reached last; the first jump starts from the
+   * highlights around the top of the viewport.
+   * @param {1 | -1} offset - 1 for the next highlight, -1 for the previous one
+   */
+  const jumpToHighlight = (offset: 1 | -1) => {
+    const ids = getRenderedHighlightIds()
+    if (ids.length === 0) return
+
+    const current = ids.indexOf(lastJumpRef.current)
+    let index: number
+    if (current !== -1) {
+      index = (current + offset + ids.length) % ids.length
+    } else {
+      const below = ids.findIndex(
+        (id) => findHighlightElement(id).getBoundingClientRect().top > 0
+      )
+      if (offset === 1) {
+        index = below === -1 ? 0 : below
+      } else {
+        index = below <= 0 ? ids.length - 1 : below - 1
+      }
+    }
+
+    lastJumpRef.current = ids[index]
+    scrollToHighlight(ids[index])
+  }
+
+  /**
+   * Opens the command palette
+   * Focusing the palette's input clears the page selection, so it is kept
+   * aside and restored before a command runs.
+   */
+  const openCommandPalette = () => {
+    paletteRangeRef.current =
+      getSelectionRange(window.getSelection())?.cloneRange() || null
+    setShowCommandPalette(true)
+    HighlightStorage.getShortcuts()
+      .then(setShortcuts)
+      .catch((error) => console.warn("Could not load shortcuts:", error))
+  }
+
+  /**
+   * Closes the command palette, giving the page its selection back
+   */
+  const closeCommandPalette = () => {
+    setShowCommandPalette(false)
+    const range = paletteRangeRef.current
+    paletteRangeRef.current = null
+    if (range) {
+      const selection = window.getSelection()
+      selection?.removeAllRanges()
+      selection?.addRange(range)
+    }
+  }
+
+  /**
+   * Runs the command chosen in the command palette
+   * @param {CommandId} command - The chosen command
+   */
+  const handleRunPaletteCommand = (command: CommandId) => {
+    closeCommandPalette()
+    runCommand(command)
+  }
 
   /**
    * Handles when user clicks the note icon in the toolbar
-   * Activates text selection mode for adding notes
+   * Toggles note mode, in which the next selection opens the note overlay
    */
   const handleNoteClick = () => {
-    setIsSelectingForNote(true)
+    setIsSelectingForNote(!isSelectingForNote)
     // Clear any existing selection and prompt user to select text
     window.getSelection()?.removeAllRanges()
   }
 
+  /**
+   * Opens the note overlay next to a selection
+   * @param {Range} range - The selected range
+   * @param {string} text - The trimmed selected text
+   */
+  const openOverlay = (range: Range, text: string) => {
+    const rect = range.getBoundingClientRect()
+    setOverlayRange(range.cloneRange())
+    setSelectedText(text)
+    setOverlayPosition({ x: rect.left, y: rect.bottom })
+    setShowTooltip(false)
+    setShowOverlay(true)
+  }
+
   /**
    * Handles saving a new highlight to storage and updating the display
    * Creates a unique ID and timestamp for the highlight before saving
-   * Uses the currently selected color from the toolbar
+   * Uses the currently selected palette entry from the toolbar unless told otherwise
+   * Highlights made in an iframe are saved with the tab's page and the frame's path
    * @param {Omit<Highlight, "id" | "timestamp" | "color">} highlightData - The highlight data without ID, timestamp, and color
+   * @param {string} [colorId] - Palette entry to use instead of the toolbar's
+   * @returns {Promise<Highlight>} The saved highlight
    */
-  const handleSaveHighlight = (
-    highlightData: Omit<Highlight, "id" | "timestamp" | "color">
-  ) => {
+  const handleSaveHighlight = async (
+    highlightData: Omit<Highlight, "id" | "timestamp" | "color">,
+    colorId = selectedColorId
+  ): Promise<Highlight> => {
+    // The selected entry may have been deleted from the palette meanwhile
+    const entry = findPaletteColor(palette, colorId) || palette[0]
+    const frame = getFramePath()
+    const page = frame ? { ...(await getHighlightPage()), frame } : {}
     const highlight: Highlight = {
       ...highlightData,
+      ...page,
       id: Math.random().toString(36).substr(2, 9),
       timestamp: Date.now(),
-      color: selectedColor
+      colorId: entry.id,
+      color: entry.color
     }
 
-    HighlightStorage.save(highlight)
-    // setShowOverlay(false)
-    // setIsSelectingForNote(false) // Exit note selection mode
-
-    // Clear the current text selection
-    // window.getSelection()?.removeAllRanges()
+    await HighlightStorage.save(highlight)
+    showToast("Highlight added")
 
     // Re-render highlights with a small delay to ensure DOM is ready
     setTimeout(() => renderHighlights(), 100)
+    return highlight
   }
 
   /**
@@ -222,6 +725,7 @@ const Content = () => {
    */
   const handleCloseOverlay = () => {
     setShowOverlay(false)
+    setOverlayRange(null)
     setIsSelectingForNote(false)
     window.getSelection()?.removeAllRanges()
   }
@@ -232,131 +736,421 @@ const Content = () => {
    * @param {string} id - The ID of the highlight to update
    * @param {Partial<Highlight>} updates - The partial data to update
    */
-  const handleUpdateHighlight = (id: string, updates: Partial<Highlight>) => {
-    HighlightStorage.update(id, updates)
-    if (activeHighlight) {
-      setActiveHighlight({ ...activeHighlight, ...updates })
+  const handleUpdateHighlight = async (
+    id: string,
+    updates: Partial<Highlight>
+  ) => {
+    applyUpdatedHighlight(
+      await HighlightStorage.update(id, updates),
+      "Highlight updated"
+    )
+  }
+
+  /**
+   * Handles adding a comment to a highlight's thread
+   * @param {string} id - The ID of the highlight
+   * @param {string} text - The comment, in Markdown
+   */
+  const handleAddComment = async (id: string, text: string) => {
+    applyUpdatedHighlight(
+      await HighlightStorage.addComment(id, text),
+      "Comment added"
+    )
+  }
+
+  /**
+   * Handles editing one of a highlight's comments
+   * @param {string} id - The ID of the highlight
+   * @param {string} commentId - The ID of the comment
+   * @param {string} text - The new text, in Markdown
+   */
+  const handleUpdateComment = async (
+    id: string,
+    commentId: string,
+    text: string
+  ) => {
+    applyUpdatedHighlight(
+      await HighlightStorage.updateComment(id, commentId, text),
+      "Comment updated"
+    )
+  }
+
+  /**
+   * Handles deleting one of a highlight's comments
+   * @param {string} id - The ID of the highlight
+   * @param {string} commentId - The ID of the comment
+   */
+  const handleDeleteComment = async (id: string, commentId: string) => {
+    applyUpdatedHighlight(
+      await HighlightStorage.deleteComment(id, commentId),
+      "Comment deleted"
+    )
+  }
+
+  /**
+   * Replaces a highlight in the page's list and in the open tooltip with the
+   * version the store saved, offering to undo the change
+   * @param {Highlight | null} updated - The saved highlight, or null if it no longer exists
+   * @param {string} message - Describes the change in the undo toast
+   */
+  const applyUpdatedHighlight = (
+    updated: Highlight | null,
+    message: string
+  ) => {
+    if (!updated) return
+    showToast(message)
+    pageHighlightsRef.current = pageHighlightsRef.current.map((h) =>
+      h.id === updated.id ? updated : h
+    )
+    setActiveHighlight((active) =>
+      active?.id === updated.id ? updated : active
+    )
+    refreshSidebar()
+  }
+
+  /**
+   * Handles rewriting an orphaned highlight's anchors to the user's new selection
+   * Clears the orphaned flag, leaves re-anchor mode and re-renders the page.
+   * Re-anchor mode is left even if saving fails, so the next selection
+   * creates a highlight again.
+   * @param {string} id - The ID of the highlight being re-anchored
+   * @param {Pick<Highlight, "text"> & HighlightAnchors} location - Text and anchors of the new selection
+   */
+  const handleReanchorHighlight = async (
+    id: string,
+    location: Pick<Highlight, "text"> & HighlightAnchors
+  ) => {
+    setReanchorTarget(null)
+    window.getSelection()?.removeAllRanges()
+    try {
+      await HighlightStorage.update(id, { ...location, orphaned: false })
+    } catch (error) {
+      console.warn("Could not move highlight:", error)
+      return
     }
+    showToast("Highlight moved")
+    renderHighlights()
   }
 
   /**
    * Handles deleting a highlight from storage and updating the display
-   * Removes the highlight from storage, hides tooltip, and re-renders the page
+   * Moves the highlight to the trash, hides tooltip, and re-renders the page
    * @param {string} id - The ID of the highlight to delete
    */
-  const handleDeleteHighlight = (id: string) => {
-    HighlightStorage.delete(id)
+  const handleDeleteHighlight = async (id: string) => {
+    await HighlightStorage.delete(id)
+    showToast("Highlight deleted")
     setShowTooltip(false)
     renderHighlights()
   }
 
+  /**
+   * Shows the toast offering to undo or redo a change
+   * @param {string} message - What just happened
+   * @param {"undo" | "redo" | null} [action] - What the toast's button does, or null for no button
+   */
+  const showToast = (
+    message: string,
+    action: "undo" | "redo" | null = "undo"
+  ) => {
+    setToast({ id: Date.now(), message, action })
+  }
+
+  /**
+   * Reports a highlight that could not be saved or recolored
+   * Selections are highlighted without waiting for anything visible, so
+   * the toast tells the user the highlight wasn't kept.
+   * @param {unknown} error - Why saving failed
+   */
+  const reportSaveFailure = (error: unknown) => {
+    console.warn("Could not save highlight:", error)
+    showToast("Could not save the highlight", null)
+  }
+
+  /**
+   * Undoes or redoes the latest change to this page's highlights
+   * Changes made on other pages are left alone; the toast then offers to
+   * reverse what was just done.
+   * @param {"undo" | "redo"} direction - Which way to move through the history
+   */
+  const handleHistory = async (direction: "undo" | "redo") => {
+    let operation: HighlightOperation | null
+    try {
+      const { url } = await getHighlightPage()
+      operation =
+        direction === "undo"
+          ? await HighlightStorage.undo(url)
+          : await HighlightStorage.redo(url)
+    } catch (error) {
+      console.warn(`Could not ${direction}:`, error)
+      return
+    }
+    if (!operation) {
+      setToast(null)
+      return
+    }
+
+    setShowTooltip(false)
+    renderHighlights()
+    showToast(
+      `${direction === "undo" ? "Undone" : "Redone"}: ${describeOperation(operation)}`,
+      direction === "undo" ? "redo" : "undo"
+    )
+  }
+
+  /**
+   * Reads the page this frame's highlights belong to
+   * Highlights in iframes belong to the page shown in the tab, which a
+   * cross-origin frame can't read itself and asks the background for.
+   * @returns {Promise<Pick<Highlight, "url" | "title">>} The page's URL and title
+   */
+  const getHighlightPage = async (): Promise<
+    Pick<Highlight, "url" | "title">
+  > => {
+    if (isTopFrame()) return { url: getPageUrl(), title: document.title }
+    return HighlightStorage.getTabPage()
+  }
+
+  /**
+   * Picks the color new highlights get, in every tab and frame
+   * The toolbar's color is the default color setting, so the choice is
+   * shown on the options page too.
+   * @param {string} colorId - The chosen palette entry
+   */
+  const handleColorChange = (colorId: string) => {
+    setSettings((current) => current && { ...current, defaultColorId: colorId })
+    HighlightStorage.updateSettings({ defaultColorId: colorId }).catch(
+      (error) => console.warn("Could not save the color:", error)
+    )
+  }
+
+  /**
+   * Loads the user's color palette for the toolbar
+   * Keeps the built-in palette if the background can't be reached.
+   */
+  const loadPalette = () => {
+    HighlightStorage.getPalette()
+      .then(setPalette)
+      .catch((error) => console.warn("Could not load color palette:", error))
+  }
+
+  /**
+   * Scrolls a highlight into view and flashes it
+   * A freshly opened page may still be anchoring its highlights or rendering
+   * dynamic content, so a highlight that isn't placed yet is remembered and
+   * scrolled to as soon as a placement pass renders it.
+   * @param {string} id - The ID of the highlight to scroll to
+   * @returns {boolean} True if the highlight was on the page
+   */
+  const scrollToHighlight = (id: string): boolean => {
+    const element = findHighlightElement(id)
+    if (!element) {
+      pendingScrollRef.current = { id, until: Date.now() + SCROLL_WAIT_TIMEOUT }
+      return false
+    }
+
+    pendingScrollRef.current = null
+    element.scrollIntoView({ behavior: "smooth", block: "center" })
+    flashHighlight(id)
+    return true
+  }
+
+  /**
+   * Scrolls to a highlight requested before it was placed, if it is now
+   * Requests older than {@link SCROLL_WAIT_TIMEOUT} are dropped so a late
+   * re-render doesn't yank the page away from where the user has scrolled.
+   */
+  const flushPendingScroll = () => {
+    const pending = pendingScrollRef.current
+    if (!pending) return
+    if (Date.now() > pending.until) {
+      pendingScrollRef.current = null
+      return
+    }
+    scrollToHighlight(pending.id)
+  }
+
   /**
    * Loads all highlights from storage and renders them on the current page
+   * Runs once settings are loaded, after edits, and whenever the URL changes
+   * client-side. When the settings say highlights don't belong on this page
+   * (the site is turned off, or highlights only show while the highlighter
+   * is on), it only removes the rendered ones.
    * This is the core rendering function that:
-   * 1. Removes any existing highlight elements to prevent duplicates
-   * 2. Retrieves highlights specific to the current page URL
-   * 3. Attempts to restore each highlight using its stored XPath location
-   * 4. Handles cases gracefully when elements can't be found (page changes)
+   * 1. Retrieves highlights specific to the current page URL and frame from
+   *    the background store
+   * 2. Removes any existing highlight elements to prevent duplicates
+   * 3. Resolves each highlight to a position in the page text, trying its
+   *    XPath anchors, then an exact quote search, then fuzzy matching
+   * 4. Wraps each resolved position, recording a confidence score per highlight
+   * 5. Flags highlights whose text can't be found (page changes) as orphaned
+   *    in storage, and clears the flag once they can be placed again
    */
-  const renderHighlights = () => {
+  const renderHighlights = async () => {
+    if (!shouldRenderRef.current) {
+      pageHighlightsRef.current = []
+      unwrapHighlights()
+      mutationObserverRef.current?.takeRecords()
+      reportHighlightCounts()
+      refreshSidebar()
+      return
+    }
+
+    // Get highlights for the current page only
+    const url = window.location.href
+    let highlights: Highlight[]
+    try {
+      const { url: pageUrl } = await getHighlightPage()
+      const frame = getFramePath()
+      highlights = (await HighlightStorage.getByUrl(pageUrl)).filter(
+        (h) => (h.frame || "") === frame
+      )
+    } catch (error) {
+      console.warn("Could not load highlights:", error)
+      return
+    }
+    // The page may have navigated client-side while we were waiting
+    if (url !== window.location.href) return
+    pageHighlightsRef.current = highlights
+    anchorResultsRef.current = new Map()
+    missedTextRef.current = new Map()
+
     // Remove existing highlights and restore original text
-    document.querySelectorAll(`.${HIGHLIGHT_CLASS}`).forEach((el) => {
-      const parent = el.parentNode
-      if (parent) {
-        parent.replaceChild(document.createTextNode(el.textContent || ""), el)
-        parent.normalize()
+    unwrapHighlights()
+
+    await placeHighlights(highlights)
+  }
+
+  /**
+   * Anchors and wraps a set of highlights in the current page
+   * Used both for full renders and for incrementally placing highlights
+   * whose text appears later on dynamic pages. Orphaned state changes are
+   * written back to storage so the popup can list them. Highlights that
+   * couldn't be placed are only searched for again once the page text has
+   * changed, since fuzzy matching on a long page is expensive.
+   * @param {Highlight[]} candidates - Highlights that are not currently rendered
+   */
+  const placeHighlights = async (candidates: Highlight[]) => {
+    // Resolve every highlight before wrapping any, so positions are computed
+    // against the same page text
+    const pageText = getPageText()
+    const missed = missedTextRef.current
+    const highlights = candidates.filter(
+      (h) => missed.get(h.id) !== pageText.text
+    )
+    if (highlights.length === 0) return
+    const results = anchorResultsRef.current
+    highlights.forEach((highlight) => {
+      try {
+        results.set(highlight.id, resolveHighlight(highlight, pageText))
+      } catch (error) {
+        console.warn("Could not resolve highlight:", error)
+        results.set(highlight.id, {
+          position: null,
+          confidence: 0,
+          method: null
+        })
       }
     })
 
-    // Get highlights for the current page only
-    const highlights = HighlightStorage.getByUrl(window.location.href)
-
-    // Attempt to restore each highlight
+    // Attempt to restore each highlight at its resolved position
     highlights.forEach((highlight) => {
+      const result = results.get(highlight.id)
       try {
-        const element = getElementByXPath(highlight.xpath)
-        if (element) {
-          highlightTextInElement(element, highlight)
+        const range =
+          result.position && positionToRange(result.position, pageText)
+        if (!range) {
+          results.set(highlight.id, { ...result, position: null })
+          return
         }
+        wrapRange(range, highlight).forEach((span) => {
+          span.dataset.anchorConfidence = result.confidence.toFixed(2)
+        })
       } catch (error) {
         console.warn("Could not restore highlight:", error)
+        results.set(highlight.id, { ...result, position: null })
       }
     })
+    highlights.forEach((highlight) => {
+      if (results.get(highlight.id).position) missed.delete(highlight.id)
+      else missed.set(highlight.id, pageText.text)
+    })
+
+    // Our own span insertions must not wake the mutation observer, which
+    // also watches the shadow roots found meanwhile
+    const observer = mutationObserverRef.current
+    observer?.takeRecords()
+    pageText.segments.forEach(({ root }) => {
+      if (root !== document.body) observer?.observe(root, MUTATION_OPTIONS)
+    })
+
+    // A deep link may have been waiting for one of these highlights
+    flushPendingScroll()
+
+    // Persist orphaned state changes so the popup can list them
+    const changes = highlights.filter(
+      (h) => Boolean(h.orphaned) !== !results.get(h.id).position
+    )
+    const updated = await Promise.all(
+      changes.map((h) =>
+        HighlightStorage.update(h.id, {
+          orphaned: !results.get(h.id).position
+        }).catch(() => null)
+      )
+    )
+    updated.forEach((highlight) => {
+      if (!highlight) return
+      pageHighlightsRef.current = pageHighlightsRef.current.map((h) =>
+        h.id === highlight.id ? highlight : h
+      )
+    })
+
+    reportHighlightCounts()
+    refreshSidebar()
   }
 
   /**
-   * Creates a visual highlight within a specific DOM element
-   * Uses a tree walker to find text nodes and applies highlighting based on stored offsets
-   * This function handles the complex task of:
-   * 1. Walking through all text nodes in the element
-   * 2. Finding the exact text range based on character offsets
-   * 3. Splitting text nodes and inserting highlight spans
-   * 4. Preserving the original text structure
-   *
-   * @param {Element} element - The DOM element containing the text to highlight
-   * @param {Highlight} highlight - The highlight object with position and style data
+   * Lists the page's highlights in the sidebar in reading order
+   * Placed highlights follow the order of their spans on the page, and those
+   * that couldn't be placed come last. Only the top frame has a sidebar.
    */
-  const highlightTextInElement = (element: Element, highlight: Highlight) => {
-    const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT)
-
-    // Collect all text nodes in the element
-    const textNodes: Text[] = []
-    let node
-    while ((node = walker.nextNode())) {
-      textNodes.push(node as Text)
-    }
+  const refreshSidebar = () => {
+    if (!isTopFrame()) return
+    const highlights = pageHighlightsRef.current
+    const byId = new Map(highlights.map((h) => [h.id, h]))
+    const placed = getRenderedHighlightIds()
+      .filter((id) => byId.has(id))
+      .map((id) => byId.get(id))
+    const placedIds = new Set(placed.map((h) => h.id))
+    setSidebarHighlights([
+      ...placed,
+      ...highlights.filter((h) => !placedIds.has(h.id))
+    ])
+  }
 
-    // Track character offset across all text nodes
-    let currentOffset = 0
-    for (const textNode of textNodes) {
-      const nodeLength = textNode.textContent?.length || 0
-      const nodeStart = currentOffset
-      const nodeEnd = currentOffset + nodeLength
-
-      // Check if this text node contains our highlight range
-      if (
-        nodeStart <= highlight.startOffset &&
-        highlight.endOffset <= nodeEnd
-      ) {
-        // Calculate offsets within this specific text node
-        const startOffset = highlight.startOffset - nodeStart
-        const endOffset = highlight.endOffset - nodeStart
-
-        // Split the text into before, highlighted, and after sections
-        const before = textNode.textContent?.substring(0, startOffset) || ""
-        const highlighted =
-          textNode.textContent?.substring(startOffset, endOffset) || ""
-        const after = textNode.textContent?.substring(endOffset) || ""
-
-        if (highlighted) {
-          // Create the highlight span with styling and data attributes
-          const span = document.createElement("span")
-          span.className = `${HIGHLIGHT_CLASS} cursor-pointer transition-opacity hover:opacity-80`
-          span.setAttribute("data-highlight-id", highlight.id)
-          span.textContent = highlighted
-          span.title = highlight.note || "Click to view note"
-
-          // Apply the stored highlight color
-          span.style.backgroundColor = highlight.color || "#fef08a"
-          span.style.borderRadius = "2px"
-          span.style.padding = "1px 2px"
-
-          // Replace the original text node with the split text and highlight span
-          const parent = textNode.parentNode
-          if (parent) {
-            if (before)
-              parent.insertBefore(document.createTextNode(before), textNode)
-            parent.insertBefore(span, textNode)
-            if (after)
-              parent.insertBefore(document.createTextNode(after), textNode)
-            parent.removeChild(textNode)
-          }
-        }
-        break
-      }
+  /**
+   * Tells the background how many of this frame's highlights are placed,
+   * so the toolbar badge can show it
+   * Only changed counts are sent, since placement passes run on every
+   * batch of page mutations.
+   */
+  const reportHighlightCounts = () => {
+    const results = anchorResultsRef.current
+    const counts = { placed: 0, orphaned: 0 }
+    pageHighlightsRef.current.forEach((h) => {
+      const result = results.get(h.id)
+      if (!result) return
+      if (result.position) counts.placed++
+      else counts.orphaned++
+    })
 
-      currentOffset = nodeEnd
-    }
+    const key = JSON.stringify(counts)
+    if (key === reportedCountsRef.current) return
+    reportedCountsRef.current = key
+    HighlightStorage.reportHighlightCounts(counts).catch((error) => {
+      reportedCountsRef.current = ""
+      console.warn("Could not update the badge:", error)
+    })
   }
 
   return (
@@ -364,30 +1158,102 @@ const Content = () => {
       {/* Draggable toolbar for color selection and note creation */}
       <HighlightToolbar
         isVisible={showToolbar}
-        selectedColor={selectedColor}
-        onColorChange={setSelectedColor}
+        palette={palette}
+        selectedColorId={selectedColorId}
+        onColorChange={handleColorChange}
+        isNoteMode={isSelectingForNote}
         onNoteClick={handleNoteClick}
+        isSidebarOpen={showSidebar}
+        onSidebarClick={() => setShowSidebar((open) => !open)}
+        isMarginMode={showMarginNotes}
+        onMarginClick={() => setShowMarginNotes((shown) => !shown)}
+      />
+
+      {/* Notes of the page's highlights in a gutter beside the text */}
+      {showMarginNotes && isEnabled && isTopFrame() && (
+        <MarginNotes
+          highlights={sidebarHighlights}
+          palette={palette}
+          rightOffset={showSidebar ? SIDEBAR_WIDTH : 0}
+          onUpdate={handleUpdateHighlight}
+        />
+      )}
+
+      {/* Strip next to the scrollbar marking where the highlights are */}
+      {isEnabled && isTopFrame() && (
+        <HighlightMinimap
+          highlights={sidebarHighlights}
+          palette={palette}
+          rightOffset={showSidebar ? SIDEBAR_WIDTH : 0}
+          onSelect={scrollToHighlight}
+        />
+      )}
+
+      {/* Side panel listing the page's highlights in reading order */}
+      <HighlightSidebar
+        isOpen={showSidebar && isEnabled && isTopFrame()}
+        highlights={sidebarHighlights}
+        palette={palette}
+        onSelect={scrollToHighlight}
+        onReanchor={startReanchor}
+        onClose={() => setShowSidebar(false)}
       />
 
       {/* Overlay for creating new highlights when text is selected in note mode */}
-      {showOverlay && (
-        <></>
-        // <HighlightOverlay
-        //   selectedText={selectedText}
-        //   position={overlayPosition}
-        //   onSave={handleSaveHighlight}
-        //   onClose={handleCloseOverlay}
-        // />
+      {showOverlay && overlayRange && (
+        <HighlightOverlay
+          selectedText={selectedText}
+          range={overlayRange}
+          position={overlayPosition}
+          palette={palette}
+          initialColorId={selectedColorId}
+          onSave={handleSaveHighlight}
+          onClose={handleCloseOverlay}
+        />
+      )}
+
+      {/* Banner shown while choosing a new location for an orphaned highlight */}
+      {reanchorTarget && (
+        <ReanchorBanner
+          highlight={reanchorTarget}
+          onCancel={() => setReanchorTarget(null)}
+        />
       )}
 
       {/* Tooltip for viewing and editing existing highlights */}
       {showTooltip && activeHighlight && (
         <HighlightTooltip
+          // Remount to pick up edit mode when reopened for the same highlight
+          key={`${activeHighlight.id}:${isEditingTooltip}`}
           highlight={activeHighlight}
           position={tooltipPosition}
           onUpdate={handleUpdateHighlight}
           onDelete={handleDeleteHighlight}
+          onAddComment={handleAddComment}
+          onUpdateComment={handleUpdateComment}
+          onDeleteComment={handleDeleteComment}
           onClose={() => setShowTooltip(false)}
+          startEditing={isEditingTooltip}
+        />
+      )}
+
+      {/* Confirmation of the last change, with a button to undo or redo it */}
+      {toast && (
+        <UndoToast
+          key={toast.id}
+          message={toast.message}
+          action={toast.action}
+          onAction={() => toast.action && handleHistory(toast.action)}
+          onClose={() => setToast(null)}
+        />
+      )}
+
+      {/* Keyboard-driven list of highlighter commands */}
+      {showCommandPalette && (
+        <CommandPalette
+          commands={listCommands(palette, shortcuts)}
+          onRun={handleRunPaletteCommand}
+          onClose={closeCommandPalette}
         />
       )}
     </>
@@ -395,56 +1261,3 @@ const Content = () => {
 }
 
 export default Content
-
-/**
- * Generates an XPath expression for a given DOM node
- *
- * XPath provides a reliable way to locate elements even after page changes.
- * This function creates a path from the root document to the target element
- * by traversing up the DOM tree and noting each element's position among siblings.
- *
- * The generated XPath format: /html[1]/body[1]/div[2]/p[1]
- * Numbers indicate the element's position among same-type siblings.
- *
- * @param {Node} element - The DOM node to generate XPath for
- * @returns {string} The XPath expression as a string
- */
-function generateXPath(element: Node): string {
-  // Handle text nodes by getting their parent element
-  if (element.nodeType === Node.TEXT_NODE) {
-    element = element.parentNode!
-  }
-
-  // Only process element nodes
-  if (element.nodeType !== Node.ELEMENT_NODE) {
-    return ""
-  }
-
-  const xpath: string[] = []
-  let current = element as Element
-
-  // Traverse up the DOM tree to build the path
-  while (current && current.nodeType === Node.ELEMENT_NODE) {
-    let index = 1
-    let sibling = current.previousSibling
-
-    // Count same-name siblings that come before this element
-    while (sibling) {
-      if (
-        sibling.nodeType === Node.ELEMENT_NODE &&
-        sibling.nodeName === current.nodeName
-      ) {
-        index++
-      }
-      sibling = sibling.previousSibling
-    }
-
-    // Build path segment: tagname[position]
-    const tagName = current.nodeName.toLowerCase()
-    xpath.unshift(`${tagName}[${index}]`)
-    current = current.parentNode as Element
-  }
-
-  // Return complete XPath starting with root slash
-  return `/${xpath.join("/")}`
-}
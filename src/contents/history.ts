@@ -0,0 +1,30 @@
+import { LOCATION_CHANGE_EVENT } from "@/lib/messages"
+import type { PlasmoCSConfig } from "plasmo"
+
+// Runs in the page's own JavaScript world so it can see the site's
+// history.pushState/replaceState calls, which the isolated content script can't
+export const config: PlasmoCSConfig = {
+  matches: ["<all_urls>"],
+  world: "MAIN",
+  run_at: "document_start",
+  all_frames: true
+}
+
+/**
+ * Wraps a History API method so every call announces the URL change
+ * Single-page apps navigate with pushState/replaceState, which fire no
+ * native event; the content script listens for our event instead.
+ *
+ * @param {"pushState" | "replaceState"} method - The method to wrap
+ */
+function patchHistoryMethod(method: "pushState" | "replaceState") {
+  const original = history[method]
+  history[method] = function (...args: Parameters<History["pushState"]>) {
+    const result = original.apply(this, args)
+    window.dispatchEvent(new Event(LOCATION_CHANGE_EVENT))
+    return result
+  }
+}
+
+patchHistoryMethod("pushState")
+patchHistoryMethod("replaceState")
@@ -0,0 +1,16 @@
+import { sendBackgroundMessage } from "@/lib/messages"
+import type { PlasmoCSConfig } from "plasmo"
+
+// Runs as the document starts loading, so a PDF is handed to our viewer
+// before the browser's own viewer has rendered it
+export const config: PlasmoCSConfig = {
+  matches: ["https://*/*", "http://*/*"],
+  run_at: "document_start"
+}
+
+// The browser's PDF viewer is an embed inside a document of this type
+if (document.contentType === "application/pdf") {
+  sendBackgroundMessage({ type: "OPEN_PDF_VIEWER" }).catch((error) =>
+    console.warn("Could not open the PDF viewer:", error)
+  )
+}
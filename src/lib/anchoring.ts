@@ -0,0 +1,622 @@
+// Approximate matching for quotes whose text has changed slightly
+import { fuzzySearch } from "./fuzzy"
+// Open shadow roots, whose text is part of the page text
+import { getOpenShadowRoots } from "./shadow"
+// Type definitions for highlight anchors
+import type {
+  AnchorResult,
+  Highlight,
+  HighlightAnchors,
+  TextAnchor,
+  TextPositionSelector,
+  TextQuoteSelector
+} from "./types"
+
+// CSS class name used to identify highlighted text elements
+export const HIGHLIGHT_CLASS = "text-highlight-extension"
+// Characters of context stored on each side of a quote
+const QUOTE_CONTEXT_LENGTH = 32
+// Share of a quote's characters that may differ in a fuzzy match
+const FUZZY_ERROR_RATIO = 0.2
+// Above this many table cells, fuzzy search is limited to a window around the expected position
+const FUZZY_MAX_COST = 20_000_000
+
+/**
+ * Text of a page as one string, the coordinate space of position selectors
+ *
+ * The page body comes first, followed by the text of each open shadow root
+ * in document order. Offsets into the page itself are thus the same whether
+ * or not it uses shadow DOM.
+ */
+export interface PageText {
+  /** The concatenated text */
+  text: string
+  /** Each tree whose text is included, with where its text starts */
+  segments: { root: Node; start: number }[]
+}
+
+/**
+ * Checks whether a node is one of our own highlight wrapper spans
+ * These spans are transient decorations and must never appear in anchors.
+ *
+ * @param {Node} node - The node to check
+ * @returns {boolean} True for highlight spans
+ */
+function isHighlightElement(node: Node): boolean {
+  return (
+    node.nodeType === Node.ELEMENT_NODE &&
+    (node as Element).classList.contains(HIGHLIGHT_CLASS)
+  )
+}
+
+/**
+ * Generates an XPath expression for a given DOM node
+ *
+ * XPath provides a reliable way to locate elements even after page changes.
+ * This function creates a path from the root document to the target element
+ * by traversing up the DOM tree and noting each element's position among siblings.
+ *
+ * Highlight spans are skipped, both as path segments and when counting
+ * siblings, so the same element yields the same XPath whether or not
+ * highlights are currently rendered on the page.
+ *
+ * The generated XPath format: /html[1]/body[1]/div[2]/p[1]
+ * Numbers indicate the element's position among same-type siblings. Inside a
+ * shadow root the path starts at the shadow root instead of the document.
+ *
+ * @param {Node} element - The DOM node to generate XPath for
+ * @returns {string} The XPath expression as a string
+ */
+export function generateXPath(element: Node): string {
+  const anchorElement = getAnchorElement(element)
+  if (!anchorElement) {
+    return ""
+  }
+
+  const xpath: string[] = []
+  let current = anchorElement
+
+  // Traverse up the DOM tree to build the path
+  while (current && current.nodeType === Node.ELEMENT_NODE) {
+    if (!isHighlightElement(current)) {
+      let index = 1
+      let sibling = current.previousSibling
+
+      // Count same-name siblings that come before this element
+      while (sibling) {
+        if (
+          sibling.nodeType === Node.ELEMENT_NODE &&
+          sibling.nodeName === current.nodeName &&
+          !isHighlightElement(sibling)
+        ) {
+          index++
+        }
+        sibling = sibling.previousSibling
+      }
+
+      // Build path segment: tagname[position]
+      const tagName = current.nodeName.toLowerCase()
+      xpath.unshift(`${tagName}[${index}]`)
+    }
+    current = current.parentNode as Element
+  }
+
+  // Return complete XPath starting with root slash
+  return `/${xpath.join("/")}`
+}
+
+/**
+ * Retrieves a DOM element using an XPath expression
+ *
+ * This function uses the browser's native XPath evaluation capabilities
+ * to find an element based on its XPath string. It returns the first
+ * matching element or null if no element is found.
+ *
+ * This is particularly useful for restoring highlights after page loads
+ * when we need to find previously highlighted elements.
+ *
+ * @param {string} xpath - The XPath expression to evaluate
+ * @param {Node} [root] - The document or shadow root the path starts at
+ * @returns {Element | null} The matching DOM element, or null if not found or the expression is invalid
+ */
+export function getElementByXPath(
+  xpath: string,
+  root: Node = document
+): Element | null {
+  // Imported highlights may carry no XPath, or one from another tool
+  if (!xpath) return null
+  try {
+    // Absolute paths always start at the document, so paths inside a shadow
+    // root are evaluated relative to it
+    return document.evaluate(
+      root === document ? xpath : `.${xpath}`,
+      root,
+      null,
+      XPathResult.FIRST_ORDERED_NODE_TYPE,
+      null
+    ).singleNodeValue as Element
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Finds the element an anchor should be expressed relative to
+ * Text nodes resolve to their parent, and highlight spans are climbed out of
+ * so anchors always point at page-owned elements.
+ *
+ * @param {Node} node - A range boundary container
+ * @returns {Element | null} The closest non-highlight element
+ */
+function getAnchorElement(node: Node): Element | null {
+  let current: Node | null =
+    node.nodeType === Node.ELEMENT_NODE ? node : node.parentNode
+  while (current && isHighlightElement(current)) {
+    current = current.parentNode
+  }
+  return current?.nodeType === Node.ELEMENT_NODE ? (current as Element) : null
+}
+
+/**
+ * Lists the XPaths of the shadow hosts an element is inside
+ *
+ * @param {Element} element - The anchor element
+ * @returns {string[]} XPaths of the hosts, outermost first, each relative to the previous host's shadow root
+ */
+function getShadowHostPath(element: Element): string[] {
+  const hosts: string[] = []
+  let root = element.getRootNode()
+  while (root instanceof ShadowRoot) {
+    hosts.unshift(generateXPath(root.host))
+    root = root.host.getRootNode()
+  }
+  return hosts
+}
+
+/**
+ * Finds the tree a text anchor's XPath is relative to
+ *
+ * @param {string[]} [hosts] - The anchor's shadow host XPaths
+ * @returns {Node | null} The document or shadow root, or null if a host is missing or its shadow root closed
+ */
+function resolveShadowRoot(hosts: string[] = []): Node | null {
+  let tree: Node = document
+  for (const xpath of hosts) {
+    tree = getElementByXPath(xpath, tree)?.shadowRoot
+    if (!tree) return null
+  }
+  return tree
+}
+
+/**
+ * Measures the text offset of a boundary point from the start of a root
+ *
+ * @param {Node} root - The node offsets are measured from
+ * @param {Node} container - Boundary container
+ * @param {number} offset - Boundary offset within the container
+ * @returns {number} Number of text characters between the root's start and the boundary
+ */
+function measureOffset(root: Node, container: Node, offset: number): number {
+  const prefix = document.createRange()
+  prefix.setStart(root, 0)
+  prefix.setEnd(container, offset)
+  return prefix.toString().length
+}
+
+/**
+ * Converts a DOM boundary point into an element-relative text anchor
+ * The offset counts characters of every text node inside the anchor element
+ * that precede the boundary, which stays stable regardless of how highlight
+ * spans have split those text nodes.
+ *
+ * @param {Node} container - Boundary container (text node or element)
+ * @param {number} offset - Boundary offset within the container
+ * @returns {TextAnchor | null} The anchor, or null for detached nodes
+ */
+function describeBoundary(container: Node, offset: number): TextAnchor | null {
+  const element = getAnchorElement(container)
+  if (!element) return null
+
+  const anchor: TextAnchor = {
+    xpath: generateXPath(element),
+    offset: measureOffset(element, container, offset)
+  }
+  const shadowHosts = getShadowHostPath(element)
+  if (shadowHosts.length > 0) anchor.shadowHosts = shadowHosts
+  return anchor
+}
+
+/**
+ * Collects the text of a page, including its open shadow roots
+ * This is the coordinate space of {@link TextPositionSelector} offsets.
+ *
+ * @param {Node} [root] - The node whose text is the page's, if not the body
+ * @returns {PageText} The page text
+ */
+export function getPageText(root: Node = document.body): PageText {
+  const segments: PageText["segments"] = []
+  let text = ""
+  for (const tree of [root, ...getOpenShadowRoots(root)]) {
+    segments.push({ root: tree, start: text.length })
+    text += tree.textContent || ""
+  }
+  return { text, segments }
+}
+
+/**
+ * Measures the offset of a boundary point into the page text
+ *
+ * @param {PageText} pageText - The page text
+ * @param {Node} container - Boundary container
+ * @param {number} offset - Boundary offset within the container
+ * @returns {number | null} The offset, or null if the boundary isn't in the page text
+ */
+function measurePageOffset(
+  pageText: PageText,
+  container: Node,
+  offset: number
+): number | null {
+  // Trees don't contain the nodes of shadow roots inside them
+  const segment = pageText.segments.find(({ root }) => root.contains(container))
+  return segment
+    ? segment.start + measureOffset(segment.root, container, offset)
+    : null
+}
+
+/**
+ * Describes a live DOM range by content and by offset into the page text
+ *
+ * @param {Range} range - The selected range
+ * @param {PageText} pageText - The text of the page holding the range
+ * @returns {Pick<HighlightAnchors, "quote" | "position"> | null} The quote and position selectors, or null if the range isn't in the page text
+ */
+export function describeQuote(
+  range: Range,
+  pageText: PageText
+): Pick<HighlightAnchors, "quote" | "position"> | null {
+  const exact = range.toString()
+  const startOffset = measurePageOffset(
+    pageText,
+    range.startContainer,
+    range.startOffset
+  )
+  if (startOffset === null) return null
+  const position: TextPositionSelector = {
+    start: startOffset,
+    end: startOffset + exact.length
+  }
+
+  const { text } = pageText
+  const quote: TextQuoteSelector = {
+    exact,
+    prefix: text.slice(
+      Math.max(0, position.start - QUOTE_CONTEXT_LENGTH),
+      position.start
+    ),
+    suffix: text.slice(position.end, position.end + QUOTE_CONTEXT_LENGTH)
+  }
+
+  return { quote, position }
+}
+
+/**
+ * Describes a live DOM range with every selector we store
+ * Start and end anchors locate it structurally, the quote by content and the
+ * position by offset into the page text.
+ *
+ * @param {Range} range - The selected range
+ * @returns {HighlightAnchors | null} The anchors, or null if the range can't be described
+ */
+export function describeRange(range: Range): HighlightAnchors | null {
+  const start = describeBoundary(range.startContainer, range.startOffset)
+  const end = describeBoundary(range.endContainer, range.endOffset)
+  const selectors = describeQuote(range, getPageText())
+  if (!start || !end || !selectors) return null
+
+  return { start, end, ...selectors }
+}
+
+/**
+ * Finds the text node and local offset at a character offset below a root
+ * A start boundary sitting exactly between two text nodes is placed at the
+ * beginning of the later node, an end boundary at the end of the earlier one,
+ * so the resolved range never includes an empty leading or trailing segment.
+ *
+ * @param {Node} root - The node offsets are measured from
+ * @param {number} offset - Character offset below the root
+ * @param {boolean} isStart - Whether this is the start boundary of a range
+ * @returns {{ node: Text; offset: number } | null} The boundary, or null if it is out of bounds
+ */
+function locateOffset(
+  root: Node,
+  offset: number,
+  isStart: boolean
+): { node: Text; offset: number } | null {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT)
+  let remaining = offset
+  let node: Text | null
+  let last: Text | null = null
+  while ((node = walker.nextNode() as Text | null)) {
+    const length = node.data.length
+    if (isStart ? remaining < length : remaining <= length) {
+      return { node, offset: remaining }
+    }
+    remaining -= length
+    last = node
+  }
+
+  // Allow an offset pointing exactly at the end of the root's text
+  if (last && remaining === 0) {
+    return { node: last, offset: last.data.length }
+  }
+  return null
+}
+
+/**
+ * Converts a text anchor back into a DOM boundary point
+ *
+ * @param {TextAnchor} anchor - The stored anchor
+ * @param {boolean} isStart - Whether this is the start boundary of a range
+ * @returns {{ node: Text; offset: number } | null} The boundary, or null if it can't be found
+ */
+function resolveBoundary(
+  anchor: TextAnchor,
+  isStart: boolean
+): { node: Text; offset: number } | null {
+  const tree = resolveShadowRoot(anchor.shadowHosts)
+  const element = tree && getElementByXPath(anchor.xpath, tree)
+  return element ? locateOffset(element, anchor.offset, isStart) : null
+}
+
+/**
+ * Rebuilds a live DOM range from stored start and end anchors
+ *
+ * @param {HighlightAnchors} anchors - The stored anchors
+ * @returns {Range | null} The range, or null if either boundary is missing
+ */
+export function resolveRange(anchors: HighlightAnchors): Range | null {
+  const start = resolveBoundary(anchors.start, true)
+  const end = resolveBoundary(anchors.end, false)
+  if (!start || !end) return null
+
+  const range = document.createRange()
+  range.setStart(start.node, start.offset)
+  range.setEnd(end.node, end.offset)
+  return range.collapsed ? null : range
+}
+
+/**
+ * Builds a live DOM range from page text offsets
+ * Page text offsets aren't affected by highlight spans splitting text nodes,
+ * so positions resolved up front stay valid while other highlights render.
+ * A range can't cross into or out of a shadow root, so both offsets must
+ * fall in the same tree's text.
+ *
+ * @param {TextPositionSelector} position - Offsets into the page text
+ * @param {PageText} [pageText] - The page text the offsets are measured in
+ * @returns {Range | null} The range, or null if the offsets are out of bounds
+ */
+export function positionToRange(
+  position: TextPositionSelector,
+  pageText: PageText = getPageText()
+): Range | null {
+  const { segments } = pageText
+  const segment = segments.find(
+    ({ start }, i) =>
+      start <= position.start &&
+      position.end <= (segments[i + 1]?.start ?? pageText.text.length)
+  )
+  if (!segment) return null
+
+  const start = locateOffset(segment.root, position.start - segment.start, true)
+  const end = locateOffset(segment.root, position.end - segment.start, false)
+  if (!start || !end) return null
+
+  const range = document.createRange()
+  range.setStart(start.node, start.offset)
+  range.setEnd(end.node, end.offset)
+  return range.collapsed ? null : range
+}
+
+/**
+ * Counts how many characters two strings share at their end
+ *
+ * @param {string} a - First string
+ * @param {string} b - Second string
+ * @returns {number} Length of the common suffix
+ */
+function commonSuffixLength(a: string, b: string): number {
+  let n = 0
+  while (
+    n < a.length &&
+    n < b.length &&
+    a[a.length - 1 - n] === b[b.length - 1 - n]
+  ) {
+    n++
+  }
+  return n
+}
+
+/**
+ * Counts how many characters two strings share at their start
+ *
+ * @param {string} a - First string
+ * @param {string} b - Second string
+ * @returns {number} Length of the common prefix
+ */
+function commonPrefixLength(a: string, b: string): number {
+  let n = 0
+  while (n < a.length && n < b.length && a[n] === b[n]) n++
+  return n
+}
+
+/**
+ * Scores how well the text around a candidate match agrees with a quote's
+ * stored prefix and suffix
+ *
+ * @param {string} bodyText - The page's body text
+ * @param {TextPositionSelector} candidate - Where the candidate match lies
+ * @param {TextQuoteSelector} quote - The stored quote
+ * @returns {number} 1 when both contexts match fully, down to 0
+ */
+function scoreContext(
+  bodyText: string,
+  candidate: TextPositionSelector,
+  quote: TextQuoteSelector
+): number {
+  const parts: number[] = []
+  if (quote.prefix) {
+    const before = bodyText.slice(
+      Math.max(0, candidate.start - quote.prefix.length),
+      candidate.start
+    )
+    parts.push(commonSuffixLength(before, quote.prefix) / quote.prefix.length)
+  }
+  if (quote.suffix) {
+    const after = bodyText.slice(
+      candidate.end,
+      candidate.end + quote.suffix.length
+    )
+    parts.push(commonPrefixLength(after, quote.suffix) / quote.suffix.length)
+  }
+  return parts.length
+    ? parts.reduce((sum, part) => sum + part, 0) / parts.length
+    : 1
+}
+
+/**
+ * Finds the best exact occurrence of a quote in the body text
+ * Occurrences are ranked by how well their context matches, with distance
+ * from the stored position breaking ties between repeated phrases.
+ *
+ * @param {string} bodyText - The page's body text
+ * @param {TextQuoteSelector} quote - The stored quote
+ * @param {number} hint - Expected start offset
+ * @returns {AnchorResult | null} The best occurrence, or null if the quote isn't on the page
+ */
+function findExactQuote(
+  bodyText: string,
+  quote: TextQuoteSelector,
+  hint: number
+): AnchorResult | null {
+  let best: { result: AnchorResult; distance: number } | null = null
+  let index = bodyText.indexOf(quote.exact)
+  while (index !== -1) {
+    const position = { start: index, end: index + quote.exact.length }
+    const context = scoreContext(bodyText, position, quote)
+    const distance = Math.abs(index - hint)
+    if (
+      !best ||
+      context > best.result.confidence ||
+      (context === best.result.confidence && distance < best.distance)
+    ) {
+      best = {
+        result: { position, confidence: context, method: "quote" },
+        distance
+      }
+    }
+    index = bodyText.indexOf(quote.exact, index + 1)
+  }
+  if (!best) return null
+
+  // An exact match is trustworthy even when its context has changed
+  best.result.confidence = 0.7 + 0.3 * best.result.confidence
+  return best.result
+}
+
+/**
+ * Finds the closest approximate occurrence of a quote in the body text
+ * On long pages the search is limited to a window around the expected
+ * position to keep the dynamic programming table affordable.
+ *
+ * @param {string} bodyText - The page's body text
+ * @param {TextQuoteSelector} quote - The stored quote
+ * @param {number} hint - Expected start offset
+ * @returns {AnchorResult | null} The match, or null if nothing is close enough
+ */
+function findFuzzyQuote(
+  bodyText: string,
+  quote: TextQuoteSelector,
+  hint: number
+): AnchorResult | null {
+  const maxErrors = Math.max(
+    1,
+    Math.floor(quote.exact.length * FUZZY_ERROR_RATIO)
+  )
+
+  let offset = 0
+  let text = bodyText
+  if (bodyText.length * quote.exact.length > FUZZY_MAX_COST) {
+    const radius = Math.floor(FUZZY_MAX_COST / quote.exact.length / 2)
+    offset = Math.max(0, hint - radius)
+    text = bodyText.slice(offset, hint + quote.exact.length + radius)
+  }
+
+  const match = fuzzySearch(text, quote.exact, maxErrors)
+  if (!match) return null
+
+  return {
+    position: { start: offset + match.start, end: offset + match.end },
+    confidence: Math.max(0, 1 - match.errors / quote.exact.length) * 0.9,
+    method: "fuzzy"
+  }
+}
+
+/**
+ * Places a stored highlight on the current page
+ *
+ * Tries, in order:
+ * 1. The structural start/end XPath anchors, accepted only if they still
+ *    cover the quoted text
+ * 2. An exact search for the quote, disambiguated by prefix/suffix context
+ *    and the stored position
+ * 3. A fuzzy search tolerating small edits to the quoted text
+ *
+ * Highlights saved before quotes existed fall back to their plain text.
+ *
+ * @param {Highlight} highlight - The stored highlight
+ * @param {PageText} pageText - The page text, see {@link getPageText}
+ * @returns {AnchorResult} Where the highlight was found and how confidently
+ */
+export function resolveHighlight(
+  highlight: Highlight,
+  pageText: PageText
+): AnchorResult {
+  const quote: TextQuoteSelector = highlight.quote || {
+    exact: highlight.text,
+    prefix: "",
+    suffix: ""
+  }
+  const hint = highlight.position?.start ?? 0
+
+  const range = resolveRange(highlight)
+  const start =
+    range &&
+    measurePageOffset(pageText, range.startContainer, range.startOffset)
+  if (start !== null) {
+    const text = range.toString()
+    if (
+      text === quote.exact ||
+      (!highlight.quote && text.trim() === quote.exact)
+    ) {
+      return {
+        position: { start, end: start + text.length },
+        confidence: 1,
+        method: "xpath"
+      }
+    }
+  }
+
+  if (!quote.exact) {
+    return { position: null, confidence: 0, method: null }
+  }
+
+  return (
+    findExactQuote(pageText.text, quote, hint) ||
+    findFuzzyQuote(pageText.text, quote, hint) || {
+      position: null,
+      confidence: 0,
+      method: null
+    }
+  )
+}
@@ -0,0 +1,105 @@
+// Palette entry type for the color commands
+import type { PaletteColor } from "./palette"
+
+// Prefix of the color commands, followed by the 1-based palette position
+// The manifest declares six; Chrome needs every command up front, so colors
+// past the sixth can only be reached through the command palette
+const COLOR_COMMAND_PREFIX = "highlight-color-"
+
+/**
+ * Identifier of a command, shared by the manifest's `commands` section and
+ * the in-page command palette
+ */
+export type CommandId =
+  | "toggle-activation"
+  | "highlight-selection"
+  | "add-note"
+  | "next-highlight"
+  | "previous-highlight"
+  | "open-command-palette"
+  | "toggle-sidebar"
+  | "toggle-margin-notes"
+  | `${typeof COLOR_COMMAND_PREFIX}${number}`
+
+/**
+ * Commands toggling panels that only the top frame shows
+ * The top frame runs them from a shortcut whichever frame has keyboard
+ * focus; other shortcuts run in the focused frame.
+ */
+export const TOP_FRAME_COMMANDS = new Set<CommandId>([
+  "toggle-sidebar",
+  "toggle-margin-notes"
+])
+
+/**
+ * A command as listed in the command palette
+ */
+export interface CommandInfo {
+  /** The command to run */
+  id: CommandId
+  /** Short description shown to the user */
+  title: string
+  /** Keyboard shortcut assigned in the browser, if any */
+  shortcut?: string
+  /** Swatch shown next to color commands */
+  color?: string
+}
+
+/**
+ * Commands that don't depend on the color palette
+ */
+export const BASE_COMMANDS: CommandInfo[] = [
+  { id: "highlight-selection", title: "Highlight selection" },
+  { id: "add-note", title: "Highlight selection and add a note" },
+  { id: "next-highlight", title: "Go to next highlight" },
+  { id: "previous-highlight", title: "Go to previous highlight" },
+  { id: "toggle-sidebar", title: "Show or hide the highlight sidebar" },
+  { id: "toggle-margin-notes", title: "Show or hide notes in the margin" },
+  { id: "toggle-activation", title: "Turn highlighter on or off" }
+]
+
+/**
+ * Builds the color command for a palette position
+ *
+ * @param {number} index - 0-based position in the palette
+ * @returns {CommandId} The command highlighting with that color
+ */
+export function colorCommand(index: number): CommandId {
+  return `${COLOR_COMMAND_PREFIX}${index + 1}`
+}
+
+/**
+ * Reads the palette position out of a color command
+ *
+ * @param {string} command - A command ID
+ * @returns {number | null} 0-based palette position, or null for other commands
+ */
+export function getColorCommandIndex(command: string): number | null {
+  if (!command.startsWith(COLOR_COMMAND_PREFIX)) return null
+  const position = Number(command.slice(COLOR_COMMAND_PREFIX.length))
+  return Number.isInteger(position) && position > 0 ? position - 1 : null
+}
+
+/**
+ * Lists every command for the command palette
+ * Each palette entry gets a color command, labelled with what it means.
+ *
+ * @param {PaletteColor[]} palette - The user's color palette
+ * @param {Record<string, string>} shortcuts - Assigned shortcuts by command ID
+ * @returns {CommandInfo[]} The commands with their shortcuts
+ */
+export function listCommands(
+  palette: PaletteColor[],
+  shortcuts: Record<string, string>
+): CommandInfo[] {
+  const colors = palette.map((entry, index) => ({
+    id: colorCommand(index),
+    title: `Highlight as ${entry.label}`,
+    color: entry.color
+  }))
+  return [
+    ...BASE_COMMANDS.slice(0, 2),
+    ...colors,
+    ...BASE_COMMANDS.slice(2)
+  ].map((command) => ({ ...command, shortcut: shortcuts[command.id] }))
+}
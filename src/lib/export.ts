@@ -0,0 +1,255 @@
+// Palette entry type
+import type { PaletteColor } from "./palette"
+// Type definitions for highlight objects
+import type { Collection, Highlight } from "./types"
+
+/** File formats highlights can be exported to */
+export type ExportFormat = "markdown" | "json" | "html"
+
+// Identifies our own JSON backups when they are imported again
+export const EXPORT_FORMAT_ID = "text-highlighter"
+// Version of the JSON backup layout
+// 2 added the collections and palette entries the highlights use
+export const EXPORT_VERSION = 2
+
+/**
+ * Lossless JSON backup file layout
+ * Contains complete highlight objects, including anchors and colors, and
+ * the collections and palette entries they reference so a restore can
+ * recreate them.
+ */
+export interface HighlightBackup {
+  /** Always {@link EXPORT_FORMAT_ID} */
+  format: typeof EXPORT_FORMAT_ID
+  /** Layout version, see {@link EXPORT_VERSION} */
+  version: number
+  /** Unix timestamp of the export */
+  exportedAt: number
+  /** Every exported highlight, unchanged */
+  highlights: Highlight[]
+  /** Collections referenced by the exported highlights; missing before version 2 */
+  collections?: Collection[]
+  /** Palette entries used by the exported highlights; missing before version 2 */
+  palette?: PaletteColor[]
+}
+
+/**
+ * Data highlights refer to by id, saved along with them in a JSON backup
+ */
+export interface BackupContext {
+  /** Every collection of the user */
+  collections: Collection[]
+  /** The user's color palette */
+  palette: PaletteColor[]
+}
+
+/** Highlights of one page, in the order they were created */
+interface PageGroup {
+  url: string
+  title: string
+  highlights: Highlight[]
+}
+
+// File extension and MIME type for each format
+const FORMAT_FILES: Record<ExportFormat, { extension: string; mime: string }> =
+  {
+    markdown: { extension: "md", mime: "text/markdown" },
+    json: { extension: "json", mime: "application/json" },
+    html: { extension: "html", mime: "text/html" }
+  }
+
+/**
+ * Groups highlights by page, pages sorted by title
+ * Pages without a stored title are listed under their URL.
+ *
+ * @param {Highlight[]} highlights - The highlights to group
+ * @returns {PageGroup[]} One group per page
+ */
+function groupByPage(highlights: Highlight[]): PageGroup[] {
+  const groups = new Map<string, PageGroup>()
+  for (const highlight of highlights) {
+    let group = groups.get(highlight.url)
+    if (!group) {
+      group = { url: highlight.url, title: "", highlights: [] }
+      groups.set(highlight.url, group)
+    }
+    group.title ||= highlight.title || ""
+    group.highlights.push(highlight)
+  }
+
+  return [...groups.values()]
+    .map((group) => ({
+      ...group,
+      title: group.title || group.url,
+      highlights: group.highlights.sort((a, b) => a.timestamp - b.timestamp)
+    }))
+    .sort((a, b) => a.title.localeCompare(b.title))
+}
+
+/**
+ * Exports highlights as Markdown, grouped by page
+ * Each highlight becomes a block quote followed by its note and comments.
+ *
+ * @param {Highlight[]} highlights - The highlights to export
+ * @returns {string} The Markdown document
+ */
+export function exportToMarkdown(highlights: Highlight[]): string {
+  const lines = ["# Highlights", ""]
+  for (const group of groupByPage(highlights)) {
+    // Angle brackets keep URLs with spaces or parentheses intact
+    const title = group.title.replace(/[[\]]/g, "\\$&")
+    lines.push(`## [${title}](<${group.url}>)`, "")
+    for (const highlight of group.highlights) {
+      // Quote every line so multi-paragraph highlights stay in one block
+      lines.push(
+        ...highlight.text
+          .trim()
+          .split(/\r?\n/)
+          .map((line) => `> ${line}`)
+      )
+      lines.push("")
+      if (highlight.note) {
+        lines.push(`**Note:** ${highlight.note}`, "")
+      }
+      for (const comment of highlight.comments || []) {
+        const date = new Date(comment.timestamp).toLocaleString()
+        lines.push(`**Comment (${date}):** ${comment.text}`, "")
+      }
+      const date = new Date(highlight.timestamp).toLocaleString()
+      lines.push(
+        highlight.pdfPage
+          ? `*Page ${highlight.pdfPage}, ${date}*`
+          : `*${date}*`,
+        ""
+      )
+    }
+  }
+  return lines.join("\n")
+}
+
+/**
+ * Exports highlights as a lossless JSON backup
+ * Only the collections and palette entries the highlights use are included.
+ *
+ * @param {Highlight[]} highlights - The highlights to export
+ * @param {BackupContext} context - Data the highlights refer to
+ * @returns {string} The JSON document
+ */
+export function exportToJson(
+  highlights: Highlight[],
+  context: BackupContext
+): string {
+  const used = new Set(highlights.flatMap((h) => h.collections || []))
+  const colorIds = new Set(highlights.map((h) => h.colorId))
+  const backup: HighlightBackup = {
+    format: EXPORT_FORMAT_ID,
+    version: EXPORT_VERSION,
+    exportedAt: Date.now(),
+    highlights,
+    collections: context.collections.filter((c) => used.has(c.id)),
+    palette: context.palette.filter((entry) => colorIds.has(entry.id))
+  }
+  return JSON.stringify(backup, null, 2)
+}
+
+/**
+ * Escapes text for safe inclusion in HTML
+ *
+ * @param {string} value - Untrusted text
+ * @returns {string} The escaped text
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
+
+/**
+ * Exports highlights as a standalone HTML report
+ * The page needs no external resources; highlights keep their colors.
+ *
+ * @param {Highlight[]} highlights - The highlights to export
+ * @returns {string} The HTML document
+ */
+export function exportToHtml(highlights: Highlight[]): string {
+  const sections = groupByPage(highlights)
+    .map((group) => {
+      const items = group.highlights
+        .map(
+          (highlight) => `
+      <article>
+        <blockquote style="border-left-color: ${escapeHtml(highlight.color || "#fef08a")}; background: ${escapeHtml(highlight.color || "#fef08a")}33">${escapeHtml(highlight.text.trim())}</blockquote>
+        ${highlight.note ? `<p class="note">${escapeHtml(highlight.note)}</p>` : ""}
+        ${(highlight.comments || []).map((comment) => `<p class="note"><time>${escapeHtml(new Date(comment.timestamp).toLocaleString())}</time><br>${escapeHtml(comment.text)}</p>`).join("")}
+        <time>${highlight.pdfPage ? `Page ${highlight.pdfPage}, ` : ""}${escapeHtml(new Date(highlight.timestamp).toLocaleString())}</time>
+      </article>`
+        )
+        .join("")
+      return `
+    <section>
+      <h2><a href="${escapeHtml(group.url)}">${escapeHtml(group.title)}</a></h2>
+      <p class="url">${escapeHtml(group.url)}</p>${items}
+    </section>`
+    })
+    .join("")
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>Highlights</title>
+    <style>
+      body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1f2937; }
+      h1 { font-size: 1.5rem; }
+      h2 { font-size: 1.125rem; margin-bottom: 0; }
+      h2 a { color: inherit; }
+      .url { color: #6b7280; font-size: 0.75rem; word-break: break-all; }
+      article { margin: 1rem 0; }
+      blockquote { margin: 0; padding: 0.5rem 0.75rem; border-left: 4px solid; border-radius: 4px; white-space: pre-wrap; }
+      .note { background: #f9fafb; padding: 0.5rem 0.75rem; border-radius: 4px; white-space: pre-wrap; }
+      time { color: #6b7280; font-size: 0.75rem; }
+    </style>
+  </head>
+  <body>
+    <h1>Highlights</h1>
+    <p class="url">${highlights.length} highlights, exported ${escapeHtml(new Date().toLocaleString())}</p>${sections}
+  </body>
+</html>
+`
+}
+
+/**
+ * Generates an export file and starts its download
+ *
+ * @param {Highlight[]} highlights - The highlights to export
+ * @param {ExportFormat} format - The file format
+ * @param {string} name - Base file name, without extension
+ * @param {BackupContext} context - Data the highlights refer to, used by JSON backups
+ */
+export function downloadExport(
+  highlights: Highlight[],
+  format: ExportFormat,
+  name: string,
+  context: BackupContext
+): void {
+  const content =
+    format === "markdown"
+      ? exportToMarkdown(highlights)
+      : format === "json"
+        ? exportToJson(highlights, context)
+        : exportToHtml(highlights)
+  const { extension, mime } = FORMAT_FILES[format]
+
+  const url = URL.createObjectURL(new Blob([content], { type: mime }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = `${name}.${extension}`
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
@@ -0,0 +1,74 @@
+/**
+ * Checks whether the script runs in the tab's top-level document
+ *
+ * @returns {boolean} True outside of iframes
+ */
+export function isTopFrame(): boolean {
+  return window.top === window
+}
+
+/**
+ * Checks whether keyboard shortcuts pressed in the tab are meant for this
+ * frame
+ * That is the frame with keyboard focus itself, not one of its iframes.
+ * A document counts as focused while one of its iframes is, so the frame
+ * with focus is the one whose active element isn't an iframe. When no
+ * frame of the page has focus, e.g. right after switching tabs, the top
+ * frame takes the shortcut.
+ *
+ * @returns {boolean} True if this frame should run the shortcut
+ */
+export function hasShortcutFocus(): boolean {
+  if (!document.hasFocus()) return isTopFrame()
+  let active = document.activeElement
+  // Focus inside an open shadow root is reported as its host
+  while (active?.shadowRoot?.activeElement) {
+    active = active.shadowRoot.activeElement
+  }
+  return !(
+    active instanceof HTMLIFrameElement || active instanceof HTMLFrameElement
+  )
+}
+
+/**
+ * Describes where the current frame sits in the tab
+ *
+ * Each step is the frame's index among its parent's frames, from the top
+ * frame down, e.g. "1/0" for the first frame inside the page's second
+ * iframe. Windows can count and compare their parent's frames even across
+ * origins, where the iframe elements themselves can't be reached.
+ *
+ * @returns {string} The frame path, empty for the top frame
+ */
+export function getFramePath(): string {
+  const path: number[] = []
+  let current: Window = window
+  while (current !== current.parent) {
+    const parent = current.parent
+    let index = 0
+    while (index < parent.frames.length && parent.frames[index] !== current) {
+      index++
+    }
+    path.unshift(index)
+    current = parent
+  }
+  return path.join("/")
+}
+
+/**
+ * Reads the host name of the page shown in the tab
+ * Cross-origin frames can't read the top frame's location, but its origin is
+ * listed last in `location.ancestorOrigins` where the browser supports it.
+ *
+ * @returns {string} The top page's host name, or the frame's own if unknown
+ */
+export function getTopFrameHost(): string {
+  const origins = window.location.ancestorOrigins
+  const topOrigin = isTopFrame() ? null : origins?.[origins.length - 1]
+  if (!topOrigin) return window.location.hostname
+  try {
+    return new URL(topOrigin).hostname
+  } catch {
+    return window.location.hostname
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Result of an approximate substring search
+ */
+export interface FuzzyMatch {
+  /** Index in the searched text where the match starts */
+  start: number
+  /** Index in the searched text just past the end of the match */
+  end: number
+  /** Edit distance between the pattern and the matched text */
+  errors: number
+}
+
+/**
+ * Finds the end of the best approximate occurrence of a pattern
+ *
+ * Implements Sellers' dynamic programming algorithm: the classic edit
+ * distance table, except a match may start anywhere in the text at no cost.
+ * Only one table column is kept in memory.
+ *
+ * @param {string} text - The text to search in
+ * @param {string} pattern - The pattern to look for
+ * @param {number} maxErrors - Highest edit distance still accepted
+ * @returns {{ end: number; errors: number } | null} The best match end, or null if none is close enough
+ */
+function findBestEnd(
+  text: string,
+  pattern: string,
+  maxErrors: number
+): { end: number; errors: number } | null {
+  const m = pattern.length
+  // column[i] = edit distance of pattern[0..i) against the best text suffix
+  let column = new Uint32Array(m + 1)
+  let next = new Uint32Array(m + 1)
+  for (let i = 0; i <= m; i++) column[i] = i
+
+  let best: { end: number; errors: number } | null = null
+  for (let j = 1; j <= text.length; j++) {
+    next[0] = 0
+    const char = text[j - 1]
+    for (let i = 1; i <= m; i++) {
+      const cost = pattern[i - 1] === char ? 0 : 1
+      next[i] = Math.min(column[i - 1] + cost, column[i] + 1, next[i - 1] + 1)
+    }
+    // Swap the two columns instead of allocating a new one per character
+    ;[column, next] = [next, column]
+
+    if (column[m] <= maxErrors && (!best || column[m] < best.errors)) {
+      best = { end: j, errors: column[m] }
+      if (best.errors === 0) break
+    }
+  }
+  return best
+}
+
+/**
+ * Reverses a string by UTF-16 code units
+ * Matching runs on code units too, so surrogate pairs stay consistent.
+ *
+ * @param {string} value - The string to reverse
+ * @returns {string} The reversed string
+ */
+function reverse(value: string): string {
+  let result = ""
+  for (let i = value.length - 1; i >= 0; i--) result += value[i]
+  return result
+}
+
+/**
+ * Searches a text for the closest approximate occurrence of a pattern
+ *
+ * The forward pass locates where the best match ends; running the same
+ * search on the reversed text just before that point then recovers where it
+ * starts. Tolerates insertions, deletions and substitutions up to
+ * `maxErrors`.
+ *
+ * @param {string} text - The text to search in
+ * @param {string} pattern - The pattern to look for
+ * @param {number} maxErrors - Highest edit distance still accepted
+ * @returns {FuzzyMatch | null} The best match, or null if nothing is close enough
+ */
+export function fuzzySearch(
+  text: string,
+  pattern: string,
+  maxErrors: number
+): FuzzyMatch | null {
+  if (!pattern) return null
+
+  const forward = findBestEnd(text, pattern, maxErrors)
+  if (!forward) return null
+
+  // The match can't be longer than the pattern plus the allowed insertions
+  const windowStart = Math.max(0, forward.end - pattern.length - maxErrors)
+  const window = reverse(text.slice(windowStart, forward.end))
+  const backward = findBestEnd(window, reverse(pattern), forward.errors)
+  if (!backward) return null
+
+  return {
+    start: forward.end - backward.end,
+    end: forward.end,
+    errors: forward.errors
+  }
+}
@@ -0,0 +1,30 @@
+// Type definitions for highlight objects
+import type { Highlight } from "./types"
+
+/** Highlight as saved before ranges had separate start and end anchors */
+export type LegacyHighlight = Omit<Highlight, "start" | "end"> & {
+  xpath: string
+  startOffset: number
+  endOffset: number
+}
+
+/**
+ * Converts highlights saved with a single XPath and offset pair into the
+ * start/end anchor model; current highlights are returned unchanged
+ *
+ * @param {Highlight | LegacyHighlight} highlight - A stored highlight
+ * @returns {Highlight} The highlight in the current format
+ */
+export function upgradeHighlight(
+  highlight: Highlight | LegacyHighlight
+): Highlight {
+  if ("start" in highlight && highlight.start) return highlight
+
+  const { xpath, startOffset, endOffset, ...rest } =
+    highlight as LegacyHighlight
+  return {
+    ...rest,
+    start: { xpath, offset: startOffset },
+    end: { xpath, offset: endOffset }
+  }
+}
@@ -0,0 +1,192 @@
+// CSS class shared by every highlight segment
+import { HIGHLIGHT_CLASS } from "./anchoring"
+// Highlight spans may be inside open shadow roots
+import { querySelectorAllDeep } from "./shadow"
+// Type definitions for highlight objects
+import type { Highlight } from "./types"
+
+// Elements whose text must never be wrapped in highlight spans
+const SKIPPED_PARENTS = new Set([
+  "SCRIPT",
+  "STYLE",
+  "NOSCRIPT",
+  "TEXTAREA",
+  "OPTION"
+])
+
+/**
+ * Collects the text nodes that intersect a range, in document order
+ * Whitespace-only nodes (indentation between block elements) are skipped
+ * because wrapping them would inject spans into places like table rows.
+ *
+ * @param {Range} range - The range to inspect
+ * @returns {Text[]} The intersecting text nodes
+ */
+function getIntersectingTextNodes(range: Range): Text[] {
+  const root = range.commonAncestorContainer
+  if (root.nodeType === Node.TEXT_NODE) {
+    return [root as Text]
+  }
+
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) => {
+      if (!range.intersectsNode(node)) return NodeFilter.FILTER_REJECT
+      if (SKIPPED_PARENTS.has(node.parentElement?.nodeName || "")) {
+        return NodeFilter.FILTER_REJECT
+      }
+      if (!/\S/.test((node as Text).data)) return NodeFilter.FILTER_REJECT
+      return NodeFilter.FILTER_ACCEPT
+    }
+  })
+
+  const nodes: Text[] = []
+  let node: Node | null
+  while ((node = walker.nextNode())) {
+    nodes.push(node as Text)
+  }
+  return nodes
+}
+
+/**
+ * Creates the styled span used for one segment of a highlight
+ *
+ * @param {Highlight} highlight - The highlight the segment belongs to
+ * @returns {HTMLSpanElement} The wrapper span
+ */
+function createHighlightSpan(highlight: Highlight): HTMLSpanElement {
+  const span = document.createElement("span")
+  span.className = `${HIGHLIGHT_CLASS} cursor-pointer transition-opacity hover:opacity-80`
+  span.setAttribute("data-highlight-id", highlight.id)
+  span.title = highlight.note || "Click to view note"
+
+  // Apply the stored highlight color
+  span.style.backgroundColor = highlight.color || "#fef08a"
+  span.style.borderRadius = "2px"
+  span.style.padding = "1px 2px"
+  return span
+}
+
+/**
+ * Wraps every text segment of a range in highlight spans
+ *
+ * A selection may start and end in different text nodes and cross element
+ * boundaries (bold text, links, several paragraphs). Each intersecting text
+ * node is split at the range boundaries and its covered part is wrapped in
+ * its own span; all spans share one `data-highlight-id` so any segment can be
+ * used to look up the highlight.
+ *
+ * @param {Range} range - The live range to highlight
+ * @param {Highlight} highlight - The highlight object with id and style data
+ * @returns {HTMLSpanElement[]} The created spans, in document order
+ */
+export function wrapRange(
+  range: Range,
+  highlight: Highlight
+): HTMLSpanElement[] {
+  // Capture boundaries before any node is split
+  const { startContainer, startOffset, endContainer, endOffset } = range
+  const spans: HTMLSpanElement[] = []
+
+  for (const textNode of getIntersectingTextNodes(range)) {
+    const from = textNode === startContainer ? startOffset : 0
+    const to = textNode === endContainer ? endOffset : textNode.data.length
+    if (from >= to) continue
+
+    // Isolate the covered part of the text node
+    let segment = textNode
+    if (from > 0) segment = segment.splitText(from)
+    if (to - from < segment.data.length) segment.splitText(to - from)
+
+    const span = createHighlightSpan(highlight)
+    segment.parentNode?.insertBefore(span, segment)
+    span.appendChild(segment)
+    spans.push(span)
+  }
+
+  return spans
+}
+
+/**
+ * Finds the rendered segments of one highlight, or of every highlight
+ * Segments inside open shadow roots are included, in page order.
+ *
+ * @param {string} [id] - Only find the segments of this highlight
+ * @param {ParentNode} [root] - Only find segments inside this node
+ * @returns {HTMLElement[]} The highlight spans
+ */
+export function findHighlightSpans(
+  id?: string,
+  root: ParentNode = document
+): HTMLElement[] {
+  const selector = id
+    ? `.${HIGHLIGHT_CLASS}[data-highlight-id="${CSS.escape(id)}"]`
+    : `.${HIGHLIGHT_CLASS}`
+  return querySelectorAllDeep<HTMLElement>(selector, root)
+}
+
+/**
+ * Removes highlight spans from the page and restores the original text
+ * Without an id every highlight is removed.
+ *
+ * @param {string} [id] - Only remove the segments of this highlight
+ * @param {ParentNode} [root] - Only remove segments inside this node
+ */
+export function unwrapHighlights(
+  id?: string,
+  root: ParentNode = document
+): void {
+  findHighlightSpans(id, root).forEach((el) => {
+    const parent = el.parentNode
+    if (parent) {
+      while (el.firstChild) {
+        parent.insertBefore(el.firstChild, el)
+      }
+      parent.removeChild(el)
+      parent.normalize()
+    }
+  })
+}
+
+/**
+ * Finds the first rendered segment of a highlight
+ *
+ * @param {string} id - The highlight ID
+ * @returns {HTMLElement | null} The first span with this ID, if attached
+ */
+export function findHighlightElement(id: string): HTMLElement | null {
+  return findHighlightSpans(id)[0] || null
+}
+
+/**
+ * Lists the highlights rendered in the page, in document order
+ * A highlight split over several spans is listed once, at its first span.
+ *
+ * @returns {string[]} Highlight IDs from the top of the page down
+ */
+export function getRenderedHighlightIds(): string[] {
+  const ids = new Set<string>()
+  findHighlightSpans().forEach((span) => ids.add(span.dataset.highlightId))
+  return [...ids]
+}
+
+/**
+ * Briefly pulses every segment of a highlight to draw the eye to it
+ * Uses the Web Animations API so no stylesheet has to be injected into the
+ * page, and the span's own inline styles are untouched afterwards.
+ *
+ * @param {string} id - The highlight ID
+ */
+export function flashHighlight(id: string): void {
+  findHighlightSpans(id).forEach((span) => {
+    span.animate(
+      [
+        { boxShadow: "0 0 0 0 rgba(250, 204, 21, 0.9)", filter: "none" },
+        {
+          boxShadow: "0 0 0 6px rgba(250, 204, 21, 0)",
+          filter: "brightness(0.85)"
+        }
+      ],
+      { duration: 600, iterations: 3, easing: "ease-out" }
+    )
+  })
+}
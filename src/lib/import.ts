@@ -0,0 +1,656 @@
+// Identifier of our own JSON backup format
+import { EXPORT_FORMAT_ID } from "./export"
+// Converts highlights saved in the pre-range format
+import { upgradeHighlight, type LegacyHighlight } from "./highlight"
+// Palette checks for the palette entries of a backup
+import { validatePalette, type PaletteColor } from "./palette"
+// Tag clean-up shared with the tag editor
+import { normalizeTags } from "./tags"
+// Type definitions for highlight objects
+import type {
+  Collection,
+  Highlight,
+  TextAnchor,
+  TextQuoteSelector
+} from "./types"
+// Page URL normalization, for recognizing the same page across formats
+import { DEFAULT_DOMAIN_RULES, normalizeUrl, type DomainRule } from "./url"
+
+// URL schemes a highlight may belong to: web pages and Kindle books
+const IMPORTABLE_PROTOCOLS = new Set(["http:", "https:", "kindle:"])
+
+/** File formats that can be imported */
+export type ImportSource = "backup" | "kindle" | "hypothesis"
+
+/**
+ * A record that will not be imported, and why
+ */
+export interface ImportIssue {
+  /** Short text identifying the record to the user */
+  label: string
+  /** Why the record is skipped */
+  reason: string
+}
+
+/**
+ * Highlights read from an import file, before comparing with the store
+ */
+export interface ParsedImport {
+  /** Detected file format */
+  source: ImportSource
+  /** Records that passed validation */
+  highlights: Highlight[]
+  /** Records that failed validation */
+  invalid: ImportIssue[]
+  /** Collections the highlights belong to, from backups that include them */
+  collections: Collection[]
+  /** Palette entries the highlights use, from backups that include them */
+  palette: PaletteColor[]
+}
+
+/**
+ * An imported highlight whose id already exists with different content
+ */
+export interface ImportConflict {
+  /** The highlight from the import file */
+  incoming: Highlight
+  /** The highlight currently in the store */
+  existing: Highlight
+}
+
+/**
+ * What committing an import would do, shown to the user as a preview
+ */
+export interface ImportPlan {
+  /** Detected file format */
+  source: ImportSource
+  /** New highlights that will be added */
+  added: Highlight[]
+  /** Records that will be left out, including invalid ones */
+  skipped: ImportIssue[]
+  /** Records clashing with existing highlights of the same id */
+  conflicts: ImportConflict[]
+  /** Collections to merge into the user's, see {@link ParsedImport} */
+  collections: Collection[]
+  /** Palette entries to merge into the user's, see {@link ParsedImport} */
+  palette: PaletteColor[]
+}
+
+// Anchor used for imported highlights that only carry a text quote
+const EMPTY_ANCHOR: TextAnchor = { xpath: "", offset: 0 }
+
+/**
+ * Shortens a text for display in the import preview
+ *
+ * @param {string} text - The text to shorten
+ * @returns {string} At most 60 characters of the text
+ */
+function toLabel(text: string): string {
+  const clean = text.replace(/\s+/g, " ").trim()
+  return clean.length > 60 ? clean.substring(0, 60) + "..." : clean
+}
+
+/**
+ * Computes a short stable hash of a string (32-bit FNV-1a)
+ * Gives records without their own ids deterministic ones, so importing the
+ * same file twice is recognized as a duplicate.
+ *
+ * @param {string} value - The string to hash
+ * @returns {string} The hash as a hexadecimal string
+ */
+function hashString(value: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16)
+}
+
+/**
+ * Checks whether a value is a well-formed text anchor
+ *
+ * @param {unknown} value - The value to check
+ * @returns {boolean} True for `{ xpath: string, offset: number, shadowHosts?: string[] }`
+ */
+function isTextAnchor(value: unknown): value is TextAnchor {
+  const anchor = value as TextAnchor
+  return (
+    typeof anchor === "object" &&
+    anchor !== null &&
+    typeof anchor.xpath === "string" &&
+    Number.isFinite(anchor.offset) &&
+    anchor.offset >= 0 &&
+    (anchor.shadowHosts === undefined ||
+      (Array.isArray(anchor.shadowHosts) &&
+        anchor.shadowHosts.every((xpath) => typeof xpath === "string")))
+  )
+}
+
+/**
+ * Checks whether a value is a list of strings
+ *
+ * @param {unknown} value - The value to check
+ * @returns {boolean} True for arrays whose entries are all strings
+ */
+function isStringList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((entry) => typeof entry === "string")
+  )
+}
+
+/**
+ * Checks whether a URL is one highlights can belong to
+ * Imported URLs end up in links and in the HTML export, so anything else,
+ * like `javascript:` URLs, is refused.
+ *
+ * @param {string} url - The URL to check
+ * @returns {boolean} True for web pages and Kindle books
+ */
+function isImportableUrl(url: string): boolean {
+  try {
+    return IMPORTABLE_PROTOCOLS.has(new URL(url).protocol)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Validates an untrusted record against the Highlight type
+ * Highlights in the pre-range format are upgraded and tags are cleaned up
+ * like the tag editor does. Fields this version doesn't know about are
+ * kept, so backups round-trip without loss.
+ *
+ * @param {unknown} value - The record read from a file
+ * @returns {Highlight | string} The highlight, or the reason it is invalid
+ */
+export function validateHighlight(value: unknown): Highlight | string {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return "Not a highlight object"
+  }
+
+  let record = value as Highlight
+  if ("xpath" in record && !("start" in record)) {
+    const legacy = value as LegacyHighlight
+    if (
+      typeof legacy.xpath !== "string" ||
+      !Number.isFinite(legacy.startOffset) ||
+      !Number.isFinite(legacy.endOffset)
+    ) {
+      return "Invalid legacy position"
+    }
+    record = upgradeHighlight(legacy)
+  }
+
+  if (typeof record.id !== "string" || !record.id) return "Missing id"
+  if (typeof record.url !== "string" || !record.url) return "Missing URL"
+  if (!isImportableUrl(record.url)) return "Not a web page or Kindle URL"
+  if (typeof record.text !== "string" || !record.text.trim()) {
+    return "Missing highlighted text"
+  }
+  if (record.note !== undefined && typeof record.note !== "string") {
+    return "Note is not text"
+  }
+  if (!isTextAnchor(record.start) || !isTextAnchor(record.end)) {
+    return "Invalid start or end anchor"
+  }
+  if (!Number.isFinite(record.timestamp)) return "Missing timestamp"
+  if (
+    record.color !== undefined &&
+    !(typeof record.color === "string" && /^#[0-9a-f]{6}$/i.test(record.color))
+  ) {
+    return "Color is not a hex color"
+  }
+  if (record.colorId !== undefined && typeof record.colorId !== "string") {
+    return "Palette color id is not text"
+  }
+  if (record.title !== undefined && typeof record.title !== "string") {
+    return "Title is not text"
+  }
+  if (record.tags !== undefined && !isStringList(record.tags)) {
+    return "Tags are not a list of text"
+  }
+  if (record.collections !== undefined && !isStringList(record.collections)) {
+    return "Collections are not a list of ids"
+  }
+
+  const comments = record.comments
+  if (
+    comments !== undefined &&
+    (!Array.isArray(comments) ||
+      !comments.every(
+        (comment) =>
+          typeof comment?.id === "string" &&
+          typeof comment.text === "string" &&
+          Number.isFinite(comment.timestamp)
+      ))
+  ) {
+    return "Invalid comments"
+  }
+
+  const quote = record.quote
+  if (
+    quote !== undefined &&
+    (typeof quote?.exact !== "string" ||
+      typeof quote.prefix !== "string" ||
+      typeof quote.suffix !== "string")
+  ) {
+    return "Invalid text quote"
+  }
+  const position = record.position
+  if (
+    position !== undefined &&
+    (!Number.isFinite(position?.start) ||
+      !Number.isFinite(position.end) ||
+      position.start > position.end)
+  ) {
+    return "Invalid text position"
+  }
+  if (
+    record.pdfPage !== undefined &&
+    !(Number.isInteger(record.pdfPage) && record.pdfPage >= 1)
+  ) {
+    return "Invalid PDF page number"
+  }
+  if (
+    record.frame !== undefined &&
+    !(typeof record.frame === "string" && /^\d+(\/\d+)*$/.test(record.frame))
+  ) {
+    return "Invalid frame path"
+  }
+
+  return {
+    ...record,
+    note: record.note || "",
+    ...(record.tags && { tags: normalizeTags(record.tags) })
+  }
+}
+
+/**
+ * Checks whether a value is a well-formed collection
+ *
+ * @param {unknown} value - The value to check
+ * @returns {boolean} True for `{ id: string, name: string, timestamp: number }` with a name
+ */
+function isCollection(value: unknown): value is Collection {
+  const collection = value as Collection
+  return (
+    typeof collection?.id === "string" &&
+    !!collection.id &&
+    typeof collection.name === "string" &&
+    !!collection.name.trim() &&
+    Number.isFinite(collection.timestamp)
+  )
+}
+
+/**
+ * Reads highlights from our own JSON backup, or a bare array of highlights
+ * Malformed collections and palette entries are left out; highlights
+ * referring to them lose the reference when they are saved.
+ *
+ * @param {unknown[]} records - The records of the backup
+ * @param {unknown} [collections] - The backup's collections, if it has any
+ * @param {unknown} [palette] - The backup's palette entries, if it has any
+ * @returns {ParsedImport} The parsed highlights
+ */
+function parseBackup(
+  records: unknown[],
+  collections?: unknown,
+  palette?: unknown
+): ParsedImport {
+  const parsed: ParsedImport = {
+    source: "backup",
+    highlights: [],
+    invalid: [],
+    collections: Array.isArray(collections)
+      ? collections.filter(isCollection).map(({ id, name, timestamp }) => ({
+          id,
+          name: name.trim(),
+          timestamp
+        }))
+      : [],
+    palette: Array.isArray(palette)
+      ? palette
+          .filter((entry) => !validatePalette([entry]))
+          .map(({ id, label, color }: PaletteColor) => ({
+            id,
+            label: label.trim(),
+            color: color.toLowerCase()
+          }))
+      : []
+  }
+  records.forEach((record, index) => {
+    const result = validateHighlight(record)
+    if (typeof result === "string") {
+      const text = (record as Highlight)?.text
+      parsed.invalid.push({
+        label: typeof text === "string" ? toLabel(text) : `Record ${index + 1}`,
+        reason: result
+      })
+    } else {
+      parsed.highlights.push(result)
+    }
+  })
+  return parsed
+}
+
+/** The parts of a Hypothesis annotation we read */
+interface HypothesisAnnotation {
+  id?: string
+  uri?: string
+  text?: string
+  created?: string
+  document?: { title?: string[] }
+  target?: {
+    selector?: {
+      type: string
+      exact?: string
+      prefix?: string
+      suffix?: string
+      start?: number
+      end?: number
+    }[]
+  }[]
+}
+
+/**
+ * Checks whether a record looks like a Hypothesis annotation
+ *
+ * @param {unknown} value - The record to check
+ * @returns {boolean} True if it has a `uri` and a `target` list
+ */
+function isHypothesisAnnotation(value: unknown): boolean {
+  const annotation = value as HypothesisAnnotation
+  return typeof annotation?.uri === "string" && Array.isArray(annotation.target)
+}
+
+/**
+ * Reads Hypothesis-style annotations
+ * The TextQuoteSelector becomes the highlight's quote and the annotation
+ * body its note; page notes without quoted text are skipped.
+ *
+ * @param {HypothesisAnnotation[]} annotations - The annotations of the file
+ * @returns {ParsedImport} The parsed highlights
+ */
+function parseHypothesis(annotations: HypothesisAnnotation[]): ParsedImport {
+  const parsed: ParsedImport = {
+    source: "hypothesis",
+    highlights: [],
+    invalid: [],
+    collections: [],
+    palette: []
+  }
+
+  annotations.forEach((annotation, index) => {
+    const selectors = annotation.target?.[0]?.selector || []
+    const quoteSelector = selectors.find((s) => s.type === "TextQuoteSelector")
+    const positionSelector = selectors.find(
+      (s) => s.type === "TextPositionSelector"
+    )
+    const label = toLabel(annotation.text || `Annotation ${index + 1}`)
+
+    if (!quoteSelector?.exact?.trim()) {
+      parsed.invalid.push({ label, reason: "Page note without quoted text" })
+      return
+    }
+
+    const quote: TextQuoteSelector = {
+      exact: quoteSelector.exact,
+      prefix: quoteSelector.prefix || "",
+      suffix: quoteSelector.suffix || ""
+    }
+    const candidate: Highlight = {
+      id: `hypothesis-${annotation.id || hashString(annotation.uri + quote.exact)}`,
+      url: annotation.uri,
+      title: annotation.document?.title?.[0],
+      text: quote.exact.trim(),
+      note: annotation.text || "",
+      start: EMPTY_ANCHOR,
+      end: EMPTY_ANCHOR,
+      quote,
+      position:
+        Number.isFinite(positionSelector?.start) &&
+        Number.isFinite(positionSelector?.end)
+          ? { start: positionSelector.start, end: positionSelector.end }
+          : undefined,
+      timestamp: Date.parse(annotation.created || "") || Date.now()
+    }
+
+    const result = validateHighlight(candidate)
+    if (typeof result === "string") {
+      parsed.invalid.push({ label, reason: result })
+    } else {
+      parsed.highlights.push(result)
+    }
+  })
+  return parsed
+}
+
+/**
+ * Reads a Kindle "My Clippings.txt" file
+ *
+ * Entries are separated by lines of `==========` and look like:
+ *
+ *     Book Title (Author)
+ *     - Your Highlight on page 12 | Location 180-182 | Added on Monday, ...
+ *
+ *     The highlighted passage
+ *
+ * Each book becomes a `kindle://book/<title>` page. Notes are attached to the
+ * highlight of the same book whose location range contains them; bookmarks
+ * are skipped.
+ *
+ * @param {string} content - The file's text
+ * @returns {ParsedImport} The parsed highlights
+ */
+function parseKindleClippings(content: string): ParsedImport {
+  const parsed: ParsedImport = {
+    source: "kindle",
+    highlights: [],
+    invalid: [],
+    collections: [],
+    palette: []
+  }
+  // Location range of each highlight, to attach notes to
+  const locations = new Map<
+    Highlight,
+    { book: string; from: number; to: number }
+  >()
+
+  const entries = content.replace(/^\uFEFF/, "").split(/\r?\n==========\r?\n?/)
+  for (const entry of entries) {
+    const lines = entry.replace(/^\uFEFF/, "").split(/\r?\n/)
+    const book = lines[0]?.trim()
+    const meta = lines[1]?.trim() || ""
+    const text = lines.slice(2).join("\n").trim()
+    if (!book && !meta) continue
+
+    const kind = meta.match(/^- Your (Highlight|Note|Bookmark)/i)?.[1]
+    const location = meta.match(/Location (\d+)(?:-(\d+))?/i)
+    const from = Number(location?.[1] || 0)
+    const to = Number(location?.[2] || from)
+    const added = Date.parse(meta.match(/Added on (.+)$/i)?.[1] || "")
+    const label = toLabel(text || book)
+
+    if (!kind) {
+      parsed.invalid.push({ label, reason: "Unrecognized clipping" })
+      continue
+    }
+    if (kind.toLowerCase() === "bookmark") {
+      parsed.invalid.push({ label, reason: "Bookmark without text" })
+      continue
+    }
+    if (!text) {
+      parsed.invalid.push({ label, reason: "Empty clipping" })
+      continue
+    }
+
+    if (kind.toLowerCase() === "note") {
+      const target = [...locations.entries()]
+        .reverse()
+        .find(([, l]) => l.book === book && l.from <= from && from <= l.to)
+      if (!target) {
+        parsed.invalid.push({
+          label,
+          reason: "Note without a matching highlight"
+        })
+        continue
+      }
+      target[0].note = target[0].note ? `${target[0].note}\n\n${text}` : text
+      continue
+    }
+
+    const highlight: Highlight = {
+      id: `kindle-${hashString(`${book}\n${meta.split("|")[1] || ""}\n${text}`)}`,
+      url: `kindle://book/${encodeURIComponent(book)}`,
+      title: book,
+      text,
+      note: "",
+      start: EMPTY_ANCHOR,
+      end: EMPTY_ANCHOR,
+      quote: { exact: text, prefix: "", suffix: "" },
+      timestamp: added || Date.now()
+    }
+    parsed.highlights.push(highlight)
+    locations.set(highlight, { book, from, to })
+  }
+  return parsed
+}
+
+/**
+ * Detects the format of an import file and reads its highlights
+ *
+ * @param {string} fileName - Name of the chosen file
+ * @param {string} content - The file's text
+ * @returns {ParsedImport} The parsed highlights
+ * @throws {Error} If the file is in none of the supported formats
+ */
+export function parseImportFile(
+  fileName: string,
+  content: string
+): ParsedImport {
+  if (/\.txt$/i.test(fileName) || /^==========\s*$/m.test(content)) {
+    return parseKindleClippings(content)
+  }
+
+  let data: unknown
+  try {
+    data = JSON.parse(content)
+  } catch {
+    throw new Error("The file is neither JSON nor a Kindle clippings file")
+  }
+
+  const backup = data as {
+    format?: string
+    highlights?: unknown
+    collections?: unknown
+    palette?: unknown
+  }
+  if (backup?.format === EXPORT_FORMAT_ID && Array.isArray(backup.highlights)) {
+    return parseBackup(backup.highlights, backup.collections, backup.palette)
+  }
+
+  // Hypothesis API search results wrap annotations in `rows`
+  const rows = Array.isArray(data)
+    ? data
+    : Array.isArray((data as { rows?: unknown })?.rows)
+      ? (data as { rows: unknown[] }).rows
+      : null
+  if (!rows) {
+    throw new Error("No highlights found in this file")
+  }
+  return rows.some(isHypothesisAnnotation)
+    ? parseHypothesis(rows as HypothesisAnnotation[])
+    : parseBackup(rows)
+}
+
+/**
+ * Builds a key identifying the passage a highlight covers
+ * Two highlights with different ids but the same key mark the same text.
+ *
+ * @param {Highlight} highlight - The highlight
+ * @param {DomainRule[]} rules - Page identity rules
+ * @returns {string} The anchor key
+ */
+function getAnchorKey(highlight: Highlight, rules: DomainRule[]): string {
+  const exact = (highlight.quote?.exact ?? highlight.text).trim()
+  const where = highlight.position
+    ? `${highlight.position.start}`
+    : `${highlight.start.xpath}:${highlight.start.offset}`
+  return `${normalizeUrl(highlight.url, rules)}\n${highlight.frame || ""}\n${exact}\n${where}`
+}
+
+/**
+ * Checks whether two highlights with the same id carry the same content
+ *
+ * @param {Highlight} a - First highlight
+ * @param {Highlight} b - Second highlight
+ * @param {DomainRule[]} rules - Page identity rules
+ * @returns {boolean} True if text, note, comments, color, page and anchors agree
+ */
+function isSameContent(
+  a: Highlight,
+  b: Highlight,
+  rules: DomainRule[]
+): boolean {
+  return (
+    a.text === b.text &&
+    a.note === b.note &&
+    JSON.stringify(a.comments || []) === JSON.stringify(b.comments || []) &&
+    (a.color || "") === (b.color || "") &&
+    normalizeUrl(a.url, rules) === normalizeUrl(b.url, rules) &&
+    JSON.stringify([a.start, a.end]) === JSON.stringify([b.start, b.end])
+  )
+}
+
+/**
+ * Compares parsed highlights with the store to preview an import
+ *
+ * - Same id and same content: skipped as already saved
+ * - Same id, different content: a conflict for the user to resolve
+ * - Different id but same page, text and position: skipped as a duplicate
+ * - Anything else: added
+ *
+ * @param {ParsedImport} parsed - Highlights read from the file
+ * @param {Highlight[]} existing - Every highlight currently in the store
+ * @param {DomainRule[]} [rules] - Page identity rules in effect, user rules first
+ * @returns {ImportPlan} What committing the import would do
+ */
+export function planImport(
+  parsed: ParsedImport,
+  existing: Highlight[],
+  rules: DomainRule[] = DEFAULT_DOMAIN_RULES
+): ImportPlan {
+  const plan: ImportPlan = {
+    source: parsed.source,
+    added: [],
+    skipped: [...parsed.invalid],
+    conflicts: [],
+    collections: parsed.collections,
+    palette: parsed.palette
+  }
+
+  const byId = new Map(existing.map((h) => [h.id, h]))
+  const anchorKeys = new Set(existing.map((h) => getAnchorKey(h, rules)))
+
+  for (const highlight of parsed.highlights) {
+    const label = toLabel(highlight.text)
+    const current = byId.get(highlight.id)
+    const key = getAnchorKey(highlight, rules)
+
+    if (current) {
+      if (isSameContent(current, highlight, rules)) {
+        plan.skipped.push({ label, reason: "Already saved" })
+      } else {
+        plan.conflicts.push({ incoming: highlight, existing: current })
+      }
+    } else if (anchorKeys.has(key)) {
+      plan.skipped.push({ label, reason: "Same passage already highlighted" })
+    } else {
+      plan.added.push(highlight)
+      byId.set(highlight.id, highlight)
+      anchorKeys.add(key)
+    }
+  }
+  return plan
+}
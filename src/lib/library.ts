@@ -0,0 +1,126 @@
+// Palette entry type
+import type { PaletteColor } from "./palette"
+// Type definitions for highlight objects
+import type { Highlight } from "./types"
+
+/** Orders the library can list highlights in */
+export type LibrarySort = "date" | "color" | "page"
+
+/** Highlights of one page within a domain group */
+export interface LibraryPage {
+  url: string
+  title: string
+  highlights: Highlight[]
+}
+
+/** Pages of one domain, in the order their highlights were listed */
+export interface LibraryDomain {
+  domain: string
+  pages: LibraryPage[]
+}
+
+/**
+ * Returns the domain a highlight's page belongs to
+ * Non-web pages (e.g. Kindle imports) are grouped by their scheme.
+ *
+ * @param {string} url - A normalized page URL
+ * @returns {string} The host name, or the scheme for non-web URLs
+ */
+export function getDomain(url: string): string {
+  try {
+    const parsed = new URL(url)
+    return /^https?:$/.test(parsed.protocol)
+      ? parsed.hostname
+      : parsed.protocol.replace(/:$/, "")
+  } catch {
+    return url
+  }
+}
+
+/**
+ * Checks whether a highlight matches a search query
+ * Searches the highlighted text, the note and the page title,
+ * case-insensitively.
+ *
+ * @param {Highlight} highlight - The highlight to check
+ * @param {string} query - The search query
+ * @returns {boolean} True if any of them contains the query
+ */
+export function matchesQuery(highlight: Highlight, query: string): boolean {
+  const needle = query.trim().toLowerCase()
+  if (!needle) return true
+  return (
+    highlight.text.toLowerCase().includes(needle) ||
+    highlight.note.toLowerCase().includes(needle) ||
+    (highlight.title || "").toLowerCase().includes(needle)
+  )
+}
+
+/**
+ * Sorts highlights for the library; returns a new array
+ * - `date`: newest first
+ * - `color`: in palette order, newest first within a color; highlights
+ *   outside the palette come last
+ * - `page`: by domain, page title and position of creation
+ *
+ * @param {Highlight[]} highlights - The highlights to sort
+ * @param {LibrarySort} sort - The order to use
+ * @param {PaletteColor[]} [palette] - The palette, for sorting by color
+ * @returns {Highlight[]} The sorted highlights
+ */
+export function sortHighlights(
+  highlights: Highlight[],
+  sort: LibrarySort,
+  palette: PaletteColor[] = []
+): Highlight[] {
+  const byDate = (a: Highlight, b: Highlight) => b.timestamp - a.timestamp
+  const order = new Map(palette.map((entry, index) => [entry.id, index]))
+  const colorRank = (h: Highlight) => order.get(h.colorId) ?? palette.length
+  return [...highlights].sort((a, b) => {
+    if (sort === "color") {
+      return colorRank(a) - colorRank(b) || byDate(a, b)
+    }
+    if (sort === "page") {
+      return (
+        getDomain(a.url).localeCompare(getDomain(b.url)) ||
+        (a.title || a.url).localeCompare(b.title || b.url) ||
+        a.url.localeCompare(b.url) ||
+        a.timestamp - b.timestamp
+      )
+    }
+    return byDate(a, b)
+  })
+}
+
+/**
+ * Groups highlights by domain and page, keeping their order
+ * Domains and pages appear in the order of their first highlight, so the
+ * chosen sort still decides what is listed first.
+ *
+ * @param {Highlight[]} highlights - Sorted highlights
+ * @returns {LibraryDomain[]} One group per domain
+ */
+export function groupByDomain(highlights: Highlight[]): LibraryDomain[] {
+  const domains = new Map<string, LibraryDomain>()
+  const pages = new Map<string, LibraryPage>()
+
+  for (const highlight of highlights) {
+    const domainName = getDomain(highlight.url)
+    let domain = domains.get(domainName)
+    if (!domain) {
+      domain = { domain: domainName, pages: [] }
+      domains.set(domainName, domain)
+    }
+
+    let page = pages.get(highlight.url)
+    if (!page) {
+      page = { url: highlight.url, title: "", highlights: [] }
+      pages.set(highlight.url, page)
+      domain.pages.push(page)
+    }
+    page.title ||= highlight.title || ""
+    page.highlights.push(highlight)
+  }
+
+  return [...domains.values()]
+}
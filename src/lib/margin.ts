@@ -0,0 +1,44 @@
+// Width of the margin note gutter, in pixels
+export const MARGIN_WIDTH = 256
+// Vertical space kept between stacked margin notes, in pixels
+export const MARGIN_NOTE_GAP = 8
+
+/**
+ * A margin note waiting to be laid out
+ */
+export interface MarginNoteBox {
+  /** ID of the highlight the note belongs to */
+  id: string
+  /** Viewport offset of the highlight's top edge, where the note wants to be */
+  anchorTop: number
+  /** Rendered height of the note card */
+  height: number
+}
+
+/**
+ * Places margin notes as close to their highlights as they can be without
+ * overlapping
+ * Notes are laid out from the top of the page down: each one sits level
+ * with its highlight unless the note above reaches past that point, in
+ * which case it is pushed down just below it. A note is never moved above
+ * its highlight, so the order of the notes matches the order of the
+ * highlights.
+ *
+ * @param {MarginNoteBox[]} boxes - The notes, in any order
+ * @param {number} [gap] - Space to keep between notes
+ * @returns {Map<string, number>} Viewport top of each note, by highlight ID
+ */
+export function stackMarginNotes(
+  boxes: MarginNoteBox[],
+  gap = MARGIN_NOTE_GAP
+): Map<string, number> {
+  const tops = new Map<string, number>()
+  const sorted = [...boxes].sort((a, b) => a.anchorTop - b.anchorTop)
+  let bottom = -Infinity
+  sorted.forEach((box) => {
+    const top = Math.max(box.anchorTop, bottom + gap)
+    tops.set(box.id, top)
+    bottom = top + box.height
+  })
+  return tops
+}
@@ -0,0 +1,241 @@
+/**
+ * A small Markdown parser for notes and comments
+ *
+ * Notes are short, so only the common subset is supported: paragraphs,
+ * headings, bullet and numbered lists, block quotes, fenced code, inline
+ * code, bold, italics and links. The parser produces a tree of plain data
+ * that the `Markdown` component turns into React elements, so no HTML from
+ * a note ever reaches the page and nothing needs sanitizing afterwards.
+ */
+
+/**
+ * Inline content of a paragraph, heading or list item
+ */
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "strong"; children: MarkdownInline[] }
+  | { type: "em"; children: MarkdownInline[] }
+  | { type: "link"; href: string; children: MarkdownInline[] }
+  | { type: "break" }
+
+/**
+ * Block-level content of a note
+ */
+export type MarkdownBlock =
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "heading"; level: number; children: MarkdownInline[] }
+  | {
+      type: "list"
+      ordered: boolean
+      start: number
+      items: MarkdownInline[][]
+    }
+  | { type: "code"; text: string }
+  | { type: "quote"; children: MarkdownBlock[] }
+
+// URL schemes links may use; anything else (javascript:, data:, ...) is
+// shown as plain text
+const SAFE_URL_PATTERN = /^(https?:|mailto:)/i
+
+// Inline syntax, tried left to right at each position:
+// code, bold, italics, links, bare URLs and line breaks
+const INLINE_PATTERN =
+  /(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)|\*\*(\S(?:[\s\S]*?\S)?)\*\*|(?<!\w)__(\S(?:[\s\S]*?\S)?)__(?!\w)|\*(\S(?:[\s\S]*?\S)?)\*|(?<!\w)_(\S(?:[\s\S]*?\S)?)_(?!\w)|\[([^\]\n]+)\]\(\s*<?([^\s<>()]+)>?\s*\)|(https?:\/\/[^\s<>]*[^\s<>.,:;"')\]!?])|(\n)/g
+
+// Block syntax
+const FENCE_PATTERN = /^\s*(```|~~~)/
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/
+const QUOTE_PATTERN = /^\s*>\s?(.*)$/
+const LIST_PATTERN = /^\s*([-*+]|\d{1,9}[.)])\s+(.*)$/
+
+/**
+ * Checks whether a link target is safe to open
+ *
+ * @param {string} href - The link target as written
+ * @returns {boolean} True for web and mail links
+ */
+export function isSafeUrl(href: string): boolean {
+  return SAFE_URL_PATTERN.test(href.trim())
+}
+
+/**
+ * Parses inline Markdown
+ *
+ * @param {string} source - Text of a single block
+ * @returns {MarkdownInline[]} The inline content
+ */
+export function parseInline(source: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = []
+  const pushText = (text: string) => {
+    if (!text) return
+    const last = nodes[nodes.length - 1]
+    if (last?.type === "text") {
+      last.text += text
+    } else {
+      nodes.push({ type: "text", text })
+    }
+  }
+
+  const pattern = new RegExp(INLINE_PATTERN.source, "g")
+  let lastIndex = 0
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(source))) {
+    pushText(source.slice(lastIndex, match.index))
+    lastIndex = pattern.lastIndex
+    const [
+      whole,
+      ,
+      code,
+      strong,
+      strongUnderscore,
+      em,
+      emUnderscore,
+      label,
+      href,
+      url
+    ] = match
+
+    if (code !== undefined) {
+      // Like CommonMark, one space of padding lets code start with a backtick
+      nodes.push({ type: "code", text: code.replace(/^ (.*) $/, "$1") })
+    } else if (strong !== undefined || strongUnderscore !== undefined) {
+      nodes.push({
+        type: "strong",
+        children: parseInline(strong ?? strongUnderscore)
+      })
+    } else if (em !== undefined || emUnderscore !== undefined) {
+      nodes.push({ type: "em", children: parseInline(em ?? emUnderscore) })
+    } else if (label !== undefined) {
+      if (isSafeUrl(href)) {
+        nodes.push({ type: "link", href, children: parseInline(label) })
+      } else {
+        pushText(whole)
+      }
+    } else if (url !== undefined) {
+      nodes.push({
+        type: "link",
+        href: url,
+        children: [{ type: "text", text: url }]
+      })
+    } else {
+      nodes.push({ type: "break" })
+    }
+  }
+  pushText(source.slice(lastIndex))
+  return nodes
+}
+
+/**
+ * Checks whether a line starts a block other than a paragraph
+ *
+ * @param {string} line - The line to check
+ * @returns {boolean} True if the line ends a running paragraph
+ */
+function startsBlock(line: string): boolean {
+  return (
+    FENCE_PATTERN.test(line) ||
+    HEADING_PATTERN.test(line) ||
+    QUOTE_PATTERN.test(line) ||
+    LIST_PATTERN.test(line)
+  )
+}
+
+/**
+ * Parses a note or comment written in Markdown
+ *
+ * @param {string} source - The Markdown text
+ * @returns {MarkdownBlock[]} The blocks of the document
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n")
+  const blocks: MarkdownBlock[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+
+    if (!line.trim()) {
+      i++
+      continue
+    }
+
+    // Fenced code runs to the closing fence, or the end of the note
+    const fence = line.match(FENCE_PATTERN)
+    if (fence) {
+      const code: string[] = []
+      i++
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i])
+        i++
+      }
+      i++
+      blocks.push({ type: "code", text: code.join("\n") })
+      continue
+    }
+
+    const heading = line.match(HEADING_PATTERN)
+    if (heading) {
+      blocks.push({
+        type: "heading",
+        level: heading[1].length,
+        children: parseInline(heading[2])
+      })
+      i++
+      continue
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      const quoted: string[] = []
+      while (i < lines.length && QUOTE_PATTERN.test(lines[i])) {
+        quoted.push(lines[i].match(QUOTE_PATTERN)[1])
+        i++
+      }
+      blocks.push({ type: "quote", children: parseMarkdown(quoted.join("\n")) })
+      continue
+    }
+
+    const item = line.match(LIST_PATTERN)
+    if (item) {
+      const ordered = /\d/.test(item[1])
+      const items: string[] = []
+      while (i < lines.length) {
+        const next = lines[i].match(LIST_PATTERN)
+        if (next && /\d/.test(next[1]) === ordered) {
+          items.push(next[2])
+        } else if (
+          !next &&
+          items.length > 0 &&
+          lines[i].trim() &&
+          /^\s/.test(lines[i])
+        ) {
+          // Indented lines continue the previous item
+          items[items.length - 1] += "\n" + lines[i].trim()
+        } else {
+          break
+        }
+        i++
+      }
+      blocks.push({
+        type: "list",
+        ordered,
+        start: ordered ? parseInt(item[1], 10) : 1,
+        items: items.map(parseInline)
+      })
+      continue
+    }
+
+    // Paragraphs keep single line breaks, as notes are written casually
+    const paragraph: string[] = []
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) {
+      paragraph.push(lines[i].trim())
+      i++
+    }
+    blocks.push({
+      type: "paragraph",
+      children: parseInline(paragraph.join("\n"))
+    })
+  }
+
+  return blocks
+}
@@ -0,0 +1,169 @@
+// Keyboard command identifiers
+import type { CommandId } from "./commands"
+// Palette entry type
+import type { PaletteColor } from "./palette"
+// Settings type
+import type { Settings } from "./settings"
+// Per-frame highlight counts shown on the badge
+import type { HighlightCounts } from "./tabs"
+// Type definitions for highlight objects
+import type { Collection, Highlight } from "./types"
+// Page identity rule type
+import type { DomainRule } from "./url"
+
+/**
+ * Messages understood by the background service worker's highlight store
+ *
+ * The background script is the single owner of persisted highlights. Content
+ * scripts and the popup never touch storage directly; instead they send one
+ * of these messages through `chrome.runtime.sendMessage` and receive a
+ * {@link BackgroundResponse} back.
+ */
+export type StoreMessage =
+  /** Persist a brand new highlight */
+  | { type: "CREATE_HIGHLIGHT"; highlight: Highlight }
+  /** Read every highlight saved for a single page URL */
+  | { type: "GET_HIGHLIGHTS"; url: string }
+  /** Merge partial data into an existing highlight */
+  | { type: "UPDATE_HIGHLIGHT"; id: string; updates: Partial<Highlight> }
+  /** Move a highlight to the trash */
+  | { type: "DELETE_HIGHLIGHT"; id: string }
+  /** Move several highlights to the trash at once */
+  | { type: "DELETE_HIGHLIGHTS"; ids: string[] }
+  /** Read every highlight across all pages */
+  | { type: "LIST_HIGHLIGHTS" }
+  /** Import highlights found in a site's legacy localStorage bucket */
+  | { type: "MIGRATE_HIGHLIGHTS"; highlights: Highlight[] }
+  /** Save highlights from an import file, merging their collections and colors */
+  | {
+      type: "IMPORT_HIGHLIGHTS"
+      highlights: Highlight[]
+      collections: Collection[]
+      palette: PaletteColor[]
+    }
+  /** Read the user-configured page identity rules */
+  | { type: "GET_DOMAIN_RULES" }
+  /** Replace the page identity rules and re-bucket every highlight; invalid rules are rejected */
+  | { type: "SET_DOMAIN_RULES"; rules: DomainRule[] }
+  /** List every tag in use */
+  | { type: "LIST_TAGS" }
+  /** List every collection */
+  | { type: "LIST_COLLECTIONS" }
+  /** Create a collection, or return the existing one with that name */
+  | { type: "CREATE_COLLECTION"; name: string }
+  /** Rename a collection */
+  | { type: "RENAME_COLLECTION"; id: string; name: string }
+  /** Delete a collection and remove it from every highlight */
+  | { type: "DELETE_COLLECTION"; id: string }
+  /** Search every highlight, optionally only those of one page */
+  | { type: "SEARCH_HIGHLIGHTS"; query: string; url?: string; limit?: number }
+  /** Read the user's color palette */
+  | { type: "GET_PALETTE" }
+  /** Replace the color palette and recolor the highlights using it */
+  | { type: "SET_PALETTE"; palette: PaletteColor[] }
+  /** Append a comment to a highlight's thread */
+  | { type: "ADD_COMMENT"; id: string; text: string }
+  /** Replace the text of one comment */
+  | { type: "UPDATE_COMMENT"; id: string; commentId: string; text: string }
+  /** Remove one comment from a highlight's thread */
+  | { type: "DELETE_COMMENT"; id: string; commentId: string }
+  /** Undo the latest operation, on one page or anywhere */
+  | { type: "UNDO"; url?: string }
+  /** Redo the earliest undone operation, on one page or anywhere */
+  | { type: "REDO"; url?: string }
+  /** List deleted highlights still in the trash */
+  | { type: "LIST_TRASH" }
+  /** Move highlights from the trash back to their pages */
+  | { type: "RESTORE_HIGHLIGHTS"; ids: string[] }
+  /** Permanently delete highlights from the trash, or empty it */
+  | { type: "PURGE_TRASH"; ids?: string[] }
+  /** Read the user's settings */
+  | { type: "GET_SETTINGS" }
+  /** Change some of the user's settings */
+  | { type: "UPDATE_SETTINGS"; updates: Partial<Settings> }
+
+/**
+ * Messages asking the background script to act on browser tabs, or for
+ * browser state only extension pages and the background can read
+ */
+export type TabMessage =
+  /** Open a highlight's page and scroll to the highlight */
+  | { type: "OPEN_HIGHLIGHT"; id: string }
+  /** List the keyboard shortcuts assigned to the extension's commands */
+  | { type: "GET_SHORTCUTS" }
+  /** Show the sender's PDF in the bundled viewer, so it can be highlighted */
+  | { type: "OPEN_PDF_VIEWER" }
+  /** Read the URL and title of the page shown in the sender's tab */
+  | { type: "GET_TAB_PAGE" }
+  /** Read whether the user turned the highlighter on in a tab, the sender's by default */
+  | { type: "GET_TAB_ACTIVATION"; tabId?: number }
+  /** Turn the highlighter on or off in a tab, the sender's by default */
+  | { type: "SET_TAB_ACTIVATION"; activated: boolean; tabId?: number }
+  /** Report how many highlights the sending frame placed, for the badge */
+  | { type: "REPORT_HIGHLIGHT_COUNTS"; counts: HighlightCounts }
+
+/** Every message the background script responds to */
+export type BackgroundMessage = StoreMessage | TabMessage
+
+/**
+ * Envelope returned by the background script for every message
+ * `data` is only present on success, `error` only on failure.
+ */
+export interface BackgroundResponse<T = undefined> {
+  /** Whether the operation completed */
+  success: boolean
+  /** Payload of the operation, if it returns one */
+  data?: T
+  /** Human readable failure reason */
+  error?: string
+}
+
+/**
+ * Sends a message to the background script and unwraps the response
+ * Rejects when the background reports a failure or cannot be reached
+ *
+ * @param {BackgroundMessage} message - The message to send
+ * @returns {Promise<T>} The response payload
+ */
+export async function sendBackgroundMessage<T = undefined>(
+  message: BackgroundMessage
+): Promise<T> {
+  const response: BackgroundResponse<T> | undefined =
+    await chrome.runtime.sendMessage(message)
+
+  if (!response) {
+    throw new Error(`No response from background for ${message.type}`)
+  }
+  if (!response.success) {
+    throw new Error(response.error || `${message.type} failed`)
+  }
+  return response.data as T
+}
+
+/**
+ * Messages understood by the content script running in each tab
+ * Sent by the popup and background through `chrome.tabs.sendMessage`.
+ */
+export type ContentMessage =
+  /** Show or hide the highlighting toolbar, sent to every frame of the tab */
+  | { type: "SET_ACTIVATION"; activated: boolean }
+  /** Reload this page's highlights from the store and render them again */
+  | { type: "REFRESH_HIGHLIGHTS" }
+  /** Let the user pick a new location for an orphaned highlight */
+  | { type: "START_REANCHOR"; id: string }
+  /** Ask for the URL identifying the page, honoring its canonical link */
+  | { type: "GET_PAGE_URL" }
+  /** Scroll to a highlight once it has been placed on the page */
+  | { type: "SCROLL_TO_HIGHLIGHT"; id: string }
+  /**
+   * Run a keyboard command, see {@link CommandId}
+   * Shortcuts are sent to every frame of the tab with `shortcut` set, and
+   * only the frame they are meant for runs them.
+   */
+  | { type: "RUN_COMMAND"; command: CommandId; shortcut?: boolean }
+
+/**
+ * Window event dispatched by the main-world history script whenever the page
+ * changes its URL through `history.pushState` or `history.replaceState`
+ */
+export const LOCATION_CHANGE_EVENT = "text-highlighter:locationchange"
@@ -0,0 +1,100 @@
+// Type definitions for highlight objects
+import type { Highlight } from "./types"
+
+/**
+ * One entry of the user's highlight color palette
+ *
+ * Highlights reference entries by id, so the label and color can change
+ * without losing which highlights belong to the category.
+ */
+export interface PaletteColor {
+  /** Stable identifier referenced by highlights */
+  id: string
+  /** What the color means, e.g. "Definition" or "Disagree" */
+  label: string
+  /** Hex color used to render the highlight */
+  color: string
+}
+
+/**
+ * Palette used until the user edits it
+ * The ids match the colors older versions stored, see {@link findLegacyColor}.
+ */
+export const DEFAULT_PALETTE: PaletteColor[] = [
+  { id: "yellow", label: "Yellow", color: "#fef08a" },
+  { id: "green", label: "Green", color: "#bbf7d0" },
+  { id: "blue", label: "Blue", color: "#bfdbfe" },
+  { id: "pink", label: "Pink", color: "#fce7f3" },
+  { id: "orange", label: "Orange", color: "#fed7aa" },
+  { id: "purple", label: "Purple", color: "#e9d5ff" }
+]
+
+// Color of highlights that reference no palette entry and have no color
+export const FALLBACK_COLOR = "#fef08a"
+
+/**
+ * Finds a palette entry by id
+ *
+ * @param {PaletteColor[]} palette - The palette to search
+ * @param {string} [id] - The entry id
+ * @returns {PaletteColor | undefined} The entry, if it still exists
+ */
+export function findPaletteColor(
+  palette: PaletteColor[],
+  id?: string
+): PaletteColor | undefined {
+  return id ? palette.find((entry) => entry.id === id) : undefined
+}
+
+/**
+ * Finds the default palette entry for a color stored by an older version
+ * Highlights saved without a color were yellow.
+ *
+ * @param {string} [color] - The stored hex color
+ * @returns {PaletteColor | undefined} The matching default entry, if any
+ */
+export function findLegacyColor(color?: string): PaletteColor | undefined {
+  const hex = (color || FALLBACK_COLOR).toLowerCase()
+  return DEFAULT_PALETTE.find((entry) => entry.color === hex)
+}
+
+/**
+ * Returns the color a highlight is rendered with
+ * The palette entry wins over the stored hex, which is only a copy.
+ *
+ * @param {Highlight} highlight - The highlight
+ * @param {PaletteColor[]} palette - The current palette
+ * @returns {string} A hex color
+ */
+export function getHighlightColor(
+  highlight: Highlight,
+  palette: PaletteColor[]
+): string {
+  return (
+    findPaletteColor(palette, highlight.colorId)?.color ||
+    highlight.color ||
+    FALLBACK_COLOR
+  )
+}
+
+/**
+ * Checks a palette received from another context
+ *
+ * @param {unknown} palette - The palette to check
+ * @returns {string | null} Why the palette is invalid, or null if it is valid
+ */
+export function validatePalette(palette: unknown): string | null {
+  if (!Array.isArray(palette) || palette.length === 0) {
+    return "The palette needs at least one color"
+  }
+  const ids = new Set<string>()
+  for (const entry of palette as PaletteColor[]) {
+    if (!entry?.id || ids.has(entry.id)) return "Palette ids must be unique"
+    if (!entry.label?.trim()) return "Every color needs a label"
+    if (!/^#[0-9a-f]{6}$/i.test(entry.color)) {
+      return `"${entry.label}" is not a hex color`
+    }
+    ids.add(entry.id)
+  }
+  return null
+}
@@ -0,0 +1,94 @@
+// Quote and position selectors measured within one PDF page's text
+import { describeQuote, getPageText } from "./anchoring"
+// Type definitions for highlight anchors
+import type { Highlight, HighlightAnchors } from "./types"
+
+// Extension page that renders PDFs so they can be highlighted
+const PDF_VIEWER_PATH = "tabs/pdf.html"
+// Query parameter of the viewer holding the PDF's own URL
+const FILE_PARAM = "file"
+// Fragment prefix of the viewer asking it to scroll to a highlight
+const HIGHLIGHT_HASH_PREFIX = "#highlight="
+
+/**
+ * Builds the URL of the bundled PDF viewer showing a PDF
+ *
+ * @param {string} fileUrl - The PDF's own URL
+ * @param {string} [highlightId] - A highlight to scroll to once it is placed
+ * @returns {string} The viewer URL
+ */
+export function getPdfViewerUrl(fileUrl: string, highlightId?: string): string {
+  const url = new URL(chrome.runtime.getURL(PDF_VIEWER_PATH))
+  url.searchParams.set(FILE_PARAM, fileUrl)
+  if (highlightId) {
+    url.hash = `${HIGHLIGHT_HASH_PREFIX}${encodeURIComponent(highlightId)}`
+  }
+  return url.toString()
+}
+
+/**
+ * Reads which PDF a viewer URL shows
+ * Highlights made in the viewer belong to the PDF's own URL, so tabs showing
+ * the viewer are matched to their highlights through this.
+ *
+ * @param {string} url - Any tab URL
+ * @returns {string | null} The PDF's URL, or null if this isn't the viewer
+ */
+export function getPdfFileUrl(url: string): string | null {
+  if (!url.startsWith(chrome.runtime.getURL(PDF_VIEWER_PATH))) return null
+  try {
+    return new URL(url).searchParams.get(FILE_PARAM)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Reads the highlight a viewer URL fragment asks to scroll to
+ *
+ * @param {string} hash - The viewer's `location.hash`
+ * @returns {string | null} The highlight ID, or null if there is none
+ */
+export function getPdfHighlightId(hash: string): string | null {
+  if (!hash.startsWith(HIGHLIGHT_HASH_PREFIX)) return null
+  return decodeURIComponent(hash.slice(HIGHLIGHT_HASH_PREFIX.length)) || null
+}
+
+/**
+ * Describes a selection in a PDF page's text layer
+ *
+ * PDF text has no stable element structure to point at: the text layer is
+ * rebuilt at every render and differs between viewer versions. Highlights
+ * are located by page number and quote instead, with the position as
+ * offsets into the page's text; the start and end anchors repeat those
+ * offsets without an XPath.
+ *
+ * @param {Range} range - The selected range
+ * @param {HTMLElement} textLayer - The text layer of the page holding the selection
+ * @param {number} pageNumber - The page number, from 1
+ * @returns {(HighlightAnchors & Pick<Highlight, "pdfPage">) | null} The anchors, or null if the selection leaves the page
+ */
+export function describePdfRange(
+  range: Range,
+  textLayer: HTMLElement,
+  pageNumber: number
+): (HighlightAnchors & Pick<Highlight, "pdfPage">) | null {
+  if (
+    !textLayer.contains(range.startContainer) ||
+    !textLayer.contains(range.endContainer)
+  ) {
+    return null
+  }
+
+  const selectors = describeQuote(range, getPageText(textLayer))
+  if (!selectors) return null
+
+  const { quote, position } = selectors
+  return {
+    start: { xpath: "", offset: position.start },
+    end: { xpath: "", offset: position.end },
+    quote,
+    position,
+    pdfPage: pageNumber
+  }
+}
@@ -0,0 +1,509 @@
+// Palette lookup for `color:` filters
+import type { PaletteColor } from "./palette"
+// Tag matching for `tag:` filters
+import { hasTag } from "./tags"
+// Type definitions for highlight objects
+import type { Highlight } from "./types"
+
+/** Fields of a highlight that are indexed, with their ranking weight */
+const FIELD_WEIGHTS = {
+  text: 1,
+  note: 1.5,
+  tags: 2,
+  title: 0.5
+} as const
+
+/** Name of an indexed field */
+type SearchField = keyof typeof FIELD_WEIGHTS
+
+// Score multiplier for a term that only matches the start of a word
+const PREFIX_MATCH_WEIGHT = 0.5
+// Characters of context shown on each side of the first match in a snippet
+const SNIPPET_CONTEXT = 40
+
+/**
+ * A parsed search query
+ * Free text terms must all match; field filters narrow the results.
+ */
+export interface SearchQuery {
+  /** Folded terms matched against the index, by prefix */
+  terms: string[]
+  /** `tag:` filters; every tag must be present */
+  tags: string[]
+  /** `color:` filters, palette labels or ids; any may match */
+  colors: string[]
+  /** `site:` filters, domains or domain suffixes; any may match */
+  sites: string[]
+  /** `collection:` filters, collection names or ids; every one must match */
+  collections: string[]
+  /** `after:` filter, Unix timestamp of the start of that day */
+  after?: number
+  /** `before:` filter, Unix timestamp of the end of that day */
+  before?: number
+}
+
+/** Part of a snippet, flagged when it matches a query term */
+export interface SnippetPart {
+  text: string
+  match: boolean
+}
+
+/** One ranked search result */
+export interface SearchResult {
+  /** The matching highlight */
+  highlight: Highlight
+  /** Relevance score; higher is better */
+  score: number
+  /** Excerpt of the highlighted text with matches marked */
+  snippet: SnippetPart[]
+  /** Excerpt of the note or a comment with matches marked, if one matched */
+  noteSnippet?: SnippetPart[]
+}
+
+/** Context for resolving `color:` and `collection:` filters */
+export interface SearchContext {
+  /** The user's color palette */
+  palette: PaletteColor[]
+  /** Collection names by id */
+  collections: Map<string, string>
+}
+
+/**
+ * Lower-cases text and strips diacritics, so "Crème" matches "creme"
+ *
+ * @param {string} text - The text to fold
+ * @returns {string} The folded text
+ */
+export function foldText(text: string): string {
+  return text.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase()
+}
+
+/**
+ * Splits text into folded words
+ *
+ * @param {string} text - The text to tokenize
+ * @returns {string[]} The words, in order, including repeats
+ */
+export function tokenize(text: string): string[] {
+  return foldText(text).match(/[\p{L}\p{N}]+/gu) || []
+}
+
+/**
+ * Parses a date filter value such as `2024-05-01`
+ *
+ * @param {string} value - The date as typed
+ * @param {boolean} endOfDay - Whether to return the last moment of the day
+ * @returns {number | undefined} A Unix timestamp, or undefined if invalid
+ */
+function parseDate(value: string, endOfDay: boolean): number | undefined {
+  const match = /^(\d{4})-(\d{1,2})(?:-(\d{1,2}))?$/.exec(value)
+  if (!match) return undefined
+  const year = Number(match[1])
+  const month = Number(match[2]) - 1
+  // A bare month covers the whole month
+  const day = match[3] ? Number(match[3]) : endOfDay ? 0 : 1
+  const date = endOfDay
+    ? new Date(year, match[3] ? month : month + 1, day, 23, 59, 59, 999)
+    : new Date(year, month, day)
+  return isNaN(date.getTime()) ? undefined : date.getTime()
+}
+
+/**
+ * Parses a search string into terms and field filters
+ *
+ * Supported filters: `tag:`, `color:`, `site:`, `collection:`, and
+ * `after:`/`before:` with `YYYY-MM-DD` or `YYYY-MM` dates. Filter values
+ * containing spaces can be quoted, e.g. `collection:"Reading list"`.
+ *
+ * @param {string} input - The search string as typed
+ * @returns {SearchQuery} The parsed query
+ */
+export function parseQuery(input: string): SearchQuery {
+  const query: SearchQuery = {
+    terms: [],
+    tags: [],
+    colors: [],
+    sites: [],
+    collections: []
+  }
+
+  const pattern = /(\w+):(?:"([^"]*)"|(\S+))|"([^"]*)"|(\S+)/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(input))) {
+    const [, field, quotedValue, plainValue, quotedText, word] = match
+    const value = (quotedValue ?? plainValue ?? "").trim()
+
+    switch (field?.toLowerCase()) {
+      case "tag":
+        if (value) query.tags.push(value.replace(/^#/, ""))
+        continue
+      case "color":
+        if (value) query.colors.push(foldText(value))
+        continue
+      case "site":
+        if (value) query.sites.push(value.toLowerCase().replace(/^www\./, ""))
+        continue
+      case "collection":
+        if (value) query.collections.push(foldText(value))
+        continue
+      case "after":
+        query.after = parseDate(value, false) ?? query.after
+        continue
+      case "before":
+        query.before = parseDate(value, true) ?? query.before
+        continue
+    }
+
+    // Unknown fields such as "https:" are searched as plain text
+    query.terms.push(...tokenize(quotedText ?? word ?? match[0]))
+  }
+
+  return query
+}
+
+/**
+ * Checks a highlight against the field filters of a query
+ *
+ * @param {Highlight} highlight - The highlight to check
+ * @param {SearchQuery} query - The parsed query
+ * @param {SearchContext} context - Palette and collections for name lookups
+ * @returns {boolean} True if every filter is satisfied
+ */
+export function matchesFilters(
+  highlight: Highlight,
+  query: SearchQuery,
+  context: SearchContext
+): boolean {
+  if (!query.tags.every((tag) => hasTag(highlight, tag))) return false
+
+  if (query.colors.length > 0) {
+    const entry = context.palette.find((e) => e.id === highlight.colorId)
+    const names = entry ? [foldText(entry.label), entry.id] : []
+    if (!query.colors.some((color) => names.includes(color))) return false
+  }
+
+  if (query.sites.length > 0) {
+    let host = ""
+    try {
+      host = new URL(highlight.url).hostname
+    } catch {
+      return false
+    }
+    const matchesSite = query.sites.some(
+      (site) => host === site || host.endsWith(`.${site}`)
+    )
+    if (!matchesSite) return false
+  }
+
+  if (query.collections.length > 0) {
+    const names = (highlight.collections || []).flatMap((id) => [
+      id,
+      foldText(context.collections.get(id) || "")
+    ])
+    if (!query.collections.every((c) => names.includes(c))) return false
+  }
+
+  if (query.after !== undefined && highlight.timestamp < query.after) {
+    return false
+  }
+  if (query.before !== undefined && highlight.timestamp > query.before) {
+    return false
+  }
+  return true
+}
+
+/**
+ * Lists a highlight's note and comments, which are searched as its note
+ *
+ * @param {Highlight} highlight - The highlight
+ * @returns {string[]} The note, if any, followed by each comment
+ */
+function getNoteTexts(highlight: Highlight): string[] {
+  const comments = (highlight.comments || []).map((comment) => comment.text)
+  return [highlight.note, ...comments].filter(Boolean)
+}
+
+/**
+ * Builds an excerpt of a text around the first query match
+ * Matches are found on the folded text and mapped back, so the excerpt
+ * shows the original spelling and accents.
+ *
+ * @param {string} text - The original text
+ * @param {string[]} terms - Folded query terms, matched at word starts
+ * @returns {SnippetPart[] | null} The excerpt, or null if no term matches
+ */
+export function buildSnippet(
+  text: string,
+  terms: string[]
+): SnippetPart[] | null {
+  // Fold one character at a time to remember where each folded one came from
+  let folded = ""
+  const sources: number[] = []
+  for (let i = 0; i < text.length; i++) {
+    const part = foldText(text[i])
+    folded += part
+    for (let j = 0; j < part.length; j++) sources.push(i)
+  }
+  sources.push(text.length)
+
+  // Collect matches of any term at the start of a word
+  const ranges: [number, number][] = []
+  for (const term of terms) {
+    let index = folded.indexOf(term)
+    while (index !== -1) {
+      const atWordStart =
+        index === 0 || !/[\p{L}\p{N}]/u.test(folded[index - 1])
+      if (atWordStart) {
+        ranges.push([sources[index], sources[index + term.length]])
+      }
+      index = folded.indexOf(term, index + 1)
+    }
+  }
+  if (ranges.length === 0) return null
+
+  // Merge overlapping matches, in text order
+  ranges.sort((a, b) => a[0] - b[0])
+  const merged: [number, number][] = []
+  for (const range of ranges) {
+    const last = merged[merged.length - 1]
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1])
+    } else {
+      merged.push([...range])
+    }
+  }
+
+  const start = Math.max(0, merged[0][0] - SNIPPET_CONTEXT)
+  const end = Math.min(
+    text.length,
+    Math.max(merged[0][1] + SNIPPET_CONTEXT, start + SNIPPET_CONTEXT * 2)
+  )
+
+  const parts: SnippetPart[] = []
+  let cursor = start
+  for (const [from, to] of merged) {
+    if (from >= end) break
+    if (from > cursor)
+      parts.push({ text: text.slice(cursor, from), match: false })
+    parts.push({
+      text: text.slice(Math.max(from, cursor), Math.min(to, end)),
+      match: true
+    })
+    cursor = Math.min(to, end)
+  }
+  if (cursor < end) parts.push({ text: text.slice(cursor, end), match: false })
+
+  if (start > 0) parts.unshift({ text: "…", match: false })
+  if (end < text.length) parts.push({ text: "…", match: false })
+  return parts
+}
+
+/**
+ * Builds an excerpt of the start of a text, for results matched by
+ * filters or other fields only
+ *
+ * @param {string} text - The original text
+ * @returns {SnippetPart[]} The excerpt
+ */
+function leadingSnippet(text: string): SnippetPart[] {
+  const limit = SNIPPET_CONTEXT * 2
+  return [
+    {
+      text: text.length > limit ? `${text.slice(0, limit)}…` : text,
+      match: false
+    }
+  ]
+}
+
+/**
+ * SearchIndex Class
+ *
+ * An in-memory inverted index over highlight text, notes, tags and page
+ * titles. Each folded word maps to the highlights containing it, with a
+ * weighted term frequency per highlight. Highlights are added, replaced and
+ * removed individually, so the index can be kept up to date as the store
+ * changes instead of being rebuilt.
+ *
+ * Query terms match indexed words by prefix; exact word matches rank higher.
+ * Scores use TF-IDF, so rare words count for more than common ones.
+ */
+export class SearchIndex {
+  // Word -> highlight id -> weighted term frequency
+  private postings = new Map<string, Map<string, number>>()
+  // Highlight id -> words indexed for it, for removal
+  private documents = new Map<string, Set<string>>()
+  // Highlight id -> highlight, for returning results
+  private highlights = new Map<string, Highlight>()
+  // Sorted words for prefix lookups, rebuilt lazily after changes
+  private sortedWords: string[] | null = null
+
+  /** Number of indexed highlights */
+  get size(): number {
+    return this.highlights.size
+  }
+
+  /**
+   * Adds a highlight, replacing any earlier version with the same id
+   *
+   * @param {Highlight} highlight - The highlight to index
+   */
+  add(highlight: Highlight): void {
+    this.remove(highlight.id)
+
+    const fields: Record<SearchField, string> = {
+      text: highlight.text,
+      note: getNoteTexts(highlight).join("\n"),
+      tags: (highlight.tags || []).join(" "),
+      title: highlight.title || ""
+    }
+    const frequencies = new Map<string, number>()
+    for (const field of Object.keys(fields) as SearchField[]) {
+      for (const word of tokenize(fields[field])) {
+        frequencies.set(
+          word,
+          (frequencies.get(word) || 0) + FIELD_WEIGHTS[field]
+        )
+      }
+    }
+
+    for (const [word, frequency] of frequencies) {
+      let posting = this.postings.get(word)
+      if (!posting) {
+        posting = new Map()
+        this.postings.set(word, posting)
+        this.sortedWords = null
+      }
+      posting.set(highlight.id, frequency)
+    }
+    this.documents.set(highlight.id, new Set(frequencies.keys()))
+    this.highlights.set(highlight.id, highlight)
+  }
+
+  /**
+   * Removes a highlight from the index
+   *
+   * @param {string} id - The unique ID of the highlight
+   */
+  remove(id: string): void {
+    const words = this.documents.get(id)
+    if (!words) return
+
+    for (const word of words) {
+      const posting = this.postings.get(word)
+      posting?.delete(id)
+      if (posting?.size === 0) {
+        this.postings.delete(word)
+        this.sortedWords = null
+      }
+    }
+    this.documents.delete(id)
+    this.highlights.delete(id)
+  }
+
+  /**
+   * Finds indexed words starting with a prefix
+   *
+   * @param {string} prefix - A folded query term
+   * @returns {string[]} Matching words, the exact word included
+   */
+  private wordsWithPrefix(prefix: string): string[] {
+    if (!this.sortedWords) {
+      this.sortedWords = [...this.postings.keys()].sort()
+    }
+    const words = this.sortedWords
+
+    // Binary search for the first word >= prefix
+    let low = 0
+    let high = words.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (words[mid] < prefix) low = mid + 1
+      else high = mid
+    }
+
+    const matches: string[] = []
+    for (let i = low; i < words.length && words[i].startsWith(prefix); i++) {
+      matches.push(words[i])
+    }
+    return matches
+  }
+
+  /**
+   * Scores every highlight matching one query term
+   *
+   * @param {string} term - A folded query term
+   * @returns {Map<string, number>} Highlight id -> score for this term
+   */
+  private scoreTerm(term: string): Map<string, number> {
+    const scores = new Map<string, number>()
+    const total = this.highlights.size
+
+    for (const word of this.wordsWithPrefix(term)) {
+      const posting = this.postings.get(word)
+      const idf = Math.log(1 + total / posting.size)
+      const weight = word === term ? 1 : PREFIX_MATCH_WEIGHT
+      for (const [id, frequency] of posting) {
+        const score = (1 + Math.log(frequency)) * idf * weight
+        // A term counts once per highlight, via its best matching word
+        scores.set(id, Math.max(scores.get(id) || 0, score))
+      }
+    }
+    return scores
+  }
+
+  /**
+   * Runs a parsed query against the index
+   * Every term must match. Without terms, every highlight passing the
+   * filters is returned, newest first.
+   *
+   * @param {SearchQuery} query - The parsed query
+   * @param {SearchContext} context - Palette and collections for filters
+   * @param {number} [limit] - Maximum number of results
+   * @returns {SearchResult[]} Results, best first
+   */
+  search(
+    query: SearchQuery,
+    context: SearchContext,
+    limit = Infinity
+  ): SearchResult[] {
+    let scores: Map<string, number>
+    if (query.terms.length === 0) {
+      scores = new Map(
+        [...this.highlights.values()].map((h) => [h.id, h.timestamp])
+      )
+    } else {
+      const perTerm = query.terms.map((term) => this.scoreTerm(term))
+      // Start from the rarest term to keep the intersection small
+      perTerm.sort((a, b) => a.size - b.size)
+      scores = new Map()
+      for (const [id, score] of perTerm[0]) {
+        let total = score
+        for (let i = 1; i < perTerm.length && total > 0; i++) {
+          const other = perTerm[i].get(id)
+          total = other === undefined ? 0 : total + other
+        }
+        if (total > 0) scores.set(id, total)
+      }
+    }
+
+    return [...scores]
+      .map(([id, score]) => ({ highlight: this.highlights.get(id), score }))
+      .filter(({ highlight }) => matchesFilters(highlight, query, context))
+      .sort(
+        (a, b) =>
+          b.score - a.score || b.highlight.timestamp - a.highlight.timestamp
+      )
+      .slice(0, limit)
+      .map(({ highlight, score }) => ({
+        highlight,
+        score,
+        snippet:
+          buildSnippet(highlight.text, query.terms) ||
+          leadingSnippet(highlight.text),
+        noteSnippet:
+          getNoteTexts(highlight)
+            .map((text) => buildSnippet(text, query.terms))
+            .find(Boolean) || undefined
+      }))
+  }
+}
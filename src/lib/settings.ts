@@ -0,0 +1,178 @@
+// Built-in palette, whose first entry is the default color
+import { DEFAULT_PALETTE } from "./palette"
+
+/**
+ * User settings, edited on the options page
+ *
+ * Site lists hold bare domains such as "example.com"; an entry also covers
+ * every subdomain of the domain.
+ */
+export interface Settings {
+  /** Sites the highlighter is limited to; every site when empty */
+  allowedSites: string[]
+  /** Sites the highlighter never runs on, whatever the other lists say */
+  blockedSites: string[]
+  /** Sites where the toolbar is activated as soon as a page loads */
+  autoActivateSites: string[]
+  /** Shortest selection, in characters, that is turned into a highlight */
+  minSelectionLength: number
+  /** Palette entry new highlights get, also picked from the toolbar */
+  defaultColorId: string
+  /** Whether saved highlights are shown while the highlighter is off */
+  showHighlights: boolean
+}
+
+// chrome.storage.local key holding the settings
+export const SETTINGS_KEY = "highlighter_settings"
+
+// Bounds of the minimum selection length
+export const MIN_SELECTION_LENGTH_RANGE = { min: 1, max: 100 }
+
+/**
+ * Settings used until the user changes them
+ * The minimum selection length keeps stray clicks from creating highlights.
+ */
+export const DEFAULT_SETTINGS: Settings = {
+  allowedSites: [],
+  blockedSites: [],
+  autoActivateSites: [],
+  minSelectionLength: 3,
+  defaultColorId: DEFAULT_PALETTE[0].id,
+  showHighlights: true
+}
+
+// Fields holding site lists
+const SITE_LIST_FIELDS = [
+  "allowedSites",
+  "blockedSites",
+  "autoActivateSites"
+] as const
+
+/**
+ * Reduces a site typed by the user to the bare domain stored in site lists
+ * Accepts URLs, wildcard patterns and domains with a `www.` prefix, so
+ * "https://www.example.com/page" and "*.example.com" both become
+ * "example.com".
+ *
+ * @param {string} input - The site as typed
+ * @returns {string | null} The domain, or null if the input isn't one
+ */
+export function normalizeSite(input: string): string | null {
+  const trimmed = input.trim().toLowerCase().replace(/^\*\./, "")
+  if (!trimmed) return null
+
+  let host: string
+  try {
+    host = new URL(
+      /^[a-z][a-z\d+.-]*:\/\//.test(trimmed) ? trimmed : `http://${trimmed}`
+    ).hostname
+  } catch {
+    return null
+  }
+  host = host.replace(/^www\./, "")
+  return /^[a-z\d-]+(\.[a-z\d-]+)*$/.test(host) ? host : null
+}
+
+/**
+ * Checks whether a host belongs to one of the sites in a list
+ *
+ * @param {string} host - A page's host name
+ * @param {string[]} sites - Domains from a site list
+ * @returns {boolean} True if the host is one of the domains or a subdomain of one
+ */
+export function matchesSite(host: string, sites: string[]): boolean {
+  const normalized = host.toLowerCase().replace(/^www\./, "")
+  return sites.some(
+    (site) => normalized === site || normalized.endsWith(`.${site}`)
+  )
+}
+
+/**
+ * Checks whether the highlighter runs on a site
+ * Blocked sites always win; otherwise a non-empty allow list limits the
+ * highlighter to the sites on it.
+ *
+ * @param {Settings} settings - The user's settings
+ * @param {string} host - The page's host name
+ * @returns {boolean} True if highlights are shown and can be made on the site
+ */
+export function isSiteEnabled(settings: Settings, host: string): boolean {
+  if (matchesSite(host, settings.blockedSites)) return false
+  return (
+    settings.allowedSites.length === 0 ||
+    matchesSite(host, settings.allowedSites)
+  )
+}
+
+/**
+ * Checks whether the toolbar turns on by itself on a site
+ *
+ * @param {Settings} settings - The user's settings
+ * @param {string} host - The page's host name
+ * @returns {boolean} True if the site is enabled and listed for auto-activation
+ */
+export function isSiteAutoActivated(settings: Settings, host: string): boolean {
+  return (
+    isSiteEnabled(settings, host) &&
+    matchesSite(host, settings.autoActivateSites)
+  )
+}
+
+/**
+ * Checks settings received from another context
+ * Only the fields present are checked, so partial updates can be validated
+ * before they are merged.
+ *
+ * @param {unknown} settings - The settings to check
+ * @returns {string | null} Why the settings are invalid, or null if they are valid
+ */
+export function validateSettings(settings: unknown): string | null {
+  if (typeof settings !== "object" || settings === null) {
+    return "Settings must be an object"
+  }
+  const value = settings as Partial<Settings>
+
+  for (const field of SITE_LIST_FIELDS) {
+    const sites = value[field]
+    if (sites === undefined) continue
+    if (!Array.isArray(sites)) return "Site lists must be arrays"
+    const invalid = sites.find((site) => normalizeSite(site) !== site)
+    if (invalid !== undefined) return `"${invalid}" is not a domain`
+  }
+  if (
+    value.minSelectionLength !== undefined &&
+    !(
+      Number.isInteger(value.minSelectionLength) &&
+      value.minSelectionLength >= MIN_SELECTION_LENGTH_RANGE.min &&
+      value.minSelectionLength <= MIN_SELECTION_LENGTH_RANGE.max
+    )
+  ) {
+    return `The minimum selection length must be a whole number from ${MIN_SELECTION_LENGTH_RANGE.min} to ${MIN_SELECTION_LENGTH_RANGE.max}`
+  }
+  if (
+    value.defaultColorId !== undefined &&
+    (typeof value.defaultColorId !== "string" || !value.defaultColorId)
+  ) {
+    return "The default color must be a palette entry"
+  }
+  if (
+    value.showHighlights !== undefined &&
+    typeof value.showHighlights !== "boolean"
+  ) {
+    return "Showing highlights must be on or off"
+  }
+  return null
+}
+
+/**
+ * Reads stored settings, filling in defaults
+ * Settings saved by older versions lack the fields added since, and those
+ * that fail validation are ignored rather than breaking every page.
+ *
+ * @param {unknown} stored - The value read from storage
+ * @returns {Settings} Complete settings
+ */
+export function readSettings(stored: unknown): Settings {
+  if (!stored || validateSettings(stored)) return DEFAULT_SETTINGS
+  return { ...DEFAULT_SETTINGS, ...(stored as Partial<Settings>) }
+}
@@ -0,0 +1,136 @@
+// Tag of the element Plasmo mounts the extension's own UI in
+const OWN_UI_HOST = "PLASMO-CSUI"
+
+/**
+ * Selection with `getComposedRanges`, which TypeScript's DOM types don't
+ * describe yet
+ */
+type ComposedSelection = Selection & {
+  getComposedRanges?: (options: { shadowRoots: ShadowRoot[] }) => StaticRange[]
+}
+
+/**
+ * Lists the open shadow roots below a node, in document order
+ * Shadow roots nested inside other shadow roots follow their host's root.
+ * Closed shadow roots can't be reached by scripts, and the extension's own
+ * UI is skipped so its text never counts as page text.
+ *
+ * @param {Node} [root] - The node to search below
+ * @returns {ShadowRoot[]} The open shadow roots
+ */
+export function getOpenShadowRoots(root: Node = document): ShadowRoot[] {
+  const shadowRoots: ShadowRoot[] = []
+
+  /**
+   * Collects the shadow roots hosted in one tree, descending into each
+   * @param {Node} tree - A document, element or shadow root
+   */
+  const visit = (tree: Node) => {
+    const walker = document.createTreeWalker(tree, NodeFilter.SHOW_ELEMENT)
+    let element: Element | null
+    while ((element = walker.nextNode() as Element | null)) {
+      if (element.shadowRoot && element.nodeName !== OWN_UI_HOST) {
+        shadowRoots.push(element.shadowRoot)
+        visit(element.shadowRoot)
+      }
+    }
+  }
+
+  visit(root)
+  return shadowRoots
+}
+
+/**
+ * Lists a node and the shadow hosts it is nested in, outermost host first
+ *
+ * @param {Node} node - Any node
+ * @returns {Node[]} The outermost host, then each nested host, then the node
+ */
+function getHostChain(node: Node): Node[] {
+  const chain = [node]
+  let root = node.getRootNode()
+  while (root instanceof ShadowRoot) {
+    chain.unshift(root.host)
+    root = root.host.getRootNode()
+  }
+  return chain
+}
+
+/**
+ * Orders two nodes as they appear on the page, with the content of a shadow
+ * root placed where its host is
+ *
+ * @param {Node} a - First node
+ * @param {Node} b - Second node
+ * @returns {number} Negative if a comes first, positive if b does, 0 if they are the same
+ */
+function compareComposedOrder(a: Node, b: Node): number {
+  const chainA = getHostChain(a)
+  const chainB = getHostChain(b)
+  for (let i = 0; i < Math.min(chainA.length, chainB.length); i++) {
+    if (chainA[i] === chainB[i]) continue
+    // Nodes at the same depth of their chains share a tree
+    const position = chainA[i].compareDocumentPosition(chainB[i])
+    return position & Node.DOCUMENT_POSITION_FOLLOWING ||
+      position & Node.DOCUMENT_POSITION_CONTAINED_BY
+      ? -1
+      : 1
+  }
+  return chainA.length - chainB.length
+}
+
+/**
+ * Finds every element matching a selector, including inside open shadow
+ * roots, in the order they appear on the page
+ *
+ * @param {string} selector - CSS selector
+ * @param {ParentNode} [root] - The node to search below
+ * @returns {T[]} The matching elements
+ */
+export function querySelectorAllDeep<T extends Element = Element>(
+  selector: string,
+  root: ParentNode = document
+): T[] {
+  const matches = [...root.querySelectorAll<T>(selector)]
+  const shadowRoots = getOpenShadowRoots(root as Node)
+  if (shadowRoots.length === 0) return matches
+
+  const shadowMatches = shadowRoots.flatMap((shadowRoot) => [
+    ...shadowRoot.querySelectorAll<T>(selector)
+  ])
+  if (shadowMatches.length === 0) return matches
+  return [...matches, ...shadowMatches].sort(compareComposedOrder)
+}
+
+/**
+ * Reads the selected range, looking into open shadow roots
+ * `getRangeAt` reports a selection inside a shadow root as if it covered the
+ * whole host, so where the browser supports it the range is read with
+ * `getComposedRanges` instead. A selection crossing a shadow boundary can't
+ * be expressed as one range and is treated as no selection.
+ *
+ * @param {Selection | null} selection - The window's selection
+ * @returns {Range | null} The selected range, or null if nothing is selected
+ */
+export function getSelectionRange(selection: Selection | null): Range | null {
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) {
+    return null
+  }
+
+  let range = selection.getRangeAt(0)
+  const composedSelection = selection as ComposedSelection
+  if (composedSelection.getComposedRanges) {
+    const shadowRoots = getOpenShadowRoots()
+    const [composed] =
+      shadowRoots.length > 0
+        ? composedSelection.getComposedRanges({ shadowRoots })
+        : []
+    if (composed) {
+      // Boundaries in different trees collapse the range
+      range = document.createRange()
+      range.setStart(composed.startContainer, composed.startOffset)
+      range.setEnd(composed.endContainer, composed.endOffset)
+    }
+  }
+  return range.collapsed ? null : range
+}
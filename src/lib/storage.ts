@@ -1,41 +1,59 @@
+// Typed message API for talking to the background highlight store
+import { sendBackgroundMessage } from "./messages"
+// Palette entry type
+import type { PaletteColor } from "./palette"
+// Search result type
+import type { SearchResult } from "./search"
+// Settings type
+import type { Settings } from "./settings"
+// Per-frame highlight counts shown on the badge
+import type { HighlightCounts } from "./tabs"
 // Type definitions for highlight objects
-import type { Highlight } from "./types"
+import type {
+  Collection,
+  Highlight,
+  HighlightOperation,
+  TrashedHighlight
+} from "./types"
+// Page identity rule type
+import type { DomainRule } from "./url"
 
-// localStorage key for storing all highlights
-const STORAGE_KEY = "text_highlights"
+// Legacy page localStorage key that highlights used to be stored under
+const LEGACY_STORAGE_KEY = "text_highlights"
 
 /**
  * HighlightStorage Class
  *
- * A utility class providing static methods for managing highlight persistence
- * using the browser's localStorage API. This class handles all CRUD operations
- * for highlight data, ensuring data consistency and providing type safety.
+ * A utility class providing static methods for managing highlight persistence.
+ * The data itself is owned by the background service worker (see
+ * `HighlightStore`); this class is the client used by content scripts and the
+ * popup, turning each call into a typed message so every context reads and
+ * writes the same extension-wide store.
  *
- * All data is stored as JSON in localStorage under a single key for simplicity.
- * The class includes methods for saving, retrieving, updating, and deleting highlights.
+ * All methods are asynchronous because they round-trip through
+ * `chrome.runtime.sendMessage`.
  */
 export class HighlightStorage {
   /**
-   * Saves a new highlight to localStorage
-   * Appends the highlight to the existing array of highlights
+   * Saves a new highlight to the extension store
    *
    * @param {Highlight} highlight - The highlight object to save
+   * @returns {Promise<Highlight>} The saved highlight
    */
-  static save(highlight: Highlight): void {
-    const highlights = this.getAll()
-    highlights.push(highlight)
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(highlights))
+  static save(highlight: Highlight): Promise<Highlight> {
+    return sendBackgroundMessage<Highlight>({
+      type: "CREATE_HIGHLIGHT",
+      highlight
+    })
   }
 
   /**
-   * Retrieves all highlights from localStorage
-   * Returns an empty array if no highlights exist
+   * Retrieves all highlights across every page
    *
-   * @returns {Highlight[]} Array of all saved highlights
+   * @returns {Promise<Highlight[]>} Array of all saved highlights
    */
-  static getAll(): Highlight[] {
-    const data = localStorage.getItem(STORAGE_KEY)
-    return data ? JSON.parse(data) : []
+  static getAll(): Promise<Highlight[]> {
+    return sendBackgroundMessage<Highlight[]>({ type: "LIST_HIGHLIGHTS" })
   }
 
   /**
@@ -43,21 +61,105 @@ export class HighlightStorage {
    * Useful for showing only highlights relevant to the current page
    *
    * @param {string} url - The URL to filter highlights by
-   * @returns {Highlight[]} Array of highlights for the specified URL
+   * @returns {Promise<Highlight[]>} Array of highlights for the specified URL
    */
-  static getByUrl(url: string): Highlight[] {
-    return this.getAll().filter((h) => h.url === url)
+  static getByUrl(url: string): Promise<Highlight[]> {
+    return sendBackgroundMessage<Highlight[]>({ type: "GET_HIGHLIGHTS", url })
   }
 
   /**
-   * Deletes a highlight by its unique ID
-   * Removes the highlight from the array and updates localStorage
+   * Deletes a highlight by its unique ID, moving it to the trash
    *
    * @param {string} id - The unique ID of the highlight to delete
+   * @returns {Promise<boolean>} Whether a highlight was removed
    */
-  static delete(id: string): void {
-    const highlights = this.getAll().filter((h) => h.id !== id)
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(highlights))
+  static delete(id: string): Promise<boolean> {
+    return sendBackgroundMessage<boolean>({ type: "DELETE_HIGHLIGHT", id })
+  }
+
+  /**
+   * Deletes several highlights at once, moving them to the trash
+   *
+   * @param {string[]} ids - The unique IDs of the highlights to delete
+   * @returns {Promise<number>} How many highlights were removed
+   */
+  static deleteMany(ids: string[]): Promise<number> {
+    return sendBackgroundMessage<number>({ type: "DELETE_HIGHLIGHTS", ids })
+  }
+
+  /**
+   * Opens a highlight's page and scrolls to the highlight
+   * A tab already showing the page is brought to the front; otherwise the
+   * page opens in a new tab.
+   *
+   * @param {string} id - The unique ID of the highlight to open
+   * @returns {Promise<void>} Resolves once the tab has been focused or created
+   */
+  static open(id: string): Promise<void> {
+    return sendBackgroundMessage<void>({ type: "OPEN_HIGHLIGHT", id })
+  }
+
+  /**
+   * Lists the keyboard shortcuts assigned to the extension's commands
+   *
+   * @returns {Promise<Record<string, string>>} Shortcut by command ID
+   */
+  static getShortcuts(): Promise<Record<string, string>> {
+    return sendBackgroundMessage<Record<string, string>>({
+      type: "GET_SHORTCUTS"
+    })
+  }
+
+  /**
+   * Reads the page shown in the tab the caller runs in
+   * Content scripts in iframes save their highlights with this page.
+   *
+   * @returns {Promise<Pick<Highlight, "url" | "title">>} The page's URL and title
+   */
+  static getTabPage(): Promise<Pick<Highlight, "url" | "title">> {
+    return sendBackgroundMessage<Pick<Highlight, "url" | "title">>({
+      type: "GET_TAB_PAGE"
+    })
+  }
+
+  /**
+   * Reads whether the user turned the highlighter on in a tab
+   *
+   * @param {number} [tabId] - The tab, by default the one the caller runs in
+   * @returns {Promise<boolean | null>} The user's choice, or null if they haven't made one
+   */
+  static getTabActivation(tabId?: number): Promise<boolean | null> {
+    return sendBackgroundMessage<boolean | null>({
+      type: "GET_TAB_ACTIVATION",
+      tabId
+    })
+  }
+
+  /**
+   * Turns the highlighter on or off in a tab
+   * Every frame of the tab is told, so the toolbar and selections in
+   * iframes follow along.
+   *
+   * @param {boolean} activated - Whether the highlighter is on
+   * @param {number} [tabId] - The tab, by default the one the caller runs in
+   * @returns {Promise<void>} Resolves once recorded
+   */
+  static setTabActivation(activated: boolean, tabId?: number): Promise<void> {
+    return sendBackgroundMessage({
+      type: "SET_TAB_ACTIVATION",
+      activated,
+      tabId
+    })
+  }
+
+  /**
+   * Reports how many highlights the calling frame placed, for the badge
+   *
+   * @param {HighlightCounts} counts - The frame's counts
+   * @returns {Promise<void>} Resolves once the badge is updated
+   */
+  static reportHighlightCounts(counts: HighlightCounts): Promise<void> {
+    return sendBackgroundMessage({ type: "REPORT_HIGHLIGHT_COUNTS", counts })
   }
 
   /**
@@ -66,89 +168,308 @@ export class HighlightStorage {
    *
    * @param {string} id - The unique ID of the highlight to update
    * @param {Partial<Highlight>} updates - The partial data to merge with existing highlight
+   * @returns {Promise<Highlight | null>} The updated highlight, or null if it no longer exists
    */
-  static update(id: string, updates: Partial<Highlight>): void {
-    const highlights = this.getAll()
-    const index = highlights.findIndex((h) => h.id === id)
-    if (index !== -1) {
-      highlights[index] = { ...highlights[index], ...updates }
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(highlights))
-    }
+  static update(
+    id: string,
+    updates: Partial<Highlight>
+  ): Promise<Highlight | null> {
+    return sendBackgroundMessage<Highlight | null>({
+      type: "UPDATE_HIGHLIGHT",
+      id,
+      updates
+    })
   }
-}
 
-/**
- * Generates an XPath expression for a given DOM node
- *
- * XPath provides a reliable way to locate elements even after page changes.
- * This function creates a path from the root document to the target element
- * by traversing up the DOM tree and noting each element's position among siblings.
- *
- * The generated XPath format: /html[1]/body[1]/div[2]/p[1]
- * Numbers indicate the element's position among same-type siblings.
- *
- * @param {Node} element - The DOM node to generate XPath for
- * @returns {string} The XPath expression as a string
- */
-export function generateXPath(element: Node): string {
-  // Handle text nodes by getting their parent element
-  if (element.nodeType === Node.TEXT_NODE) {
-    element = element.parentNode!
-  }
-
-  // Only process element nodes
-  if (element.nodeType !== Node.ELEMENT_NODE) {
-    return ""
-  }
-
-  const xpath: string[] = []
-  let current = element as Element
-
-  // Traverse up the DOM tree to build the path
-  while (current && current.nodeType === Node.ELEMENT_NODE) {
-    let index = 1
-    let sibling = current.previousSibling
-
-    // Count same-name siblings that come before this element
-    while (sibling) {
-      if (
-        sibling.nodeType === Node.ELEMENT_NODE &&
-        sibling.nodeName === current.nodeName
-      ) {
-        index++
-      }
-      sibling = sibling.previousSibling
-    }
+  /**
+   * Appends a comment to a highlight's thread
+   *
+   * @param {string} id - The unique ID of the highlight
+   * @param {string} text - The comment, in Markdown
+   * @returns {Promise<Highlight | null>} The updated highlight, or null if it no longer exists
+   */
+  static addComment(id: string, text: string): Promise<Highlight | null> {
+    return sendBackgroundMessage<Highlight | null>({
+      type: "ADD_COMMENT",
+      id,
+      text
+    })
+  }
 
-    // Build path segment: tagname[position]
-    const tagName = current.nodeName.toLowerCase()
-    xpath.unshift(`${tagName}[${index}]`)
-    current = current.parentNode as Element
+  /**
+   * Replaces the text of one of a highlight's comments
+   *
+   * @param {string} id - The unique ID of the highlight
+   * @param {string} commentId - The unique ID of the comment
+   * @param {string} text - The new text, in Markdown
+   * @returns {Promise<Highlight | null>} The updated highlight, or null if it no longer exists
+   */
+  static updateComment(
+    id: string,
+    commentId: string,
+    text: string
+  ): Promise<Highlight | null> {
+    return sendBackgroundMessage<Highlight | null>({
+      type: "UPDATE_COMMENT",
+      id,
+      commentId,
+      text
+    })
   }
 
-  // Return complete XPath starting with root slash
-  return `/${xpath.join("/")}`
-}
+  /**
+   * Removes a comment from a highlight's thread
+   *
+   * @param {string} id - The unique ID of the highlight
+   * @param {string} commentId - The unique ID of the comment
+   * @returns {Promise<Highlight | null>} The updated highlight, or null if it no longer exists
+   */
+  static deleteComment(
+    id: string,
+    commentId: string
+  ): Promise<Highlight | null> {
+    return sendBackgroundMessage<Highlight | null>({
+      type: "DELETE_COMMENT",
+      id,
+      commentId
+    })
+  }
 
-/**
- * Retrieves a DOM element using an XPath expression
- *
- * This function uses the browser's native XPath evaluation capabilities
- * to find an element based on its XPath string. It returns the first
- * matching element or null if no element is found.
- *
- * This is particularly useful for restoring highlights after page loads
- * when we need to find previously highlighted elements.
- *
- * @param {string} xpath - The XPath expression to evaluate
- * @returns {Element | null} The matching DOM element or null if not found
- */
-export function getElementByXPath(xpath: string): Element | null {
-  return document.evaluate(
-    xpath,
-    document,
-    null,
-    XPathResult.FIRST_ORDERED_NODE_TYPE,
-    null
-  ).singleNodeValue as Element
+  /**
+   * Undoes the most recent create, update or delete
+   *
+   * @param {string} [url] - Only undo changes to this page's highlights
+   * @returns {Promise<HighlightOperation | null>} The undone operation, or null if there was nothing to undo
+   */
+  static undo(url?: string): Promise<HighlightOperation | null> {
+    return sendBackgroundMessage<HighlightOperation | null>({
+      type: "UNDO",
+      url
+    })
+  }
+
+  /**
+   * Redoes the earliest undone operation
+   *
+   * @param {string} [url] - Only redo changes to this page's highlights
+   * @returns {Promise<HighlightOperation | null>} The redone operation, or null if there was nothing to redo
+   */
+  static redo(url?: string): Promise<HighlightOperation | null> {
+    return sendBackgroundMessage<HighlightOperation | null>({
+      type: "REDO",
+      url
+    })
+  }
+
+  /**
+   * Retrieves the deleted highlights still in the trash
+   *
+   * @returns {Promise<TrashedHighlight[]>} The trash, most recently deleted first
+   */
+  static listTrash(): Promise<TrashedHighlight[]> {
+    return sendBackgroundMessage<TrashedHighlight[]>({ type: "LIST_TRASH" })
+  }
+
+  /**
+   * Moves highlights from the trash back to their pages
+   *
+   * @param {string[]} ids - The unique IDs of the highlights to restore
+   * @returns {Promise<number>} How many highlights were restored
+   */
+  static restore(ids: string[]): Promise<number> {
+    return sendBackgroundMessage<number>({ type: "RESTORE_HIGHLIGHTS", ids })
+  }
+
+  /**
+   * Permanently deletes highlights from the trash
+   *
+   * @param {string[]} [ids] - The highlights to purge; the whole trash if omitted
+   * @returns {Promise<number>} How many highlights were purged
+   */
+  static purgeTrash(ids?: string[]): Promise<number> {
+    return sendBackgroundMessage<number>({ type: "PURGE_TRASH", ids })
+  }
+
+  /**
+   * Saves highlights read from an import file
+   * Highlights with an existing id replace the stored version. Collections
+   * and palette entries from the file are merged into the user's own.
+   *
+   * @param {Highlight[]} highlights - Validated highlights to save
+   * @param {Collection[]} collections - Collections the highlights belong to
+   * @param {PaletteColor[]} palette - Palette entries the highlights use
+   * @returns {Promise<number>} How many highlights were saved
+   */
+  static import(
+    highlights: Highlight[],
+    collections: Collection[],
+    palette: PaletteColor[]
+  ): Promise<number> {
+    return sendBackgroundMessage<number>({
+      type: "IMPORT_HIGHLIGHTS",
+      highlights,
+      collections,
+      palette
+    })
+  }
+
+  /**
+   * Retrieves the user-configured page identity rules
+   *
+   * @returns {Promise<DomainRule[]>} The user's rules, without the defaults
+   */
+  static getDomainRules(): Promise<DomainRule[]> {
+    return sendBackgroundMessage<DomainRule[]>({ type: "GET_DOMAIN_RULES" })
+  }
+
+  /**
+   * Retrieves every tag in use, for autocompletion and filters
+   *
+   * @returns {Promise<string[]>} Unique tags, sorted alphabetically
+   */
+  static listTags(): Promise<string[]> {
+    return sendBackgroundMessage<string[]>({ type: "LIST_TAGS" })
+  }
+
+  /**
+   * Retrieves every collection, in creation order
+   *
+   * @returns {Promise<Collection[]>} The user's collections
+   */
+  static listCollections(): Promise<Collection[]> {
+    return sendBackgroundMessage<Collection[]>({ type: "LIST_COLLECTIONS" })
+  }
+
+  /**
+   * Creates a collection, or returns the existing one with the same name
+   *
+   * @param {string} name - Display name of the collection
+   * @returns {Promise<Collection>} The new or existing collection
+   */
+  static createCollection(name: string): Promise<Collection> {
+    return sendBackgroundMessage<Collection>({
+      type: "CREATE_COLLECTION",
+      name
+    })
+  }
+
+  /**
+   * Renames a collection
+   *
+   * @param {string} id - The unique ID of the collection
+   * @param {string} name - The new display name
+   * @returns {Promise<Collection | null>} The renamed collection, or null if missing
+   */
+  static renameCollection(
+    id: string,
+    name: string
+  ): Promise<Collection | null> {
+    return sendBackgroundMessage<Collection | null>({
+      type: "RENAME_COLLECTION",
+      id,
+      name
+    })
+  }
+
+  /**
+   * Deletes a collection and removes it from every highlight
+   *
+   * @param {string} id - The unique ID of the collection
+   * @returns {Promise<boolean>} Whether a collection was removed
+   */
+  static deleteCollection(id: string): Promise<boolean> {
+    return sendBackgroundMessage<boolean>({ type: "DELETE_COLLECTION", id })
+  }
+
+  /**
+   * Searches every highlight, ranked by relevance
+   * Supports prefix matching and `tag:`, `color:`, `site:`, `collection:`,
+   * `after:` and `before:` filters.
+   *
+   * @param {string} query - The search string as typed
+   * @param {string} [url] - Only search highlights of this page
+   * @param {number} [limit] - Maximum number of results
+   * @returns {Promise<SearchResult[]>} Results with match snippets, best first
+   */
+  static search(
+    query: string,
+    url?: string,
+    limit?: number
+  ): Promise<SearchResult[]> {
+    return sendBackgroundMessage<SearchResult[]>({
+      type: "SEARCH_HIGHLIGHTS",
+      query,
+      url,
+      limit
+    })
+  }
+
+  /**
+   * Reads the user's color palette
+   *
+   * @returns {Promise<PaletteColor[]>} The palette, in display order
+   */
+  static getPalette(): Promise<PaletteColor[]> {
+    return sendBackgroundMessage<PaletteColor[]>({ type: "GET_PALETTE" })
+  }
+
+  /**
+   * Replaces the color palette; highlights using an entry are recolored
+   *
+   * @param {PaletteColor[]} palette - The new palette, in display order
+   * @returns {Promise<number>} How many highlights changed
+   */
+  static setPalette(palette: PaletteColor[]): Promise<number> {
+    return sendBackgroundMessage<number>({ type: "SET_PALETTE", palette })
+  }
+
+  /**
+   * Reads the user's settings
+   *
+   * @returns {Promise<Settings>} The settings, with defaults for anything not set
+   */
+  static getSettings(): Promise<Settings> {
+    return sendBackgroundMessage<Settings>({ type: "GET_SETTINGS" })
+  }
+
+  /**
+   * Changes some of the user's settings
+   *
+   * @param {Partial<Settings>} updates - The settings to change
+   * @returns {Promise<Settings>} The settings after the change
+   */
+  static updateSettings(updates: Partial<Settings>): Promise<Settings> {
+    return sendBackgroundMessage<Settings>({ type: "UPDATE_SETTINGS", updates })
+  }
+
+  /**
+   * Moves highlights saved by older versions in the current site's
+   * `localStorage` into the extension store
+   * Must be called from a content script, where `localStorage` is the
+   * website's own origin storage. The legacy key is only removed once the
+   * background confirms the import, so a failed migration is retried on the
+   * next page load.
+   *
+   * @returns {Promise<number>} How many highlights were imported
+   */
+  static async migrateLegacy(): Promise<number> {
+    const data = localStorage.getItem(LEGACY_STORAGE_KEY)
+    if (!data) return 0
+
+    let highlights: Highlight[]
+    try {
+      highlights = JSON.parse(data)
+    } catch {
+      // The key may belong to the site itself; leave it alone
+      return 0
+    }
+    if (!Array.isArray(highlights)) return 0
+
+    const added = await sendBackgroundMessage<number>({
+      type: "MIGRATE_HIGHLIGHTS",
+      highlights
+    })
+    localStorage.removeItem(LEGACY_STORAGE_KEY)
+    return added
+  }
 }
@@ -0,0 +1,1131 @@
+// Converts highlights saved in the pre-range format
+import { upgradeHighlight } from "./highlight"
+// Default palette and palette checks
+import {
+  DEFAULT_PALETTE,
+  findLegacyColor,
+  validatePalette,
+  type PaletteColor
+} from "./palette"
+// Inverted index for full-text search
+import { parseQuery, SearchIndex, type SearchResult } from "./search"
+// Settings schema, defaults and checks
+import {
+  readSettings,
+  SETTINGS_KEY,
+  validateSettings,
+  type Settings
+} from "./settings"
+// Tag clean-up shared with the tag editor
+import { collectTags, normalizeTags } from "./tags"
+// Type definitions for highlight objects
+import type {
+  Collection,
+  Highlight,
+  HighlightChange,
+  HighlightComment,
+  HighlightOperation,
+  TrashedHighlight
+} from "./types"
+// Page identity rules used to bucket highlights by URL
+import {
+  DEFAULT_DOMAIN_RULES,
+  normalizeUrl,
+  validateDomainRules,
+  type DomainRule
+} from "./url"
+
+// chrome.storage.local key holding every highlight, indexed by id
+const STORE_KEY = "text_highlights"
+// chrome.storage.local key holding the user's collections
+const COLLECTIONS_KEY = "highlight_collections"
+// chrome.storage.local key holding the user's color palette
+const PALETTE_KEY = "color_palette"
+// chrome.storage.local key recording whether highlights reference palette ids
+const PALETTE_VERSION_KEY = "color_palette_version"
+// Bump whenever stored colors need to be mapped to palette entries again
+const PALETTE_VERSION = 1
+// chrome.storage.local key holding user-configured page identity rules
+const DOMAIN_RULES_KEY = "page_identity_rules"
+// chrome.storage.local key recording which URL normalization the stored URLs use
+const URL_VERSION_KEY = "url_normalization_version"
+// Bump whenever normalizeUrl changes in a way that alters existing keys
+const URL_VERSION = 1
+// chrome.storage.local key holding the operation log used by undo and redo
+const OPERATIONS_KEY = "highlight_operations"
+// Number of operations kept; older ones can no longer be undone
+const MAX_OPERATIONS = 100
+// chrome.storage.local key holding deleted highlights until they are purged
+const TRASH_KEY = "highlight_trash"
+// How long deleted highlights stay in the trash
+export const TRASH_RETENTION_DAYS = 30
+// Fields the extension maintains on its own, whose changes can't be undone
+const UNTRACKED_FIELDS = new Set<string>(["orphaned"])
+
+/** Shape of the persisted record: highlight id -> highlight */
+type HighlightRecord = Record<string, Highlight>
+
+/** Shape of the persisted trash: highlight id -> deleted highlight */
+type TrashRecord = Record<string, TrashedHighlight>
+
+/**
+ * Checks whether a highlight changed in a way the user can undo
+ * Bookkeeping such as flagging highlights that couldn't be placed is left
+ * out of the operation log.
+ *
+ * @param {Highlight} before - The highlight before the write
+ * @param {Highlight} after - The highlight after the write
+ * @returns {boolean} True if a field other than the untracked ones changed
+ */
+function isTrackedChange(before: Highlight, after: Highlight): boolean {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+  for (const key of keys) {
+    if (UNTRACKED_FIELDS.has(key)) continue
+    const a = before[key as keyof Highlight]
+    const b = after[key as keyof Highlight]
+    if (JSON.stringify(a) !== JSON.stringify(b)) return true
+  }
+  return false
+}
+
+/**
+ * Lists the highlights a write created, changed or deleted
+ *
+ * @param {HighlightRecord} before - The record before the write
+ * @param {HighlightRecord} after - The record after the write
+ * @returns {HighlightChange[]} One entry per touched highlight
+ */
+function diffRecords(
+  before: HighlightRecord,
+  after: HighlightRecord
+): HighlightChange[] {
+  const changes: HighlightChange[] = []
+  for (const id in before) {
+    if (!(id in after)) changes.push({ before: before[id], after: null })
+  }
+  for (const id in after) {
+    if (!(id in before)) {
+      changes.push({ before: null, after: after[id] })
+    } else if (
+      before[id] !== after[id] &&
+      isTrackedChange(before[id], after[id])
+    ) {
+      changes.push({ before: before[id], after: after[id] })
+    }
+  }
+  return changes
+}
+
+/**
+ * Drops trash entries older than {@link TRASH_RETENTION_DAYS}
+ *
+ * @param {TrashRecord} trash - The trash, edited in place
+ * @returns {number} How many entries were dropped
+ */
+function dropExpired(trash: TrashRecord): number {
+  const cutoff = Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+  let dropped = 0
+  for (const id in trash) {
+    if (trash[id].deletedAt < cutoff) {
+      delete trash[id]
+      dropped++
+    }
+  }
+  return dropped
+}
+
+/**
+ * HighlightStore Class
+ *
+ * Background-only persistence layer for highlights, backed by
+ * `chrome.storage.local`. Unlike page `localStorage` this storage belongs to
+ * the extension itself, so the content script on every site and the popup
+ * all read and write the same data, and a site clearing its own storage can
+ * no longer wipe our notes.
+ *
+ * Writes are serialized through a promise queue so that concurrent messages
+ * from several tabs can't overwrite each other's read-modify-write cycles.
+ */
+export class HighlightStore {
+  // Tail of the pending write queue
+  private static queue: Promise<unknown> = Promise.resolve()
+  // User rules followed by the defaults, loaded on first use
+  private static rules: DomainRule[] | null = null
+  // Full-text index over every highlight, built on the first search
+  private static index: SearchIndex | null = null
+
+  /**
+   * Reads the whole highlight record from extension storage
+   *
+   * @returns {Promise<HighlightRecord>} All highlights keyed by id
+   */
+  private static async read(): Promise<HighlightRecord> {
+    const result = await chrome.storage.local.get(STORE_KEY)
+    const record = (result[STORE_KEY] as HighlightRecord) || {}
+    for (const id in record) {
+      record[id] = upgradeHighlight(record[id])
+    }
+    return record
+  }
+
+  /**
+   * Runs a read-modify-write cycle after all previously queued ones finish
+   * `mutate` must replace changed highlights with new objects rather than
+   * editing them, so the search index and operation log can tell which ones
+   * changed.
+   *
+   * @param {(record: HighlightRecord) => T} mutate - Mutates the record in place
+   * @param {boolean} [track] - Record the write as an undoable operation
+   * @param {Record<string, unknown>} [extra] - Other keys saved in the same storage write
+   * @returns {Promise<T>} Whatever `mutate` returns
+   */
+  private static write<T>(
+    mutate: (record: HighlightRecord) => T,
+    track = false,
+    extra: Record<string, unknown> = {}
+  ): Promise<T> {
+    return this.enqueue(() => this.commit(mutate, track, extra))
+  }
+
+  /**
+   * Runs a read-modify-write cycle right away
+   * Only for tasks already running in the write queue, which need to read
+   * something else before writing; everything else goes through
+   * {@link write}, which takes the same arguments.
+   *
+   * @param {(record: HighlightRecord) => T} mutate - Mutates the record in place
+   * @param {boolean} track - Record the write as an undoable operation
+   * @param {Record<string, unknown>} extra - Other keys saved in the same storage write
+   * @returns {Promise<T>} Whatever `mutate` returns
+   */
+  private static async commit<T>(
+    mutate: (record: HighlightRecord) => T,
+    track: boolean,
+    extra: Record<string, unknown>
+  ): Promise<T> {
+    const record = await this.read()
+    const before = { ...record }
+    const result = mutate(record)
+    const changes = track ? diffRecords(before, record) : []
+    await chrome.storage.local.set({
+      ...extra,
+      [STORE_KEY]: record,
+      ...(changes.length > 0 ? await this.recordOperation(changes) : {})
+    })
+    this.updateIndex(before, record)
+    return result
+  }
+
+  /**
+   * Reads the operation log and the trash
+   *
+   * @returns {Promise<{ operations: HighlightOperation[]; trash: TrashRecord }>} Both, empty if never written
+   */
+  private static async readHistory(): Promise<{
+    operations: HighlightOperation[]
+    trash: TrashRecord
+  }> {
+    const result = await chrome.storage.local.get([OPERATIONS_KEY, TRASH_KEY])
+    return {
+      operations: (result[OPERATIONS_KEY] as HighlightOperation[]) || [],
+      trash: (result[TRASH_KEY] as TrashRecord) || {}
+    }
+  }
+
+  /**
+   * Appends a tracked write to the operation log and moves the highlights it
+   * deleted to the trash
+   * A new operation discards whatever was undone on the same pages, since it
+   * can no longer be redone on top of it.
+   *
+   * @param {HighlightChange[]} changes - What the write changed
+   * @returns {Promise<Record<string, unknown>>} Storage items to save with the write
+   */
+  private static async recordOperation(
+    changes: HighlightChange[]
+  ): Promise<Record<string, unknown>> {
+    const { operations, trash } = await this.readHistory()
+    const urls = [...new Set(changes.map((c) => (c.after || c.before).url))]
+    const [first] = changes
+    const kept = operations.filter(
+      (op) => !op.undone || !op.urls.some((url) => urls.includes(url))
+    )
+    kept.push({
+      id: Math.random().toString(36).slice(2, 11),
+      type: !first.before ? "create" : !first.after ? "delete" : "update",
+      changes,
+      urls,
+      timestamp: Date.now()
+    })
+
+    for (const change of changes) {
+      if (!change.after) {
+        trash[change.before.id] = {
+          highlight: change.before,
+          deletedAt: Date.now()
+        }
+      }
+    }
+    return {
+      [OPERATIONS_KEY]: kept.slice(-MAX_OPERATIONS),
+      [TRASH_KEY]: trash
+    }
+  }
+
+  /**
+   * Undoes or redoes the latest applicable operation
+   * Undo takes the most recent operation that is still applied; redo takes
+   * the earliest undone one, so repeated redos replay them in order.
+   *
+   * @param {"undo" | "redo"} direction - Which way to move through the log
+   * @param {string} [url] - Only consider operations on this page
+   * @returns {Promise<HighlightOperation | null>} The operation, or null if there was none
+   */
+  private static async travel(
+    direction: "undo" | "redo",
+    url?: string
+  ): Promise<HighlightOperation | null> {
+    const scope = url && (await this.normalize(url))
+    return this.enqueue(async () => {
+      const { operations, trash } = await this.readHistory()
+      const candidates = operations
+        .map((op, index) => ({ op, index }))
+        .filter(
+          ({ op }) =>
+            Boolean(op.undone) === (direction === "redo") &&
+            (!scope || op.urls.includes(scope))
+        )
+      const candidate =
+        direction === "undo" ? candidates[candidates.length - 1] : candidates[0]
+      if (!candidate) return null
+
+      const record = await this.read()
+      const before = { ...record }
+      const changes =
+        direction === "undo"
+          ? [...candidate.op.changes].reverse()
+          : candidate.op.changes
+      for (const change of changes) {
+        const id = (change.before || change.after).id
+        const target = direction === "undo" ? change.before : change.after
+        if (target) {
+          record[id] = target
+          delete trash[id]
+        } else {
+          delete record[id]
+          // Redoing a delete puts the highlight back in the trash
+          if (direction === "redo") {
+            trash[id] = { highlight: change.before, deletedAt: Date.now() }
+          }
+        }
+      }
+
+      const operation = { ...candidate.op, undone: direction === "undo" }
+      operations[candidate.index] = operation
+      await chrome.storage.local.set({
+        [STORE_KEY]: record,
+        [OPERATIONS_KEY]: operations,
+        [TRASH_KEY]: trash
+      })
+      this.updateIndex(before, record)
+      return operation
+    })
+  }
+
+  /**
+   * Runs a read-modify-write cycle on the trash
+   *
+   * @param {(trash: TrashRecord) => T} mutate - Mutates the trash in place
+   * @returns {Promise<T>} Whatever `mutate` returns
+   */
+  private static writeTrash<T>(mutate: (trash: TrashRecord) => T): Promise<T> {
+    return this.enqueue(async () => {
+      const { trash } = await this.readHistory()
+      const value = mutate(trash)
+      await chrome.storage.local.set({ [TRASH_KEY]: trash })
+      return value
+    })
+  }
+
+  /**
+   * Applies the changes of one write to the search index, if it is built
+   *
+   * @param {HighlightRecord} before - The record before the write
+   * @param {HighlightRecord} after - The record after the write
+   */
+  private static updateIndex(
+    before: HighlightRecord,
+    after: HighlightRecord
+  ): void {
+    if (!this.index) return
+    for (const id in before) {
+      if (!(id in after)) this.index.remove(id)
+    }
+    for (const id in after) {
+      if (before[id] !== after[id]) this.index.add(after[id])
+    }
+  }
+
+  /**
+   * Runs a storage task after all previously queued ones finish
+   *
+   * @param {() => Promise<T>} task - The task to run
+   * @returns {Promise<T>} Whatever `task` resolves to
+   */
+  private static enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(task)
+    // Keep the queue alive even if this task fails
+    this.queue = next.catch(() => undefined)
+    return next
+  }
+
+  /**
+   * Runs a read-modify-write cycle on the collection list
+   *
+   * @param {(collections: Collection[]) => T} mutate - Mutates the list in place
+   * @returns {Promise<T>} Whatever `mutate` returns
+   */
+  private static writeCollections<T>(
+    mutate: (collections: Collection[]) => T
+  ): Promise<T> {
+    return this.enqueue(async () => {
+      const result = await chrome.storage.local.get(COLLECTIONS_KEY)
+      const collections = (result[COLLECTIONS_KEY] as Collection[]) || []
+      const value = mutate(collections)
+      await chrome.storage.local.set({ [COLLECTIONS_KEY]: collections })
+      return value
+    })
+  }
+
+  /**
+   * Replaces a highlight's comment thread in a single write
+   * Comments are changed one at a time inside the write queue, so two tabs
+   * commenting at once both keep their comment.
+   *
+   * @param {string} id - The unique ID of the highlight
+   * @param {(comments: HighlightComment[]) => HighlightComment[]} change - Builds the new thread from the stored one
+   * @returns {Promise<Highlight | null>} The updated highlight, or null if it doesn't exist
+   */
+  private static editComments(
+    id: string,
+    change: (comments: HighlightComment[]) => HighlightComment[]
+  ): Promise<Highlight | null> {
+    return this.write((record) => {
+      if (!record[id]) return null
+      record[id] = {
+        ...record[id],
+        comments: change(record[id].comments || [])
+      }
+      return record[id]
+    }, true)
+  }
+
+  /**
+   * Returns the page identity rules in effect, user rules first
+   *
+   * @returns {Promise<DomainRule[]>} Rules to pass to normalizeUrl
+   */
+  private static async getRules(): Promise<DomainRule[]> {
+    if (!this.rules) {
+      this.rules = [...(await this.getDomainRules()), ...DEFAULT_DOMAIN_RULES]
+    }
+    return this.rules
+  }
+
+  /**
+   * Normalizes a page URL into the key its highlights are stored under
+   *
+   * @param {string} url - The raw page URL
+   * @returns {Promise<string>} The normalized URL
+   */
+  static async normalize(url: string): Promise<string> {
+    return normalizeUrl(url, await this.getRules())
+  }
+
+  /**
+   * Saves a new highlight, replacing any existing one with the same id
+   * The highlight's URL is normalized so it shares a bucket with every other
+   * URL variant of the same page.
+   *
+   * @param {Highlight} highlight - The highlight object to save
+   * @returns {Promise<Highlight>} The saved highlight
+   */
+  static async create(highlight: Highlight): Promise<Highlight> {
+    const saved = { ...highlight, url: await this.normalize(highlight.url) }
+    return this.write((record) => {
+      record[saved.id] = saved
+      return saved
+    }, true)
+  }
+
+  /**
+   * Retrieves all highlights across every page
+   *
+   * @returns {Promise<Highlight[]>} Array of all saved highlights
+   */
+  static async list(): Promise<Highlight[]> {
+    await this.queue
+    return Object.values(await this.read())
+  }
+
+  /**
+   * Retrieves a single highlight by its unique ID
+   *
+   * @param {string} id - The unique ID of the highlight
+   * @returns {Promise<Highlight | null>} The highlight, or null if missing
+   */
+  static async get(id: string): Promise<Highlight | null> {
+    await this.queue
+    return (await this.read())[id] || null
+  }
+
+  /**
+   * Retrieves highlights saved for a single page URL
+   *
+   * @param {string} url - The URL to filter highlights by
+   * @returns {Promise<Highlight[]>} Highlights for the specified URL
+   */
+  static async getByUrl(url: string): Promise<Highlight[]> {
+    const key = await this.normalize(url)
+    return (await this.list()).filter((h) => h.url === key)
+  }
+
+  /**
+   * Merges partial data into an existing highlight
+   *
+   * @param {string} id - The unique ID of the highlight to update
+   * @param {Partial<Highlight>} updates - The partial data to merge
+   * @returns {Promise<Highlight | null>} The updated highlight, or null if missing
+   */
+  static async update(
+    id: string,
+    updates: Partial<Highlight>
+  ): Promise<Highlight | null> {
+    if (updates.url) {
+      updates = { ...updates, url: await this.normalize(updates.url) }
+    }
+    if (updates.tags) {
+      updates = { ...updates, tags: normalizeTags(updates.tags) }
+    }
+    return this.write((record) => {
+      if (!record[id]) return null
+      record[id] = { ...record[id], ...updates, id }
+      return record[id]
+    }, true)
+  }
+
+  /**
+   * Deletes a highlight by its unique ID, moving it to the trash
+   *
+   * @param {string} id - The unique ID of the highlight to delete
+   * @returns {Promise<boolean>} Whether a highlight was removed
+   */
+  static delete(id: string): Promise<boolean> {
+    return this.write((record) => {
+      const existed = id in record
+      delete record[id]
+      return existed
+    }, true)
+  }
+
+  /**
+   * Deletes several highlights in a single write, moving them to the trash
+   * They are undone together, as one operation.
+   *
+   * @param {string[]} ids - The unique IDs of the highlights to delete
+   * @returns {Promise<number>} How many highlights were removed
+   */
+  static deleteMany(ids: string[]): Promise<number> {
+    return this.write((record) => {
+      let removed = 0
+      for (const id of ids) {
+        if (!(id in record)) continue
+        delete record[id]
+        removed++
+      }
+      return removed
+    }, true)
+  }
+
+  /**
+   * Appends a comment to a highlight's thread
+   *
+   * @param {string} id - The unique ID of the highlight
+   * @param {string} text - The comment, in Markdown
+   * @returns {Promise<Highlight | null>} The updated highlight, or null if it doesn't exist
+   */
+  static addComment(id: string, text: string): Promise<Highlight | null> {
+    if (!text.trim()) return Promise.reject(new Error("Comment is empty"))
+    const comment: HighlightComment = {
+      id: Math.random().toString(36).slice(2, 11),
+      text: text.trim(),
+      timestamp: Date.now()
+    }
+    return this.editComments(id, (comments) => [...comments, comment])
+  }
+
+  /**
+   * Replaces the text of a comment, recording when it was edited
+   *
+   * @param {string} id - The unique ID of the highlight
+   * @param {string} commentId - The unique ID of the comment
+   * @param {string} text - The new text, in Markdown
+   * @returns {Promise<Highlight | null>} The updated highlight, or null if it doesn't exist
+   */
+  static updateComment(
+    id: string,
+    commentId: string,
+    text: string
+  ): Promise<Highlight | null> {
+    if (!text.trim()) return Promise.reject(new Error("Comment is empty"))
+    return this.editComments(id, (comments) =>
+      comments.map((c) =>
+        c.id === commentId ? { ...c, text: text.trim(), edited: Date.now() } : c
+      )
+    )
+  }
+
+  /**
+   * Removes a comment from a highlight's thread
+   *
+   * @param {string} id - The unique ID of the highlight
+   * @param {string} commentId - The unique ID of the comment
+   * @returns {Promise<Highlight | null>} The updated highlight, or null if it doesn't exist
+   */
+  static deleteComment(
+    id: string,
+    commentId: string
+  ): Promise<Highlight | null> {
+    return this.editComments(id, (comments) =>
+      comments.filter((c) => c.id !== commentId)
+    )
+  }
+
+  /**
+   * Undoes the most recent operation that hasn't been undone
+   *
+   * @param {string} [url] - Only undo operations on this page
+   * @returns {Promise<HighlightOperation | null>} The undone operation, or null if there was none
+   */
+  static undo(url?: string): Promise<HighlightOperation | null> {
+    return this.travel("undo", url)
+  }
+
+  /**
+   * Redoes the earliest operation that was undone and not since replaced
+   *
+   * @param {string} [url] - Only redo operations on this page
+   * @returns {Promise<HighlightOperation | null>} The redone operation, or null if there was none
+   */
+  static redo(url?: string): Promise<HighlightOperation | null> {
+    return this.travel("redo", url)
+  }
+
+  /**
+   * Lists the deleted highlights still in the trash, most recent first
+   * Entries past the retention period are purged first.
+   *
+   * @returns {Promise<TrashedHighlight[]>} The trash
+   */
+  static listTrash(): Promise<TrashedHighlight[]> {
+    return this.writeTrash((trash) => {
+      dropExpired(trash)
+      return Object.values(trash).sort((a, b) => b.deletedAt - a.deletedAt)
+    })
+  }
+
+  /**
+   * Moves highlights from the trash back to their pages
+   *
+   * @param {string[]} ids - The unique IDs of the highlights to restore
+   * @returns {Promise<number>} How many highlights were restored
+   */
+  static restore(ids: string[]): Promise<number> {
+    return this.enqueue(async () => {
+      const { trash } = await this.readHistory()
+      const record = await this.read()
+      const before = { ...record }
+      let restored = 0
+      for (const id of ids) {
+        if (!trash[id]) continue
+        record[id] = trash[id].highlight
+        delete trash[id]
+        restored++
+      }
+      await chrome.storage.local.set({
+        [STORE_KEY]: record,
+        [TRASH_KEY]: trash
+      })
+      this.updateIndex(before, record)
+      return restored
+    })
+  }
+
+  /**
+   * Permanently deletes highlights from the trash
+   *
+   * @param {string[]} [ids] - The highlights to purge; all of them if omitted
+   * @returns {Promise<number>} How many highlights were purged
+   */
+  static purgeTrash(ids?: string[]): Promise<number> {
+    return this.writeTrash((trash) => {
+      const purged = ids || Object.keys(trash)
+      let count = 0
+      for (const id of purged) {
+        if (!(id in trash)) continue
+        delete trash[id]
+        count++
+      }
+      return count
+    })
+  }
+
+  /**
+   * Purges trash entries older than the retention period
+   * Runs on every background startup.
+   *
+   * @returns {Promise<number>} How many highlights were purged
+   */
+  static purgeExpiredTrash(): Promise<number> {
+    return this.writeTrash(dropExpired)
+  }
+
+  /**
+   * Imports highlights from a site's legacy localStorage bucket
+   * Highlights whose id is already present are left untouched, so running
+   * the migration twice for the same site is harmless.
+   *
+   * @param {Highlight[]} highlights - Highlights read from page localStorage
+   * @returns {Promise<number>} How many highlights were actually added
+   */
+  static async migrate(highlights: Highlight[]): Promise<number> {
+    const rules = await this.getRules()
+    return this.write((record) => {
+      let added = 0
+      for (const highlight of highlights) {
+        if (!highlight?.id || record[highlight.id]) continue
+        const upgraded = upgradeHighlight(highlight)
+        record[highlight.id] = {
+          ...upgraded,
+          url: normalizeUrl(upgraded.url, rules),
+          // Legacy highlights only stored a hex color
+          colorId: upgraded.colorId || findLegacyColor(upgraded.color)?.id
+        }
+        added++
+      }
+      return added
+    })
+  }
+
+  /**
+   * Saves imported highlights, replacing existing ones with the same id
+   * Callers decide beforehand which conflicting highlights to overwrite.
+   * Tags are cleaned up the same way as when they are edited.
+   *
+   * The collections the highlights belong to are merged into the user's:
+   * one with the same id or name as an existing collection is that
+   * collection, any other is added. Highlights are pointed at the merged collections, and references
+   * to collections that exist neither in the file nor in the store, as in
+   * backups made before collections were exported, are dropped.
+   *
+   * Palette entries the highlights use and the user's palette lacks are
+   * added to it, in the same write as the highlights. Highlights whose
+   * entry is found in neither keep their color but no longer belong to a
+   * palette entry, like those whose entry was deleted.
+   *
+   * @param {Highlight[]} highlights - Validated highlights to save
+   * @param {Collection[]} [collections] - Collections the highlights belong to
+   * @param {PaletteColor[]} [palette] - Palette entries the highlights use
+   * @returns {Promise<number>} How many highlights were saved
+   */
+  static async import(
+    highlights: Highlight[],
+    collections: Collection[] = [],
+    palette: PaletteColor[] = []
+  ): Promise<number> {
+    const rules = await this.getRules()
+    const used = new Set(highlights.flatMap((h) => h.collections || []))
+    const { known, renamed } = await this.writeCollections((existing) => {
+      const renamed = new Map<string, string>()
+      for (const incoming of collections) {
+        if (!used.has(incoming.id)) continue
+        const match =
+          existing.find((c) => c.id === incoming.id) ||
+          existing.find(
+            (c) => c.name.toLowerCase() === incoming.name.toLowerCase()
+          )
+        if (match) {
+          renamed.set(incoming.id, match.id)
+        } else {
+          existing.push(incoming)
+        }
+      }
+      return { known: new Set(existing.map((c) => c.id)), renamed }
+    })
+
+    const colorIds = new Set(highlights.map((h) => h.colorId))
+    return this.enqueue(async () => {
+      const current = await this.getPalette()
+      const merged = [
+        ...current,
+        ...palette.filter(
+          (entry) =>
+            colorIds.has(entry.id) && !current.some((c) => c.id === entry.id)
+        )
+      ]
+      const entries = new Map(merged.map((entry) => [entry.id, entry]))
+
+      return this.commit(
+        (record) => {
+          for (const highlight of highlights) {
+            const { colorId, ...rest } = highlight
+            const entry = entries.get(colorId)
+            const ids = highlight.collections
+              ?.map((id) => renamed.get(id) ?? id)
+              .filter((id) => known.has(id))
+            record[highlight.id] = {
+              ...rest,
+              url: normalizeUrl(highlight.url, rules),
+              ...(entry && { colorId, color: entry.color }),
+              ...(highlight.tags && { tags: normalizeTags(highlight.tags) }),
+              ...(ids && { collections: [...new Set(ids)] })
+            }
+          }
+          return highlights.length
+        },
+        false,
+        merged.length > current.length ? { [PALETTE_KEY]: merged } : {}
+      )
+    })
+  }
+
+  /**
+   * Retrieves every tag in use, for autocompletion and filters
+   *
+   * @returns {Promise<string[]>} Unique tags, sorted alphabetically
+   */
+  static async listTags(): Promise<string[]> {
+    return collectTags(await this.list())
+  }
+
+  /**
+   * Retrieves every collection, in creation order
+   *
+   * @returns {Promise<Collection[]>} The user's collections
+   */
+  static async listCollections(): Promise<Collection[]> {
+    await this.queue
+    const result = await chrome.storage.local.get(COLLECTIONS_KEY)
+    return (result[COLLECTIONS_KEY] as Collection[]) || []
+  }
+
+  /**
+   * Creates a collection, or returns the existing one with the same name
+   *
+   * @param {string} name - Display name of the collection
+   * @returns {Promise<Collection>} The new or existing collection
+   */
+  static createCollection(name: string): Promise<Collection> {
+    const trimmed = name.trim()
+    if (!trimmed) return Promise.reject(new Error("Collection name is empty"))
+
+    return this.writeCollections((collections) => {
+      const existing = collections.find(
+        (c) => c.name.toLowerCase() === trimmed.toLowerCase()
+      )
+      if (existing) return existing
+
+      const collection: Collection = {
+        id: Math.random().toString(36).slice(2, 11),
+        name: trimmed,
+        timestamp: Date.now()
+      }
+      collections.push(collection)
+      return collection
+    })
+  }
+
+  /**
+   * Renames a collection
+   *
+   * @param {string} id - The unique ID of the collection
+   * @param {string} name - The new display name
+   * @returns {Promise<Collection | null>} The renamed collection, or null if missing
+   */
+  static renameCollection(
+    id: string,
+    name: string
+  ): Promise<Collection | null> {
+    const trimmed = name.trim()
+    if (!trimmed) return Promise.reject(new Error("Collection name is empty"))
+
+    return this.writeCollections((collections) => {
+      const collection = collections.find((c) => c.id === id)
+      if (!collection) return null
+      collection.name = trimmed
+      return collection
+    })
+  }
+
+  /**
+   * Deletes a collection and removes it from every highlight
+   * The highlights themselves are kept.
+   *
+   * @param {string} id - The unique ID of the collection
+   * @returns {Promise<boolean>} Whether a collection was removed
+   */
+  static async deleteCollection(id: string): Promise<boolean> {
+    const existed = await this.writeCollections((collections) => {
+      const index = collections.findIndex((c) => c.id === id)
+      if (index === -1) return false
+      collections.splice(index, 1)
+      return true
+    })
+
+    await this.write((record) => {
+      for (const key in record) {
+        const collections = record[key].collections
+        if (collections?.includes(id)) {
+          record[key] = {
+            ...record[key],
+            collections: collections.filter((c) => c !== id)
+          }
+        }
+      }
+    })
+    return existed
+  }
+
+  /**
+   * Searches every highlight, ranked by relevance
+   * See `parseQuery` for the supported syntax and field filters.
+   *
+   * @param {string} query - The search string as typed
+   * @param {string} [url] - Only search highlights of this page
+   * @param {number} [limit] - Maximum number of results
+   * @returns {Promise<SearchResult[]>} Results, best first
+   */
+  static async search(
+    query: string,
+    url?: string,
+    limit?: number
+  ): Promise<SearchResult[]> {
+    if (!this.index) {
+      // Built inside the queue so no write can slip in before it is live
+      await this.enqueue(async () => {
+        if (this.index) return
+        const index = new SearchIndex()
+        Object.values(await this.read()).forEach((h) => index.add(h))
+        this.index = index
+      })
+    }
+
+    const [palette, collections] = await Promise.all([
+      this.getPalette(),
+      this.listCollections()
+    ])
+    const key = url && (await this.normalize(url))
+    const results = this.index.search(
+      parseQuery(query),
+      {
+        palette,
+        collections: new Map(collections.map((c) => [c.id, c.name]))
+      },
+      key ? Infinity : limit
+    )
+    return key
+      ? results.filter((r) => r.highlight.url === key).slice(0, limit)
+      : results
+  }
+
+  /**
+   * Reads the user's color palette
+   *
+   * @returns {Promise<PaletteColor[]>} The palette, or the default one if never edited
+   */
+  static async getPalette(): Promise<PaletteColor[]> {
+    const result = await chrome.storage.local.get(PALETTE_KEY)
+    return (result[PALETTE_KEY] as PaletteColor[]) || DEFAULT_PALETTE
+  }
+
+  /**
+   * Replaces the user's color palette
+   * Every highlight referencing an entry gets the entry's new color; those
+   * whose entry was deleted keep their last color but no longer belong to a
+   * palette entry. The palette is saved in the same queued write as the
+   * highlights, so it never disagrees with them.
+   *
+   * @param {PaletteColor[]} palette - The new palette, in display order
+   * @returns {Promise<number>} How many highlights changed
+   */
+  static async setPalette(palette: PaletteColor[]): Promise<number> {
+    const problem = validatePalette(palette)
+    if (problem) throw new Error(problem)
+
+    const cleaned = palette.map(({ id, label, color }) => ({
+      id,
+      label: label.trim(),
+      color: color.toLowerCase()
+    }))
+    const entries = new Map(cleaned.map((entry) => [entry.id, entry]))
+    return this.write(
+      (record) => {
+        let changed = 0
+        for (const id in record) {
+          const highlight = record[id]
+          if (!highlight.colorId) continue
+
+          const entry = entries.get(highlight.colorId)
+          if (!entry) {
+            const { colorId, ...rest } = highlight
+            record[id] = rest
+            changed++
+          } else if (entry.color !== highlight.color) {
+            record[id] = { ...highlight, color: entry.color }
+            changed++
+          }
+        }
+        return changed
+      },
+      false,
+      { [PALETTE_KEY]: cleaned }
+    )
+  }
+
+  /**
+   * Reads the user's settings, with defaults for anything not set
+   *
+   * @returns {Promise<Settings>} The settings
+   */
+  static async getSettings(): Promise<Settings> {
+    const result = await chrome.storage.local.get(SETTINGS_KEY)
+    return readSettings(result[SETTINGS_KEY])
+  }
+
+  /**
+   * Changes some of the user's settings
+   * Updates are queued like highlight writes, so a toolbar color change and
+   * an options page edit made at the same time don't overwrite each other.
+   *
+   * @param {Partial<Settings>} updates - The settings to change
+   * @returns {Promise<Settings>} The settings after the change
+   */
+  static updateSettings(updates: Partial<Settings>): Promise<Settings> {
+    const problem = validateSettings(updates)
+    if (problem) return Promise.reject(new Error(problem))
+
+    return this.enqueue(async () => {
+      const settings = { ...(await this.getSettings()), ...updates }
+      await chrome.storage.local.set({ [SETTINGS_KEY]: settings })
+      return settings
+    })
+  }
+
+  /**
+   * One-time migration pointing highlights saved with a plain hex color at
+   * the default palette entry of that color
+   * Safe to call on every startup; it only runs when the stored palette
+   * version is outdated.
+   *
+   * @returns {Promise<number>} How many highlights were linked to an entry
+   */
+  static async migrateColors(): Promise<number> {
+    const result = await chrome.storage.local.get(PALETTE_VERSION_KEY)
+    if (result[PALETTE_VERSION_KEY] === PALETTE_VERSION) return 0
+
+    const linked = await this.write((record) => {
+      let count = 0
+      for (const id in record) {
+        if (record[id].colorId) continue
+        const entry = findLegacyColor(record[id].color)
+        if (!entry) continue
+        record[id] = { ...record[id], colorId: entry.id, color: entry.color }
+        count++
+      }
+      return count
+    })
+    await chrome.storage.local.set({ [PALETTE_VERSION_KEY]: PALETTE_VERSION })
+    return linked
+  }
+
+  /**
+   * Reads the user-configured page identity rules
+   *
+   * @returns {Promise<DomainRule[]>} The user's rules, without the defaults
+   */
+  static async getDomainRules(): Promise<DomainRule[]> {
+    const result = await chrome.storage.local.get(DOMAIN_RULES_KEY)
+    return (result[DOMAIN_RULES_KEY] as DomainRule[]) || []
+  }
+
+  /**
+   * Replaces the user-configured page identity rules
+   * Every stored URL is re-normalized with the new rules, merging page
+   * buckets whose URLs now normalize the same. Buckets are never split:
+   * stored URLs are already normalized, so params an earlier rule dropped
+   * are gone, and a looser rule only tells apart highlights made after it.
+   * The rules are saved in the same queued write as the URLs, so they never
+   * disagree.
+   *
+   * @param {DomainRule[]} rules - The user's rules
+   * @returns {Promise<number>} How many highlights moved to a different URL
+   */
+  static async setDomainRules(rules: DomainRule[]): Promise<number> {
+    const problem = validateDomainRules(rules)
+    if (problem) throw new Error(problem)
+
+    try {
+      return await this.renormalizeUrls([...rules, ...DEFAULT_DOMAIN_RULES], {
+        [DOMAIN_RULES_KEY]: rules
+      })
+    } finally {
+      // Read the rules again, whether or not they were saved
+      this.rules = null
+    }
+  }
+
+  /**
+   * Rewrites every stored URL with the given normalization rules
+   *
+   * @param {DomainRule[]} rules - Rules in effect, user rules first
+   * @param {Record<string, unknown>} [extra] - Other keys saved in the same storage write
+   * @returns {Promise<number>} How many highlights moved to a different URL
+   */
+  private static renormalizeUrls(
+    rules: DomainRule[],
+    extra: Record<string, unknown> = {}
+  ): Promise<number> {
+    return this.write(
+      (record) => {
+        let moved = 0
+        for (const id in record) {
+          const url = normalizeUrl(record[id].url, rules)
+          if (url !== record[id].url) {
+            record[id] = { ...record[id], url }
+            moved++
+          }
+        }
+        return moved
+      },
+      false,
+      extra
+    )
+  }
+
+  /**
+   * One-time migration merging page buckets that older versions split by
+   * fragment, tracking params, trailing slash or scheme
+   * Safe to call on every startup; it only runs when the stored
+   * normalization version is outdated.
+   *
+   * @returns {Promise<number>} How many highlights moved to a different URL
+   */
+  static async migrateUrls(): Promise<number> {
+    const result = await chrome.storage.local.get(URL_VERSION_KEY)
+    if (result[URL_VERSION_KEY] === URL_VERSION) return 0
+
+    return this.renormalizeUrls(await this.getRules(), {
+      [URL_VERSION_KEY]: URL_VERSION
+    })
+  }
+}
@@ -0,0 +1,190 @@
+// chrome.storage.session key holding the state of every open tab
+const TAB_STATE_KEY = "tab_state"
+// Badge background while every highlight of the tab is placed
+const BADGE_COLOR = "#ca8a04"
+// Badge background once some highlights of the tab couldn't be placed
+const ORPHANED_BADGE_COLOR = "#dc2626"
+
+/**
+ * How many of a page's highlights were found on it
+ */
+export interface HighlightCounts {
+  /** Highlights rendered on the page */
+  placed: number
+  /** Highlights whose text couldn't be found */
+  orphaned: number
+}
+
+/**
+ * What the background remembers about one tab
+ */
+interface TabState {
+  /** Whether the user turned the toolbar on or off; unset until they do */
+  activated?: boolean
+  /** Highlight counts reported by each frame of the tab, by frame id */
+  counts: Record<string, HighlightCounts>
+}
+
+/** Shape of the persisted record: tab id -> tab state */
+type TabStateRecord = Record<string, TabState>
+
+/**
+ * Adds up the highlight counts of several frames
+ *
+ * @param {HighlightCounts[]} counts - Counts of each frame
+ * @returns {HighlightCounts} The totals
+ */
+export function sumHighlightCounts(counts: HighlightCounts[]): HighlightCounts {
+  return counts.reduce(
+    (total, frame) => ({
+      placed: total.placed + frame.placed,
+      orphaned: total.orphaned + frame.orphaned
+    }),
+    { placed: 0, orphaned: 0 }
+  )
+}
+
+/**
+ * Describes the toolbar badge for a tab's highlights
+ * The badge shows how many highlights are placed on the page, and turns red
+ * with a "!" when some couldn't be placed, so orphaned highlights are
+ * noticed before the popup is opened.
+ *
+ * @param {HighlightCounts} counts - The tab's totals
+ * @returns {{ text: string; color: string; title: string }} Badge text, background color and tooltip
+ */
+export function getBadge(counts: HighlightCounts): {
+  text: string
+  color: string
+  title: string
+} {
+  const { placed, orphaned } = counts
+  if (orphaned > 0) {
+    return {
+      text: `${placed || ""}!`,
+      color: ORPHANED_BADGE_COLOR,
+      title: `${placed} highlights on this page, ${orphaned} couldn't be placed`
+    }
+  }
+  return {
+    text: placed > 0 ? String(placed) : "",
+    color: BADGE_COLOR,
+    title: placed > 0 ? `${placed} highlights on this page` : ""
+  }
+}
+
+/**
+ * TabStateStore Class
+ *
+ * Background-only record of per-tab state: whether the user turned the
+ * highlighter on in the tab, and how many highlights each of its frames
+ * placed. It is kept in `chrome.storage.session`, which survives the
+ * service worker being stopped while idle but not a browser restart, the
+ * same lifetime as the tabs themselves.
+ *
+ * Writes are serialized like the highlight store's, since every frame of a
+ * tab reports its counts at about the same time.
+ */
+export class TabStateStore {
+  // Tail of the pending write queue
+  private static queue: Promise<unknown> = Promise.resolve()
+
+  /**
+   * Runs a read-modify-write cycle on the tab record after all previously
+   * queued ones finish
+   *
+   * @param {(record: TabStateRecord) => T} mutate - Mutates the record in place
+   * @returns {Promise<T>} Whatever `mutate` returns
+   */
+  private static write<T>(mutate: (record: TabStateRecord) => T): Promise<T> {
+    const next = this.queue.then(async () => {
+      const record = await this.read()
+      const result = mutate(record)
+      await chrome.storage.session.set({ [TAB_STATE_KEY]: record })
+      return result
+    })
+    // Keep the queue alive even if this task fails
+    this.queue = next.catch(() => undefined)
+    return next
+  }
+
+  /**
+   * Reads every tab's state
+   *
+   * @returns {Promise<TabStateRecord>} Tab states keyed by tab id
+   */
+  private static async read(): Promise<TabStateRecord> {
+    const result = await chrome.storage.session.get(TAB_STATE_KEY)
+    return (result[TAB_STATE_KEY] as TabStateRecord) || {}
+  }
+
+  /**
+   * Reads whether the user turned the highlighter on in a tab
+   *
+   * @param {number} tabId - The tab
+   * @returns {Promise<boolean | null>} The user's choice, or null if they haven't made one
+   */
+  static async getActivation(tabId: number): Promise<boolean | null> {
+    const record = await this.read()
+    return record[tabId]?.activated ?? null
+  }
+
+  /**
+   * Records whether the user turned the highlighter on in a tab
+   *
+   * @param {number} tabId - The tab
+   * @param {boolean} activated - The user's choice
+   * @returns {Promise<void>} Resolves once saved
+   */
+  static setActivation(tabId: number, activated: boolean): Promise<void> {
+    return this.write((record) => {
+      record[tabId] = { counts: {}, ...record[tabId], activated }
+    })
+  }
+
+  /**
+   * Records the highlight counts of one frame of a tab
+   *
+   * @param {number} tabId - The tab
+   * @param {number} frameId - The reporting frame
+   * @param {HighlightCounts} counts - The frame's counts
+   * @returns {Promise<HighlightCounts>} The tab's totals across its frames
+   */
+  static setCounts(
+    tabId: number,
+    frameId: number,
+    counts: HighlightCounts
+  ): Promise<HighlightCounts> {
+    return this.write((record) => {
+      const state = record[tabId] || { counts: {} }
+      state.counts = { ...state.counts, [frameId]: counts }
+      record[tabId] = state
+      return sumHighlightCounts(Object.values(state.counts))
+    })
+  }
+
+  /**
+   * Forgets a tab's highlight counts, e.g. when it starts loading a new page
+   * The user's activation choice is kept for the life of the tab.
+   *
+   * @param {number} tabId - The tab
+   * @returns {Promise<void>} Resolves once saved
+   */
+  static clearCounts(tabId: number): Promise<void> {
+    return this.write((record) => {
+      if (record[tabId]) record[tabId] = { ...record[tabId], counts: {} }
+    })
+  }
+
+  /**
+   * Forgets everything about a closed tab
+   *
+   * @param {number} tabId - The tab
+   * @returns {Promise<void>} Resolves once saved
+   */
+  static remove(tabId: number): Promise<void> {
+    return this.write((record) => {
+      delete record[tabId]
+    })
+  }
+}
@@ -0,0 +1,58 @@
+// Type definitions for highlight objects
+import type { Highlight } from "./types"
+
+/**
+ * Cleans up a tag typed by the user
+ * Surrounding whitespace and a leading `#` are removed and inner whitespace
+ * is collapsed, so "  #to   read " and "to read" are the same tag.
+ *
+ * @param {string} tag - The raw tag
+ * @returns {string} The cleaned tag, empty if nothing is left
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, "").replace(/\s+/g, " ").trim()
+}
+
+/**
+ * Cleans up a list of tags, dropping empty ones and duplicates
+ * Duplicates are detected case-insensitively; the first spelling wins.
+ *
+ * @param {string[]} tags - The raw tags
+ * @returns {string[]} The cleaned tags, in their original order
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>()
+  const result: string[] = []
+  for (const raw of tags) {
+    const tag = normalizeTag(raw)
+    const key = tag.toLowerCase()
+    if (!tag || seen.has(key)) continue
+    seen.add(key)
+    result.push(tag)
+  }
+  return result
+}
+
+/**
+ * Collects every tag used by a set of highlights
+ *
+ * @param {Highlight[]} highlights - The highlights to scan
+ * @returns {string[]} Unique tags, sorted alphabetically
+ */
+export function collectTags(highlights: Highlight[]): string[] {
+  return normalizeTags(highlights.flatMap((h) => h.tags || [])).sort((a, b) =>
+    a.localeCompare(b)
+  )
+}
+
+/**
+ * Checks whether a highlight carries a tag, ignoring case
+ *
+ * @param {Highlight} highlight - The highlight to check
+ * @param {string} tag - The tag to look for
+ * @returns {boolean} True if the highlight has the tag
+ */
+export function hasTag(highlight: Highlight, tag: string): boolean {
+  const key = tag.toLowerCase()
+  return (highlight.tags || []).some((t) => t.toLowerCase() === key)
+}
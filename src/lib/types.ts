@@ -10,20 +10,190 @@ export interface Highlight {
   id: string
   /** URL of the page where the highlight was created */
   url: string
+  /** Title of the page when the highlight was created */
+  title?: string
   /** The actual text content that was highlighted */
   text: string
-  /** Optional user note/annotation for the highlight */
+  /** Optional user note/annotation for the highlight, in Markdown */
   note: string
-  /** Character offset where the highlight starts within the text node */
-  startOffset: number
-  /** Character offset where the highlight ends within the text node */
-  endOffset: number
-  /** XPath expression to locate the element containing the highlighted text */
-  xpath: string
+  /** Where the highlighted range starts */
+  start: TextAnchor
+  /** Where the highlighted range ends */
+  end: TextAnchor
+  /** Highlighted text with surrounding context, for re-anchoring by content */
+  quote?: TextQuoteSelector
+  /** Character offsets of the highlight within the page's text, see `getPageText` */
+  position?: TextPositionSelector
+  /**
+   * Page number, from 1, of a highlight in a PDF
+   * Its quote and position are then relative to that page's text, and its
+   * start and end anchors carry no XPath.
+   */
+  pdfPage?: number
+  /**
+   * Path of the iframe holding the highlight, see `getFramePath`
+   * Highlights in iframes are stored with the page shown in the tab; this is
+   * absent for highlights in the page itself.
+   */
+  frame?: string
   /** Unix timestamp when the highlight was created */
   timestamp: number
-  /** Optional color for the highlight (defaults to yellow) */
+  /** Hex color of the highlight, a copy of its palette entry's color (defaults to yellow) */
   color?: string
+  /** ID of the palette entry the highlight belongs to */
+  colorId?: string
+  /** True when the highlight could not be placed the last time its page was rendered */
+  orphaned?: boolean
+  /** Free-form labels, e.g. "definition" or "todo" */
+  tags?: string[]
+  /** IDs of the collections the highlight belongs to */
+  collections?: string[]
+  /** Discussion added after the note, oldest first */
+  comments?: HighlightComment[]
+}
+
+/**
+ * One entry of a highlight's comment thread
+ *
+ * Unlike the note, which is a single field that is overwritten when
+ * edited, comments accumulate with their own timestamps.
+ */
+export interface HighlightComment {
+  /** Unique identifier for the comment */
+  id: string
+  /** The comment, in Markdown */
+  text: string
+  /** Unix timestamp when the comment was added */
+  timestamp: number
+  /** Unix timestamp of the last edit, if the comment was edited */
+  edited?: number
+}
+
+/**
+ * One highlight's state before and after a change
+ * `before` is null for a highlight that was created, `after` is null for
+ * one that was deleted.
+ */
+export interface HighlightChange {
+  /** The highlight before the change */
+  before: Highlight | null
+  /** The highlight after the change */
+  after: Highlight | null
+}
+
+/**
+ * A user action recorded in the operation log, for undo and redo
+ *
+ * Actions touching several highlights at once, like a bulk delete, are one
+ * operation so they are undone together.
+ */
+export interface HighlightOperation {
+  /** Unique identifier for the operation */
+  id: string
+  /** What the user did, as seen from the first highlight it touched */
+  type: "create" | "update" | "delete"
+  /** Every highlight the action changed */
+  changes: HighlightChange[]
+  /** Normalized URLs of the pages those highlights belong to */
+  urls: string[]
+  /** Unix timestamp when the action happened */
+  timestamp: number
+  /** True once the operation has been undone, until it is redone */
+  undone?: boolean
+}
+
+/**
+ * A deleted highlight kept in the trash until restored or purged
+ */
+export interface TrashedHighlight {
+  /** The highlight as it was when deleted */
+  highlight: Highlight
+  /** Unix timestamp when the highlight was deleted */
+  deletedAt: number
+}
+
+/**
+ * Named group of highlights, possibly from many pages
+ *
+ * Highlights reference collections by id, so renaming a collection
+ * doesn't touch the highlights in it.
+ */
+export interface Collection {
+  /** Unique identifier for the collection */
+  id: string
+  /** Display name chosen by the user */
+  name: string
+  /** Unix timestamp when the collection was created */
+  timestamp: number
+}
+
+/**
+ * One boundary point of a highlighted range
+ *
+ * Offsets are measured across all text inside the anchor element rather
+ * than within a single text node, so a highlight may start and end in
+ * different elements and survive our own spans splitting the text.
+ */
+export interface TextAnchor {
+  /** XPath expression to locate the element containing the boundary */
+  xpath: string
+  /** Character offset of the boundary within the element's text content */
+  offset: number
+  /**
+   * XPaths of the open shadow roots' hosts the element is inside, outermost
+   * first; each is evaluated in the previous host's shadow root, and `xpath`
+   * in the last one's. Absent for elements of the page itself.
+   */
+  shadowHosts?: string[]
+}
+
+/**
+ * W3C-style TextQuoteSelector
+ *
+ * Identifies a highlight by its content rather than its location: the exact
+ * text plus a little context on either side to tell repeated phrases apart.
+ */
+export interface TextQuoteSelector {
+  /** The highlighted text, exactly as it appeared on the page */
+  exact: string
+  /** Text immediately before the highlight */
+  prefix: string
+  /** Text immediately after the highlight */
+  suffix: string
+}
+
+/**
+ * W3C-style TextPositionSelector
+ *
+ * Character offsets into the concatenated text of `document.body`, followed
+ * by that of each open shadow root. Used as a hint to pick the right
+ * occurrence when searching for a quote.
+ */
+export interface TextPositionSelector {
+  /** Offset of the first highlighted character */
+  start: number
+  /** Offset just past the last highlighted character */
+  end: number
+}
+
+/**
+ * Every selector describing where a highlight lives on its page
+ */
+export type HighlightAnchors = Pick<
+  Highlight,
+  "start" | "end" | "quote" | "position"
+>
+
+/**
+ * Outcome of placing a stored highlight on the current page
+ */
+export interface AnchorResult {
+  /** Where the highlight was found in the page text, or null if it wasn't */
+  position: TextPositionSelector | null
+  /** How sure the resolver is that this is the right text, from 0 to 1 */
+  confidence: number
+  /** Which strategy produced the match */
+  method: "xpath" | "quote" | "fuzzy" | null
 }
 
 /**
@@ -0,0 +1,54 @@
+// Type definitions for operation log entries
+import type { HighlightOperation } from "./types"
+
+/**
+ * Describes an operation from the undo log for the undo toast
+ *
+ * @param {HighlightOperation} operation - The undone or redone operation
+ * @returns {string} A short description, e.g. "2 highlights deleted"
+ */
+export function describeOperation(operation: HighlightOperation): string {
+  const count = operation.changes.length
+  const subject = count === 1 ? "Highlight" : `${count} highlights`
+  switch (operation.type) {
+    case "create":
+      return `${subject} added`
+    case "delete":
+      return `${subject} deleted`
+    case "update":
+      return `${subject} updated`
+  }
+}
+
+/**
+ * Checks whether a key press was aimed at a text field
+ * Events from a shadow DOM are retargeted to its host, so the original
+ * target is read from the composed path.
+ *
+ * @param {KeyboardEvent} e - Keyboard event
+ * @returns {boolean} True if the key press edits text
+ */
+function isEditingText(e: KeyboardEvent): boolean {
+  const target = e.composedPath()[0]
+  if (!(target instanceof HTMLElement)) return false
+  return (
+    target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+  )
+}
+
+/**
+ * Reads an undo or redo shortcut from a key press
+ * Ctrl+Z undoes and Ctrl+Shift+Z redoes (Cmd on macOS). Key presses in text
+ * fields are left to the field's own undo.
+ *
+ * @param {KeyboardEvent} e - Keyboard event
+ * @returns {"undo" | "redo" | null} The requested direction, or null for other keys
+ */
+export function getHistoryShortcut(e: KeyboardEvent): "undo" | "redo" | null {
+  if (!(e.ctrlKey || e.metaKey) || e.altKey || e.key.toLowerCase() !== "z") {
+    return null
+  }
+  if (isEditingText(e)) return null
+  return e.shiftKey ? "redo" : "undo"
+}
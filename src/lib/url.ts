@@ -0,0 +1,201 @@
+/**
+ * Page identity rule for one domain
+ *
+ * Decides which query parameters make two URLs on that domain different
+ * pages. Rules apply to the domain and all of its subdomains, and param
+ * names are matched ignoring case.
+ */
+export interface DomainRule {
+  /** Domain the rule applies to, e.g. "youtube.com" */
+  domain: string
+  /** If set, only these query params identify a page; all others are dropped */
+  keepParams?: string[]
+  /** Extra params to drop on this domain, on top of the tracking params */
+  ignoreParams?: string[]
+}
+
+// Query params added by analytics and ad platforms that never change the page
+const TRACKING_PARAMS = new Set([
+  "fbclid",
+  "gclid",
+  "dclid",
+  "gbraid",
+  "wbraid",
+  "msclkid",
+  "yclid",
+  "twclid",
+  "igshid",
+  "mc_cid",
+  "mc_eid",
+  "_ga",
+  "_gl",
+  "_hsenc",
+  "_hsmi",
+  "mkt_tok",
+  "oly_anon_id",
+  "oly_enc_id",
+  "vero_id",
+  "ref_src",
+  "ref_url"
+])
+
+// Tracking param families matched by prefix, e.g. utm_source, utm_medium
+const TRACKING_PARAM_PREFIXES = ["utm_", "pk_", "mtm_", "hsa_"]
+
+/**
+ * Built-in rules for popular sites whose pages are identified by a query param
+ * User-configured rules for the same domain take precedence.
+ */
+export const DEFAULT_DOMAIN_RULES: DomainRule[] = [
+  { domain: "youtube.com", keepParams: ["v", "list"] },
+  { domain: "news.ycombinator.com", keepParams: ["id"] },
+  { domain: "google.com", keepParams: ["q"] },
+  { domain: "bing.com", keepParams: ["q"] },
+  { domain: "duckduckgo.com", keepParams: ["q"] }
+]
+
+/**
+ * Checks whether a query param is a known tracking param
+ *
+ * @param {string} name - The query param name
+ * @returns {boolean} True if the param only carries tracking information
+ */
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase()
+  return (
+    TRACKING_PARAMS.has(lower) ||
+    TRACKING_PARAM_PREFIXES.some((prefix) => lower.startsWith(prefix))
+  )
+}
+
+/**
+ * Checks page identity rules received from another context
+ *
+ * @param {unknown} rules - The rules to check
+ * @returns {string | null} Why the rules are invalid, or null if they are valid
+ */
+export function validateDomainRules(rules: unknown): string | null {
+  if (!Array.isArray(rules)) return "Domain rules must be a list"
+  const isParamList = (params: unknown) =>
+    params === undefined ||
+    (Array.isArray(params) && params.every((p) => typeof p === "string"))
+  for (const rule of rules as DomainRule[]) {
+    if (typeof rule?.domain !== "string" || !rule.domain.trim()) {
+      return "Every rule needs a domain"
+    }
+    if (!isParamList(rule.keepParams) || !isParamList(rule.ignoreParams)) {
+      return `The params of "${rule.domain}" must be a list of names`
+    }
+  }
+  return null
+}
+
+/**
+ * Finds the most specific rule matching a host name
+ * Rules earlier in the list win over later ones for the same domain, so
+ * user rules should be placed before the defaults.
+ *
+ * @param {string} host - Normalized host name
+ * @param {DomainRule[]} rules - Candidate rules
+ * @returns {DomainRule | undefined} The matching rule, if any
+ */
+function findDomainRule(
+  host: string,
+  rules: DomainRule[]
+): DomainRule | undefined {
+  let best: DomainRule | undefined
+  // The best rule's domain, normalized like the candidates'
+  let bestDomain = ""
+  for (const rule of rules) {
+    const domain = rule.domain.toLowerCase().replace(/^www\./, "")
+    const matches = host === domain || host.endsWith(`.${domain}`)
+    if (matches && (!best || domain.length > bestDomain.length)) {
+      best = rule
+      bestDomain = domain
+    }
+  }
+  return best
+}
+
+/**
+ * Normalizes a page URL into the key its highlights are stored under
+ *
+ * Different URLs for the same article must map to one bucket, so:
+ * - `http` and `https` are treated alike (stored as `https`)
+ * - the host is lower-cased and a leading `www.` is removed
+ * - fragments (`#section`) are dropped
+ * - tracking params (`utm_*`, `fbclid`, ...) are dropped
+ * - per-domain rules decide which remaining params matter
+ * - remaining params are sorted, and a trailing slash is removed
+ *
+ * Non-web URLs (e.g. `chrome://`, `file://`) are returned with only their
+ * fragment stripped.
+ *
+ * @param {string} url - The URL to normalize
+ * @param {DomainRule[]} [rules] - Page identity rules, defaults to the built-in ones
+ * @returns {string} The normalized URL
+ */
+export function normalizeUrl(
+  url: string,
+  rules: DomainRule[] = DEFAULT_DOMAIN_RULES
+): string {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return url
+  }
+
+  parsed.hash = ""
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return parsed.toString()
+  }
+
+  parsed.protocol = "https:"
+  parsed.hostname = parsed.hostname.toLowerCase().replace(/^www\./, "")
+  if (parsed.port === "443" || parsed.port === "80") {
+    parsed.port = ""
+  }
+
+  const rule = findDomainRule(parsed.hostname, rules)
+  const ignored = new Set(rule?.ignoreParams?.map((p) => p.toLowerCase()))
+  const kept =
+    rule?.keepParams && new Set(rule.keepParams.map((p) => p.toLowerCase()))
+
+  const params = [...parsed.searchParams.entries()]
+    .filter(([name]) => !isTrackingParam(name))
+    .filter(([name]) => !ignored.has(name.toLowerCase()))
+    .filter(([name]) => !kept || kept.has(name.toLowerCase()))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  parsed.search = new URLSearchParams(params).toString()
+
+  if (parsed.pathname.length > 1 && parsed.pathname.endsWith("/")) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, "")
+  }
+
+  return parsed.toString()
+}
+
+/**
+ * Returns the URL that identifies the current page, before normalization
+ * Honors `<link rel="canonical">` when it points to the same site, since
+ * that is the publisher's own statement of the article's URL. Canonical
+ * links to other hosts are ignored: they usually point at syndication
+ * sources and the highlights would then be invisible on this page.
+ *
+ * @returns {string} The canonical URL, or the location if there is none
+ */
+export function getPageUrl(): string {
+  const link = document.querySelector<HTMLLinkElement>('link[rel="canonical"]')
+  if (!link?.href) return window.location.href
+
+  try {
+    const canonical = new URL(link.href, window.location.href)
+    const sameSite =
+      canonical.hostname.replace(/^www\./, "") ===
+      window.location.hostname.replace(/^www\./, "")
+    return sameSite ? canonical.toString() : window.location.href
+  } catch {
+    return window.location.href
+  }
+}
@@ -0,0 +1,239 @@
+// Editor for the allow, block and auto-activate lists
+import { SiteListEditor } from "@/components/SiteListEditor"
+// Palette for the default color choice
+import { DEFAULT_PALETTE, type PaletteColor } from "@/lib/palette"
+// Settings schema, defaults and the bounds of the minimum selection length
+import {
+  DEFAULT_SETTINGS,
+  MIN_SELECTION_LENGTH_RANGE,
+  readSettings,
+  SETTINGS_KEY,
+  type Settings
+} from "@/lib/settings"
+// Storage utilities for reading and saving settings
+import { HighlightStorage } from "@/lib/storage"
+// Icon for errors
+import { AlertTriangle } from "lucide-react"
+import { useEffect, useState } from "react"
+
+// Import global styles for the options page
+import "./styles/globals.css"
+
+/**
+ * Options Page
+ *
+ * Lets the user decide where the highlighter runs and how it behaves:
+ * sites it is limited to or never runs on, sites where the toolbar turns
+ * on by itself, the shortest selection that becomes a highlight, the color
+ * new highlights get, and whether saved highlights are shown while the
+ * highlighter is off.
+ *
+ * Every change is saved right away; open pages pick it up without a reload.
+ *
+ * @returns {JSX.Element} The options page
+ */
+function OptionsPage() {
+  // State for the saved settings
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS)
+  // State for the user's color palette
+  const [palette, setPalette] = useState<PaletteColor[]>(DEFAULT_PALETTE)
+  // State for the minimum selection length as typed, saved once valid
+  const [minLengthDraft, setMinLengthDraft] = useState(
+    String(DEFAULT_SETTINGS.minSelectionLength)
+  )
+  // State for whether settings are still loading
+  const [isLoading, setIsLoading] = useState(true)
+  // State for the last error message
+  const [error, setError] = useState("")
+
+  // Load settings and the palette when the page opens, and follow changes
+  // made from the toolbar or another options page
+  useEffect(() => {
+    HighlightStorage.getSettings()
+      .then((loaded) => {
+        setSettings(loaded)
+        setMinLengthDraft(String(loaded.minSelectionLength))
+      })
+      .catch((error) => setError(`Could not load settings: ${error}`))
+      .finally(() => setIsLoading(false))
+    HighlightStorage.getPalette()
+      .then(setPalette)
+      .catch((error) => setError(`Could not load color palette: ${error}`))
+
+    /**
+     * Shows settings changed elsewhere
+     * @param {Record<string, chrome.storage.StorageChange>} changes - Changed keys
+     * @param {string} areaName - The storage area that changed
+     */
+    const handleStorageChange = (
+      changes: Record<string, chrome.storage.StorageChange>,
+      areaName: string
+    ) => {
+      if (areaName === "local" && SETTINGS_KEY in changes) {
+        setSettings(readSettings(changes[SETTINGS_KEY].newValue))
+      }
+    }
+    chrome.storage.onChanged.addListener(handleStorageChange)
+    return () => chrome.storage.onChanged.removeListener(handleStorageChange)
+  }, [])
+
+  /**
+   * Saves some settings, showing them right away
+   * @param {Partial<Settings>} updates - The settings to change
+   */
+  const saveSettings = (updates: Partial<Settings>) => {
+    setSettings((current) => ({ ...current, ...updates }))
+    setError("")
+    HighlightStorage.updateSettings(updates)
+      .then(setSettings)
+      .catch((error) => {
+        setError(error instanceof Error ? error.message : String(error))
+        HighlightStorage.getSettings()
+          .then(setSettings)
+          .catch(() => {})
+      })
+  }
+
+  /**
+   * Saves the minimum selection length once the typed value is in range
+   * @param {string} value - The input's value
+   */
+  const handleMinLengthChange = (value: string) => {
+    setMinLengthDraft(value)
+    const length = Number(value)
+    if (
+      Number.isInteger(length) &&
+      length >= MIN_SELECTION_LENGTH_RANGE.min &&
+      length <= MIN_SELECTION_LENGTH_RANGE.max
+    ) {
+      saveSettings({ minSelectionLength: length })
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-2xl mx-auto p-6 space-y-4">
+        {/* Header with logo */}
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-yellow-400 rounded-lg flex items-center justify-center">
+            <span className="text-white font-bold">H</span>
+          </div>
+          <div>
+            <h1 className="text-xl font-semibold text-gray-900">
+              Highlighter Settings
+            </h1>
+            <p className="text-sm text-gray-500">
+              Changes are saved automatically
+            </p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 p-2 rounded border border-red-200 bg-red-50 text-sm text-red-700">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500 text-center">Loading...</p>
+        ) : (
+          <>
+            {/* Where the highlighter runs */}
+            <section className="p-4 space-y-4 border border-gray-200 rounded-lg bg-white">
+              <h2 className="text-sm font-semibold text-gray-700">Sites</h2>
+              <SiteListEditor
+                title="Only run on"
+                description="When sites are listed here, the highlighter is off everywhere else. Subdomains are included."
+                sites={settings.allowedSites}
+                onChange={(allowedSites) => saveSettings({ allowedSites })}
+              />
+              <SiteListEditor
+                title="Never run on"
+                description="Highlights are neither shown nor made on these sites, even if they are listed elsewhere."
+                sites={settings.blockedSites}
+                onChange={(blockedSites) => saveSettings({ blockedSites })}
+              />
+              <SiteListEditor
+                title="Turn on automatically"
+                description="The toolbar appears as soon as a page on these sites loads."
+                sites={settings.autoActivateSites}
+                onChange={(autoActivateSites) =>
+                  saveSettings({ autoActivateSites })
+                }
+              />
+            </section>
+
+            {/* How highlights are made and shown */}
+            <section className="p-4 space-y-4 border border-gray-200 rounded-lg bg-white">
+              <h2 className="text-sm font-semibold text-gray-700">
+                Highlighting
+              </h2>
+
+              <label className="flex items-center justify-between gap-4 text-sm text-gray-900">
+                <span>
+                  Minimum selection length
+                  <span className="block text-xs text-gray-500">
+                    Shorter selections, in characters, don't become highlights
+                  </span>
+                </span>
+                <input
+                  type="number"
+                  min={MIN_SELECTION_LENGTH_RANGE.min}
+                  max={MIN_SELECTION_LENGTH_RANGE.max}
+                  value={minLengthDraft}
+                  onChange={(e) => handleMinLengthChange(e.target.value)}
+                  onBlur={() =>
+                    setMinLengthDraft(String(settings.minSelectionLength))
+                  }
+                  className="w-20 h-8 border border-gray-300 rounded bg-white px-2 text-sm focus:outline-none focus:ring-2 focus:ring-yellow-400"
+                />
+              </label>
+
+              <label className="flex items-center justify-between gap-4 text-sm text-gray-900">
+                <span>
+                  Default color
+                  <span className="block text-xs text-gray-500">
+                    Also changed by picking a color in the toolbar
+                  </span>
+                </span>
+                <select
+                  value={settings.defaultColorId}
+                  onChange={(e) =>
+                    saveSettings({ defaultColorId: e.target.value })
+                  }
+                  className="h-8 border border-gray-300 rounded bg-white px-2 text-sm focus:outline-none focus:ring-2 focus:ring-yellow-400">
+                  {palette.map((entry) => (
+                    <option key={entry.id} value={entry.id}>
+                      {entry.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="flex items-center justify-between gap-4 text-sm text-gray-900">
+                <span>
+                  Show highlights while the highlighter is off
+                  <span className="block text-xs text-gray-500">
+                    When unchecked, saved highlights only appear once the
+                    toolbar is turned on
+                  </span>
+                </span>
+                <input
+                  type="checkbox"
+                  checked={settings.showHighlights}
+                  onChange={(e) =>
+                    saveSettings({ showHighlights: e.target.checked })
+                  }
+                />
+              </label>
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Export the options page as the default export for Plasmo
+export default OptionsPage
@@ -1,16 +1,58 @@
 // UI components for building the popup interface
 // Removed shadcn/ui imports
+// Read-only comment threads and Markdown notes on highlight cards
+import { CommentThread } from "@/components/CommentThread"
+import { ExportMenu } from "@/components/ExportMenu"
+import { ImportPanel } from "@/components/ImportPanel"
+import { Markdown } from "@/components/Markdown"
+import { PaletteEditor } from "@/components/PaletteEditor"
+import { SearchResults } from "@/components/SearchResults"
+import { TrashPanel } from "@/components/TrashPanel"
+// Palette helpers for color labels and the color filter
+import {
+  DEFAULT_PALETTE,
+  findPaletteColor,
+  getHighlightColor,
+  type PaletteColor
+} from "@/lib/palette"
+// PDF viewer URLs, to list the highlights of the PDF it shows
+import { getPdfFileUrl } from "@/lib/pdf"
+// Search result type
+import type { SearchResult } from "@/lib/search"
+// Site rules, to tell whether the highlighter runs or turns on by itself on the current site
+import {
+  isSiteAutoActivated,
+  isSiteEnabled,
+  type Settings
+} from "@/lib/settings"
 // Storage utilities for managing highlights
 import { HighlightStorage } from "@/lib/storage"
-// Type definitions for highlight objects
-import type { Highlight } from "@/lib/types"
-// Icons for search, external link, and delete actions
-import { ExternalLink, Search, Trash2 } from "lucide-react"
+// Tag helpers for the tag filter
+import { collectTags, hasTag } from "@/lib/tags"
+// Type definitions for highlight and collection objects
+import type { Collection, Highlight } from "@/lib/types"
+// Icons for search, external link, delete, re-anchor, library and settings actions
+import {
+  AlertTriangle,
+  Ban,
+  Crosshair,
+  ExternalLink,
+  Folder,
+  Library,
+  Search,
+  SettingsIcon,
+  Trash2
+} from "lucide-react"
 import { useEffect, useState } from "react"
 
 // Import global styles for the popup
 import "./styles/globals.css"
 
+// Maximum number of search results listed in the popup
+const SEARCH_RESULT_LIMIT = 50
+// Delay after the last keystroke before searching
+const SEARCH_DEBOUNCE = 150
+
 function IndexPopup() {
   // State for storing highlights for the current page
   const [highlights, setHighlights] = useState<Highlight[]>([])
@@ -18,51 +60,172 @@ function IndexPopup() {
   const [currentUrl, setCurrentUrl] = useState("")
   // State for the search input to filter highlights
   const [searchQuery, setSearchQuery] = useState("")
-  // State for extension activation status
-  const [isActivated, setIsActivated] = useState(false)
+  // State for searching this page only or every page
+  const [searchScope, setSearchScope] = useState<"page" | "all">("page")
+  // State for ranked search results, null when the search box is empty
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(
+    null
+  )
+  // State for the current tab's ID
+  const [currentTabId, setCurrentTabId] = useState<number | null>(null)
+  // State for whether the user turned the highlighter on in this tab, null until they choose
+  const [tabActivation, setTabActivation] = useState<boolean | null>(null)
+  // State for the number of highlights saved across all pages
+  const [totalHighlights, setTotalHighlights] = useState(0)
+  // State for every collection the user has created
+  const [collections, setCollections] = useState<Collection[]>([])
+  // State for the tag to filter by, empty for all tags
+  const [tagFilter, setTagFilter] = useState("")
+  // State for the collection ID to filter by, empty for all collections
+  const [collectionFilter, setCollectionFilter] = useState("")
+  // State for the user's color palette
+  const [palette, setPalette] = useState<PaletteColor[]>(DEFAULT_PALETTE)
+  // State for the palette entry ID to filter by, empty for all colors
+  const [colorFilter, setColorFilter] = useState("")
+  // State for the current page's host name
+  const [currentHost, setCurrentHost] = useState("")
+  // State for the user's settings, null until loaded
+  const [settings, setSettings] = useState<Settings | null>(null)
 
   // Load highlights and activation state when the popup opens
   useEffect(() => {
-    // Get activation state from localStorage
-    const activationState =
-      localStorage.getItem("highlighter_activated") === "true"
-    setIsActivated(activationState)
+    // Get the current active tab's activation, URL and highlights
+    chrome.tabs.query({ active: true, currentWindow: true }, async (tabs) => {
+      const tab = tabs[0]
+      if (!tab?.url) return
 
-    // Get the current active tab's URL and load its highlights
-    chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
-      if (tabs[0]?.url) {
-        setCurrentUrl(tabs[0].url)
-        const pageHighlights = HighlightStorage.getByUrl(tabs[0].url)
-        setHighlights(pageHighlights)
+      setCurrentTabId(tab.id)
+      HighlightStorage.getTabActivation(tab.id)
+        .then(setTabActivation)
+        .catch((error) => console.warn("Could not load activation:", error))
+
+      // Prefer the page's canonical URL as reported by the content script,
+      // falling back to the PDF shown by the viewer, or the tab URL on pages
+      // without a content script (e.g. chrome://)
+      const pageUrl: string = await chrome.tabs
+        .sendMessage(tab.id, { type: "GET_PAGE_URL" })
+        .catch(() => undefined)
+      const url = pageUrl || getPdfFileUrl(tab.url) || tab.url
+
+      setCurrentUrl(url)
+      try {
+        setCurrentHost(new URL(url).hostname)
+      } catch {
+        setCurrentHost("")
       }
+      HighlightStorage.getByUrl(url)
+        .then(setHighlights)
+        .catch((error) => console.warn("Could not load highlights:", error))
     })
+
+    // Get total highlights across all pages for summary display
+    HighlightStorage.getAll()
+      .then((all) => setTotalHighlights(all.length))
+      .catch((error) => console.warn("Could not count highlights:", error))
+
+    // Get collections for the filter and the highlight cards
+    HighlightStorage.listCollections()
+      .then(setCollections)
+      .catch((error) => console.warn("Could not load collections:", error))
+
+    // Get the palette for color labels and the color filter
+    HighlightStorage.getPalette()
+      .then(setPalette)
+      .catch((error) => console.warn("Could not load color palette:", error))
+
+    // Get settings to tell whether the highlighter runs on this site
+    HighlightStorage.getSettings()
+      .then(setSettings)
+      .catch((error) => console.warn("Could not load settings:", error))
   }, [])
 
   /**
-   * Toggles the extension activation state
-   * Sends message to content script and updates localStorage
+   * Reloads highlights after an import or a restore from the trash and
+   * re-renders them in the tab
    */
-  const handleToggleActivation = () => {
-    const newState = !isActivated
-    setIsActivated(newState)
-    localStorage.setItem("highlighter_activated", newState.toString())
+  const handleImported = () => {
+    if (currentUrl) {
+      HighlightStorage.getByUrl(currentUrl)
+        .then(setHighlights)
+        .catch((error) => console.warn("Could not load highlights:", error))
+    }
+    HighlightStorage.getAll()
+      .then((all) => setTotalHighlights(all.length))
+      .catch((error) => console.warn("Could not count highlights:", error))
 
-    // Send toggle message to content script
     chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
       if (tabs[0]?.id) {
-        chrome.tabs.sendMessage(tabs[0].id, { type: "TOGGLE_ACTIVATION" })
+        chrome.tabs.sendMessage(tabs[0].id, { type: "REFRESH_HIGHLIGHTS" })
       }
     })
   }
 
+  // Run a ranked search through the background index as the user types
+  useEffect(() => {
+    if (!searchQuery.trim()) {
+      setSearchResults(null)
+      return
+    }
+
+    let isCurrent = true
+    const timeout = setTimeout(() => {
+      HighlightStorage.search(
+        searchQuery,
+        searchScope === "page" ? currentUrl : undefined,
+        SEARCH_RESULT_LIMIT
+      )
+        .then((results) => isCurrent && setSearchResults(results))
+        .catch((error) => console.warn("Could not search highlights:", error))
+    }, SEARCH_DEBOUNCE)
+    return () => {
+      isCurrent = false
+      clearTimeout(timeout)
+    }
+  }, [searchQuery, searchScope, currentUrl])
+
+  /**
+   * Applies a saved palette: reloads the recolored highlights and re-renders
+   * them in the tab
+   * @param {PaletteColor[]} saved - The new palette
+   */
+  const handlePaletteSaved = (saved: PaletteColor[]) => {
+    setPalette(saved)
+    if (colorFilter && !findPaletteColor(saved, colorFilter)) {
+      setColorFilter("")
+    }
+    handleImported()
+  }
+
+  /**
+   * Toggles the highlighter in the current tab
+   * The background records the choice and passes it on to the tab's
+   * content scripts.
+   */
+  const handleToggleActivation = () => {
+    if (currentTabId === null) return
+    const newState = !isActivated
+    setTabActivation(newState)
+    HighlightStorage.setTabActivation(newState, currentTabId).catch((error) =>
+      console.warn("Could not save activation:", error)
+    )
+  }
+
   /**
    * Handles deleting a highlight from both storage and local state
-   * Updates the UI immediately and sends refresh signal to content script
+   * Updates the UI once the store confirms and sends refresh signal to
+   * content script; a failed delete leaves the list as it was
    * @param {string} id - The unique ID of the highlight to delete
    */
-  const handleDelete = (id: string) => {
-    HighlightStorage.delete(id)
+  const handleDelete = async (id: string) => {
+    let removed: boolean
+    try {
+      removed = await HighlightStorage.delete(id)
+    } catch (error) {
+      console.warn("Could not delete highlight:", error)
+      return
+    }
     setHighlights((prev) => prev.filter((h) => h.id !== id))
+    if (removed) setTotalHighlights((prev) => prev - 1)
 
     // Notify content script to re-render highlights
     chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
@@ -73,17 +236,107 @@ function IndexPopup() {
   }
 
   /**
-   * Filters highlights based on search query
-   * Searches both the highlighted text content and associated notes
+   * Starts the re-anchor flow for an orphaned highlight
+   * The content script waits for the user to select the new location, so the
+   * popup closes to give them the page back
+   * @param {string} id - The unique ID of the orphaned highlight
+   */
+  const handleReanchor = (id: string) => {
+    chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
+      if (tabs[0]?.id) {
+        chrome.tabs.sendMessage(tabs[0].id, { type: "START_REANCHOR", id })
+        window.close()
+      }
+    })
+  }
+
+  /**
+   * Scrolls the page to a highlight and closes the popup
+   * The highlight belongs to the current tab's page; if its content script
+   * can't be reached (e.g. the tab was navigated away), the background opens
+   * the page instead.
+   * @param {string} id - The unique ID of the highlight to show
+   */
+  const handleGoTo = (id: string) => {
+    chrome.tabs.query({ active: true, currentWindow: true }, async (tabs) => {
+      try {
+        await chrome.tabs.sendMessage(tabs[0]?.id, {
+          type: "SCROLL_TO_HIGHLIGHT",
+          id
+        })
+      } catch {
+        await HighlightStorage.open(id).catch((error) =>
+          console.warn("Could not open highlight:", error)
+        )
+      }
+      window.close()
+    })
+  }
+
+  /**
+   * Opens the full-page library of highlights from every page in a new tab
    */
-  const filteredHighlights = highlights.filter(
-    (h) =>
-      h.text.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      h.note.toLowerCase().includes(searchQuery.toLowerCase())
+  const handleOpenLibrary = () => {
+    chrome.tabs.create({ url: chrome.runtime.getURL("tabs/library.html") })
+  }
+
+  /**
+   * Opens the options page with the site rules and highlighter settings
+   */
+  const handleOpenSettings = () => {
+    chrome.runtime.openOptionsPage()
+  }
+
+  /**
+   * Opens a search result: scrolls to it on this page, or opens its page
+   * @param {SearchResult} result - The clicked result
+   */
+  const handleSelectResult = (result: SearchResult) => {
+    const id = result.highlight.id
+    if (highlights.some((h) => h.id === id)) {
+      handleGoTo(id)
+      return
+    }
+    HighlightStorage.open(id)
+      .then(() => window.close())
+      .catch((error) => console.warn("Could not open highlight:", error))
+  }
+
+  /**
+   * Checks a highlight against the tag, collection and color dropdowns
+   * @param {Highlight} h - The highlight to check
+   * @returns {boolean} True if it passes every selected filter
+   */
+  const matchesDropdowns = (h: Highlight) =>
+    (!tagFilter || hasTag(h, tagFilter)) &&
+    (!collectionFilter || h.collections?.includes(collectionFilter)) &&
+    (!colorFilter || h.colorId === colorFilter)
+
+  // Page highlights listed while the search box is empty
+  const filteredHighlights = highlights.filter(matchesDropdowns)
+  // Search results passing the dropdown filters
+  const filteredResults = searchResults?.filter((r) =>
+    matchesDropdowns(r.highlight)
   )
 
-  // Get total highlights across all pages for summary display
-  const totalHighlights = HighlightStorage.getAll().length
+  // Tags used on this page, offered in the tag filter
+  const pageTags = collectTags(highlights)
+  // Collection names by ID, for the highlight cards
+  const collectionNames = new Map(collections.map((c) => [c.id, c.name]))
+
+  // Whether the settings turn the highlighter off for the current site
+  const isSiteDisabled =
+    Boolean(settings && currentHost) && !isSiteEnabled(settings, currentHost)
+  // Whether the highlighter is on in the current tab, by the user's choice
+  // or the site's auto-activation setting
+  const isActivated =
+    !isSiteDisabled &&
+    (tabActivation ??
+      Boolean(settings && isSiteAutoActivated(settings, currentHost)))
+
+  // Highlights the content script could not place on the page are listed separately
+  const placedHighlights = filteredHighlights.filter((h) => !h.orphaned)
+  const orphanedHighlights = filteredHighlights.filter((h) => h.orphaned)
 
   return (
     <div className="w-96 max-h-96 p-4 bg-white">
@@ -103,10 +356,26 @@ function IndexPopup() {
             </div>
           </div>
 
+          {/* Notice for sites turned off on the options page */}
+          {isSiteDisabled && (
+            <div className="flex items-center gap-2 p-2 rounded border border-gray-200 bg-gray-50 text-xs text-gray-700">
+              <Ban className="h-4 w-4 shrink-0 text-gray-400" />
+              <span className="flex-1">
+                The highlighter is turned off for {currentHost} in the settings
+              </span>
+              <button
+                onClick={handleOpenSettings}
+                className="font-medium text-blue-600 hover:text-blue-700 focus:outline-none">
+                Change
+              </button>
+            </div>
+          )}
+
           {/* Activation toggle button */}
           <button
             onClick={handleToggleActivation}
-            className={`w-full py-2 rounded text-white text-sm font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-yellow-400 ${
+            disabled={isSiteDisabled}
+            className={`w-full py-2 rounded text-white text-sm font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-yellow-400 disabled:opacity-50 ${
               isActivated
                 ? "bg-green-600 hover:bg-green-700"
                 : "bg-gray-500 hover:bg-gray-600"
@@ -122,24 +391,92 @@ function IndexPopup() {
         </div>
 
         {/* Search input (only shown when there are highlights) */}
-        {highlights.length > 0 && (
+        {totalHighlights > 0 && (
           <div className="space-y-2">
             <div className="relative">
               <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
               <input
                 type="text"
-                placeholder="Search highlights..."
+                placeholder="Search... try tag:, color:, site:, after:"
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="pl-8 h-9 w-full border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-yellow-400 text-sm"
               />
             </div>
+
+            {/* Search scope */}
+            <div className="flex gap-3 text-xs text-gray-700">
+              <label className="flex items-center gap-1">
+                <input
+                  type="radio"
+                  checked={searchScope === "page"}
+                  onChange={() => setSearchScope("page")}
+                />
+                This page
+              </label>
+              <label className="flex items-center gap-1">
+                <input
+                  type="radio"
+                  checked={searchScope === "all"}
+                  onChange={() => setSearchScope("all")}
+                />
+                All pages
+              </label>
+            </div>
+
+            {/* Color, tag and collection filters */}
+            <div className="flex gap-2">
+              <select
+                value={colorFilter}
+                onChange={(e) => setColorFilter(e.target.value)}
+                className="flex-1 h-8 border border-gray-300 rounded bg-white px-1 text-xs focus:outline-none focus:ring-2 focus:ring-yellow-400">
+                <option value="">All colors</option>
+                {palette.map((entry) => (
+                  <option key={entry.id} value={entry.id}>
+                    {entry.label}
+                  </option>
+                ))}
+              </select>
+              {pageTags.length > 0 && (
+                <select
+                  value={tagFilter}
+                  onChange={(e) => setTagFilter(e.target.value)}
+                  className="flex-1 h-8 border border-gray-300 rounded bg-white px-1 text-xs focus:outline-none focus:ring-2 focus:ring-yellow-400">
+                  <option value="">All tags</option>
+                  {pageTags.map((tag) => (
+                    <option key={tag} value={tag}>
+                      #{tag}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {collections.length > 0 && (
+                <select
+                  value={collectionFilter}
+                  onChange={(e) => setCollectionFilter(e.target.value)}
+                  className="flex-1 h-8 border border-gray-300 rounded bg-white px-1 text-xs focus:outline-none focus:ring-2 focus:ring-yellow-400">
+                  <option value="">All collections</option>
+                  {collections.map((collection) => (
+                    <option key={collection.id} value={collection.id}>
+                      {collection.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
           </div>
         )}
 
         {/* Main content area with highlights list */}
         <div className="space-y-2 max-h-64 overflow-y-auto">
-          {filteredHighlights.length === 0 ? (
+          {filteredResults ? (
+            // Ranked search results while the search box is in use
+            <SearchResults
+              results={filteredResults}
+              showPages={searchScope === "all"}
+              onSelect={handleSelectResult}
+            />
+          ) : filteredHighlights.length === 0 ? (
             // Empty state when no highlights exist or match search
             <div className="p-4 text-center border border-gray-200 rounded-lg bg-gray-50">
               <div className="space-y-2">
@@ -153,44 +490,196 @@ function IndexPopup() {
               </div>
             </div>
           ) : (
-            // List of highlights matching the current search/filter
-            filteredHighlights.map((highlight) => (
-              <div
-                key={highlight.id}
-                className="p-3 space-y-2 border border-gray-200 rounded-lg bg-white">
-                {/* Highlighted text preview with visual styling */}
-                <div className="bg-yellow-100 p-2 rounded text-xs text-gray-800 border-l-2 border-yellow-400">
-                  "
-                  {highlight.text.length > 100
-                    ? highlight.text.substring(0, 100) + "..."
-                    : highlight.text}
-                  "
+            <>
+              {/* List of highlights matching the current search/filter */}
+              {placedHighlights.map((highlight) => (
+                <div
+                  key={highlight.id}
+                  className="p-3 space-y-2 border border-gray-200 rounded-lg bg-white">
+                  {/* Highlighted text preview; click to scroll to it */}
+                  <button
+                    onClick={() => handleGoTo(highlight.id)}
+                    title="Scroll to this highlight"
+                    className="w-full text-left hover:opacity-80 p-2 rounded text-xs text-gray-800 border-l-2 transition-opacity"
+                    style={{
+                      backgroundColor: `${getHighlightColor(highlight, palette)}80`,
+                      borderColor: getHighlightColor(highlight, palette)
+                    }}>
+                    "
+                    {highlight.text.length > 100
+                      ? highlight.text.substring(0, 100) + "..."
+                      : highlight.text}
+                    "
+                  </button>
+
+                  {/* Note display (if note exists) */}
+                  {highlight.note && (
+                    <div className="flex gap-1 bg-gray-50 p-2 rounded text-xs text-gray-700">
+                      <span>📝</span>
+                      <Markdown
+                        source={highlight.note}
+                        className="flex-1 min-w-0"
+                      />
+                    </div>
+                  )}
+
+                  {/* Comment thread of the highlight */}
+                  <CommentThread comments={highlight.comments || []} />
+
+                  {/* Tags and collections of the highlight */}
+                  {(highlight.tags?.length > 0 ||
+                    highlight.collections?.length > 0) && (
+                    <div className="flex flex-wrap gap-1">
+                      {highlight.tags?.map((tag) => (
+                        <button
+                          key={tag}
+                          onClick={() => setTagFilter(tag)}
+                          className="bg-blue-100 hover:bg-blue-200 text-blue-800 rounded px-1.5 py-0.5 text-xs"
+                          title="Show highlights with this tag">
+                          #{tag}
+                        </button>
+                      ))}
+                      {highlight.collections
+                        ?.filter((id) => collectionNames.has(id))
+                        .map((id) => (
+                          <button
+                            key={id}
+                            onClick={() => setCollectionFilter(id)}
+                            className="flex items-center gap-0.5 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded px-1.5 py-0.5 text-xs"
+                            title="Show highlights in this collection">
+                            <Folder className="h-3 w-3" />
+                            {collectionNames.get(id)}
+                          </button>
+                        ))}
+                    </div>
+                  )}
+
+                  {/* Footer with timestamp, color label, go-to and delete buttons */}
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2 text-xs text-gray-500">
+                      <span>
+                        {new Date(highlight.timestamp).toLocaleDateString()}
+                      </span>
+                      {findPaletteColor(palette, highlight.colorId) && (
+                        <button
+                          onClick={() => setColorFilter(highlight.colorId)}
+                          className="flex items-center gap-1 hover:text-gray-900"
+                          title="Show highlights with this color">
+                          <span
+                            className="w-2.5 h-2.5 rounded-full border border-gray-300"
+                            style={{
+                              backgroundColor: getHighlightColor(
+                                highlight,
+                                palette
+                              )
+                            }}
+                          />
+                          {findPaletteColor(palette, highlight.colorId).label}
+                        </button>
+                      )}
+                    </div>
+                    <div className="flex items-center">
+                      <button
+                        onClick={() => handleGoTo(highlight.id)}
+                        className="h-6 w-6 p-0 flex items-center justify-center text-gray-400 hover:text-blue-600 focus:outline-none"
+                        title="Scroll to highlight">
+                        <ExternalLink className="h-3 w-3" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(highlight.id)}
+                        className="h-6 w-6 p-0 flex items-center justify-center text-gray-400 hover:text-red-600 focus:outline-none"
+                        title="Delete highlight">
+                        <Trash2 className="h-3 w-3" />
+                      </button>
+                    </div>
+                  </div>
                 </div>
+              ))}
 
-                {/* Note display (if note exists) */}
-                {highlight.note && (
-                  <div className="bg-gray-50 p-2 rounded text-xs text-gray-700">
-                    📝 {highlight.note}
+              {/* Highlights whose text could not be found on the page */}
+              {orphanedHighlights.length > 0 && (
+                <div className="space-y-2 pt-2">
+                  <div className="flex items-center gap-1 text-xs font-medium text-amber-700">
+                    <AlertTriangle className="h-3 w-3" />
+                    Couldn't place on this page ({orphanedHighlights.length})
                   </div>
-                )}
+                  {orphanedHighlights.map((highlight) => (
+                    <div
+                      key={highlight.id}
+                      className="p-3 space-y-2 border border-amber-200 rounded-lg bg-amber-50">
+                      {/* Text of the orphaned highlight */}
+                      <div className="bg-white p-2 rounded text-xs text-gray-800 border-l-2 border-amber-400">
+                        "
+                        {highlight.text.length > 100
+                          ? highlight.text.substring(0, 100) + "..."
+                          : highlight.text}
+                        "
+                      </div>
 
-                {/* Footer with timestamp and delete button */}
-                <div className="flex items-center justify-between">
-                  <span className="text-xs text-gray-500">
-                    {new Date(highlight.timestamp).toLocaleDateString()}
-                  </span>
-                  <button
-                    onClick={() => handleDelete(highlight.id)}
-                    className="h-6 w-6 p-0 flex items-center justify-center text-gray-400 hover:text-red-600 focus:outline-none"
-                    title="Delete highlight">
-                    <Trash2 className="h-3 w-3" />
-                  </button>
+                      {/* Note display (if note exists) */}
+                      {highlight.note && (
+                        <div className="flex gap-1 bg-white p-2 rounded text-xs text-gray-700">
+                          <span>📝</span>
+                          <Markdown
+                            source={highlight.note}
+                            className="flex-1 min-w-0"
+                          />
+                        </div>
+                      )}
+
+                      {/* Footer with re-anchor and delete buttons */}
+                      <div className="flex items-center justify-between">
+                        {/* The PDF viewer has no re-anchor mode */}
+                        {highlight.pdfPage ? (
+                          <span className="text-xs text-gray-500">
+                            Page {highlight.pdfPage}
+                          </span>
+                        ) : (
+                          <button
+                            onClick={() => handleReanchor(highlight.id)}
+                            className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-700 focus:outline-none"
+                            title="Select the new location on the page">
+                            <Crosshair className="h-3 w-3" />
+                            Re-anchor
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleDelete(highlight.id)}
+                          className="h-6 w-6 p-0 flex items-center justify-center text-gray-400 hover:text-red-600 focus:outline-none"
+                          title="Delete highlight">
+                          <Trash2 className="h-3 w-3" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
                 </div>
-              </div>
-            ))
+              )}
+            </>
           )}
         </div>
 
+        {/* Library of all highlights, export, import, colors, the trash and settings */}
+        <div className="space-y-2">
+          {totalHighlights > 0 && (
+            <button
+              onClick={handleOpenLibrary}
+              className="w-full flex items-center justify-center gap-1 border border-gray-300 rounded px-3 py-1.5 text-xs font-medium hover:bg-gray-100 transition-colors">
+              <Library className="h-3 w-3" />
+              Open library ({totalHighlights})
+            </button>
+          )}
+          {totalHighlights > 0 && <ExportMenu pageHighlights={highlights} />}
+          <ImportPanel onImported={handleImported} />
+          <PaletteEditor palette={palette} onSaved={handlePaletteSaved} />
+          <TrashPanel onRestored={handleImported} />
+          <button
+            onClick={handleOpenSettings}
+            className="w-full flex items-center justify-center gap-1 border border-gray-300 rounded px-3 py-1.5 text-xs font-medium hover:bg-gray-100 transition-colors">
+            <SettingsIcon className="h-3 w-3" />
+            Settings
+          </button>
+        </div>
+
         {/* Footer with usage instructions */}
         <div className="pt-2 border-t">
           <p className="text-xs text-gray-500 text-center">
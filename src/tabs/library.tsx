@@ -0,0 +1,459 @@
+// Read-only comment threads and Markdown notes on highlight cards
+import { CommentThread } from "@/components/CommentThread"
+import { Markdown } from "@/components/Markdown"
+// Grouping, sorting and filtering helpers for the library
+import {
+  groupByDomain,
+  matchesQuery,
+  sortHighlights,
+  type LibrarySort
+} from "@/lib/library"
+// Palette for sorting by color
+import { DEFAULT_PALETTE, type PaletteColor } from "@/lib/palette"
+// Storage utilities for managing highlights
+import { HighlightStorage } from "@/lib/storage"
+// Tag helpers for the tag filter
+import { collectTags, hasTag } from "@/lib/tags"
+// Type definitions for highlight and collection objects
+import type { Collection, Highlight } from "@/lib/types"
+// Icons for search, paging, page links and delete actions
+import {
+  AlertTriangle,
+  ChevronLeft,
+  ChevronRight,
+  ExternalLink,
+  Folder,
+  Globe,
+  Search,
+  Trash2
+} from "lucide-react"
+import { useEffect, useMemo, useState } from "react"
+
+// Import global styles for the library page
+import "../styles/globals.css"
+
+// Number of highlights shown per page of the library
+const PAGE_SIZE = 50
+
+// Available sort orders, in display order
+const SORT_OPTIONS: { value: LibrarySort; label: string }[] = [
+  { value: "date", label: "Newest first" },
+  { value: "color", label: "Color" },
+  { value: "page", label: "Page" }
+]
+
+/**
+ * Library Page
+ *
+ * A full-page view of every saved highlight across all sites, grouped by
+ * domain and page. Highlights can be searched, sorted by date, color or page,
+ * selected in bulk for deletion, and opened on their source page, which is
+ * then scrolled to the highlight.
+ *
+ * Only one page of {@link PAGE_SIZE} highlights is rendered at a time so the
+ * view stays responsive with thousands of highlights.
+ *
+ * @returns {JSX.Element} The library page
+ */
+function LibraryPage() {
+  // State for every saved highlight
+  const [highlights, setHighlights] = useState<Highlight[]>([])
+  // State for whether highlights are still loading
+  const [isLoading, setIsLoading] = useState(true)
+  // State for the search input to filter highlights
+  const [searchQuery, setSearchQuery] = useState("")
+  // State for every collection the user has created
+  const [collections, setCollections] = useState<Collection[]>([])
+  // State for the tag to filter by, empty for all tags
+  const [tagFilter, setTagFilter] = useState("")
+  // State for the collection ID to filter by, empty for all collections
+  const [collectionFilter, setCollectionFilter] = useState("")
+  // State for the user's color palette
+  const [palette, setPalette] = useState<PaletteColor[]>(DEFAULT_PALETTE)
+  // State for the chosen sort order
+  const [sort, setSort] = useState<LibrarySort>("date")
+  // State for the current page of results, zero-based
+  const [page, setPage] = useState(0)
+  // State for the IDs of highlights selected for bulk actions
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  // State for the last error message
+  const [error, setError] = useState("")
+
+  // Load every highlight when the page opens
+  useEffect(() => {
+    HighlightStorage.getAll()
+      .then(setHighlights)
+      .catch((error) => setError(`Could not load highlights: ${error}`))
+      .finally(() => setIsLoading(false))
+    HighlightStorage.listCollections()
+      .then(setCollections)
+      .catch((error) => setError(`Could not load collections: ${error}`))
+    HighlightStorage.getPalette()
+      .then(setPalette)
+      .catch((error) => setError(`Could not load color palette: ${error}`))
+  }, [])
+
+  // Go back to the first page whenever the result set changes
+  useEffect(() => {
+    setPage(0)
+  }, [searchQuery, sort, tagFilter, collectionFilter])
+
+  /**
+   * Highlights matching the search and filters, in the chosen order
+   */
+  const sortedHighlights = useMemo(
+    () =>
+      sortHighlights(
+        highlights.filter(
+          (h) =>
+            matchesQuery(h, searchQuery) &&
+            (!tagFilter || hasTag(h, tagFilter)) &&
+            (!collectionFilter || h.collections?.includes(collectionFilter))
+        ),
+        sort,
+        palette
+      ),
+    [highlights, searchQuery, sort, tagFilter, collectionFilter, palette]
+  )
+
+  // Every tag in use, offered in the tag filter
+  const allTags = useMemo(() => collectTags(highlights), [highlights])
+  // Collection names by ID, for the highlight cards
+  const collectionNames = new Map(collections.map((c) => [c.id, c.name]))
+
+  const pageCount = Math.max(1, Math.ceil(sortedHighlights.length / PAGE_SIZE))
+  const currentPage = Math.min(page, pageCount - 1)
+  const pageHighlights = sortedHighlights.slice(
+    currentPage * PAGE_SIZE,
+    (currentPage + 1) * PAGE_SIZE
+  )
+  const groups = groupByDomain(pageHighlights)
+  const isPageSelected =
+    pageHighlights.length > 0 &&
+    pageHighlights.every((h) => selectedIds.has(h.id))
+
+  /**
+   * Toggles the selection of a single highlight
+   * @param {string} id - The unique ID of the highlight
+   */
+  const handleToggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  /**
+   * Selects or deselects every highlight on the current page
+   */
+  const handleTogglePage = () => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      pageHighlights.forEach((h) =>
+        isPageSelected ? next.delete(h.id) : next.add(h.id)
+      )
+      return next
+    })
+  }
+
+  /**
+   * Deletes highlights from storage and local state
+   * @param {string[]} ids - The unique IDs of the highlights to delete
+   */
+  const deleteHighlights = async (ids: string[]) => {
+    try {
+      await HighlightStorage.deleteMany(ids)
+      const removed = new Set(ids)
+      setHighlights((prev) => prev.filter((h) => !removed.has(h.id)))
+      setSelectedIds((prev) => {
+        const next = new Set(prev)
+        ids.forEach((id) => next.delete(id))
+        return next
+      })
+    } catch (error) {
+      setError(`Could not delete highlights: ${error}`)
+    }
+  }
+
+  /**
+   * Deletes every selected highlight after confirmation
+   */
+  const handleDeleteSelected = () => {
+    const count = selectedIds.size
+    if (count === 0) return
+    if (
+      !window.confirm(
+        `Move ${count} highlight${count === 1 ? "" : "s"} to the trash? They can be restored from the popup.`
+      )
+    )
+      return
+    deleteHighlights([...selectedIds])
+  }
+
+  /**
+   * Opens a highlight's page and scrolls to the highlight
+   * @param {string} id - The unique ID of the highlight to open
+   */
+  const handleOpen = (id: string) => {
+    HighlightStorage.open(id).catch((error) =>
+      setError(error instanceof Error ? error.message : String(error))
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto p-6 space-y-4">
+        {/* Header with logo and statistics */}
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-yellow-400 rounded-lg flex items-center justify-center">
+            <span className="text-white font-bold">H</span>
+          </div>
+          <div>
+            <h1 className="text-xl font-semibold text-gray-900">
+              Highlight Library
+            </h1>
+            <p className="text-sm text-gray-500">
+              {highlights.length} highlights saved
+              {sortedHighlights.length !== highlights.length &&
+                ` • ${sortedHighlights.length} matching`}
+            </p>
+          </div>
+        </div>
+
+        {/* Search and sort controls */}
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Search text, notes and page titles..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-8 h-9 w-full border border-gray-300 rounded bg-white focus:outline-none focus:ring-2 focus:ring-yellow-400 text-sm"
+            />
+          </div>
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as LibrarySort)}
+            className="h-9 border border-gray-300 rounded bg-white px-2 text-sm focus:outline-none focus:ring-2 focus:ring-yellow-400">
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                Sort: {option.label}
+              </option>
+            ))}
+          </select>
+          {allTags.length > 0 && (
+            <select
+              value={tagFilter}
+              onChange={(e) => setTagFilter(e.target.value)}
+              className="h-9 border border-gray-300 rounded bg-white px-2 text-sm focus:outline-none focus:ring-2 focus:ring-yellow-400">
+              <option value="">All tags</option>
+              {allTags.map((tag) => (
+                <option key={tag} value={tag}>
+                  #{tag}
+                </option>
+              ))}
+            </select>
+          )}
+          {collections.length > 0 && (
+            <select
+              value={collectionFilter}
+              onChange={(e) => setCollectionFilter(e.target.value)}
+              className="h-9 border border-gray-300 rounded bg-white px-2 text-sm focus:outline-none focus:ring-2 focus:ring-yellow-400">
+              <option value="">All collections</option>
+              {collections.map((collection) => (
+                <option key={collection.id} value={collection.id}>
+                  {collection.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        {/* Bulk selection bar */}
+        <div className="flex items-center justify-between text-sm">
+          <label className="flex items-center gap-2 text-gray-700">
+            <input
+              type="checkbox"
+              checked={isPageSelected}
+              onChange={handleTogglePage}
+              disabled={pageHighlights.length === 0}
+            />
+            Select all on this page
+          </label>
+          <button
+            onClick={handleDeleteSelected}
+            disabled={selectedIds.size === 0}
+            className="flex items-center gap-1 rounded px-3 py-1.5 text-sm font-medium text-white bg-red-600 hover:bg-red-700 disabled:opacity-50 transition-colors">
+            <Trash2 className="h-4 w-4" />
+            Delete selected ({selectedIds.size})
+          </button>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 p-2 rounded border border-red-200 bg-red-50 text-sm text-red-700">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {/* Highlights grouped by domain and page */}
+        {isLoading ? (
+          <p className="text-sm text-gray-500 text-center">Loading...</p>
+        ) : groups.length === 0 ? (
+          <div className="p-6 text-center border border-gray-200 rounded-lg bg-white">
+            <h3 className="font-medium text-gray-900">
+              {highlights.length === 0
+                ? "No highlights yet"
+                : "No highlights match your search"}
+            </h3>
+          </div>
+        ) : (
+          groups.map((group) => (
+            <section key={group.domain} className="space-y-2">
+              <h2 className="flex items-center gap-1 text-sm font-semibold text-gray-700">
+                <Globe className="h-4 w-4 text-gray-400" />
+                {group.domain}
+              </h2>
+
+              {group.pages.map((libraryPage) => (
+                <div
+                  key={libraryPage.url}
+                  className="p-3 space-y-2 border border-gray-200 rounded-lg bg-white">
+                  {/* Page title linking to the source page */}
+                  <a
+                    href={libraryPage.url}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="flex items-center gap-1 text-sm font-medium text-gray-900 hover:text-blue-600">
+                    <span className="truncate">
+                      {libraryPage.title || libraryPage.url}
+                    </span>
+                    <ExternalLink className="h-3 w-3 shrink-0" />
+                  </a>
+
+                  {libraryPage.highlights.map((highlight) => (
+                    <div key={highlight.id} className="flex items-start gap-2">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(highlight.id)}
+                        onChange={() => handleToggleSelected(highlight.id)}
+                        className="mt-2"
+                      />
+
+                      <div className="flex-1 space-y-1">
+                        {/* Highlighted text; click to open it on its page */}
+                        <button
+                          onClick={() => handleOpen(highlight.id)}
+                          title="Open and scroll to this highlight"
+                          className="w-full text-left p-2 rounded text-sm text-gray-800 border-l-4 hover:opacity-80"
+                          style={{
+                            backgroundColor: `${highlight.color || "#fef08a"}80`,
+                            borderColor: highlight.color || "#fef08a"
+                          }}>
+                          "{highlight.text}"
+                        </button>
+
+                        {/* Note display (if note exists) */}
+                        {highlight.note && (
+                          <div className="flex gap-1 bg-gray-50 p-2 rounded text-xs text-gray-700">
+                            <span>📝</span>
+                            <Markdown
+                              source={highlight.note}
+                              className="flex-1 min-w-0"
+                            />
+                          </div>
+                        )}
+
+                        {/* Comment thread of the highlight */}
+                        <CommentThread comments={highlight.comments || []} />
+
+                        {/* Tags and collections of the highlight */}
+                        {(highlight.tags?.length > 0 ||
+                          highlight.collections?.length > 0) && (
+                          <div className="flex flex-wrap gap-1">
+                            {highlight.tags?.map((tag) => (
+                              <button
+                                key={tag}
+                                onClick={() => setTagFilter(tag)}
+                                className="bg-blue-100 hover:bg-blue-200 text-blue-800 rounded px-1.5 py-0.5 text-xs"
+                                title="Show highlights with this tag">
+                                #{tag}
+                              </button>
+                            ))}
+                            {highlight.collections
+                              ?.filter((id) => collectionNames.has(id))
+                              .map((id) => (
+                                <button
+                                  key={id}
+                                  onClick={() => setCollectionFilter(id)}
+                                  className="flex items-center gap-0.5 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded px-1.5 py-0.5 text-xs"
+                                  title="Show highlights in this collection">
+                                  <Folder className="h-3 w-3" />
+                                  {collectionNames.get(id)}
+                                </button>
+                              ))}
+                          </div>
+                        )}
+
+                        <div className="flex items-center gap-2 text-xs text-gray-500">
+                          <span>
+                            {new Date(highlight.timestamp).toLocaleString()}
+                          </span>
+                          {highlight.orphaned && (
+                            <span className="flex items-center gap-1 text-amber-700">
+                              <AlertTriangle className="h-3 w-3" />
+                              Not found on page
+                            </span>
+                          )}
+                        </div>
+                      </div>
+
+                      <button
+                        onClick={() => deleteHighlights([highlight.id])}
+                        className="h-6 w-6 mt-1 p-0 flex items-center justify-center text-gray-400 hover:text-red-600 focus:outline-none"
+                        title="Delete highlight">
+                        <Trash2 className="h-3 w-3" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </section>
+          ))
+        )}
+
+        {/* Pagination controls */}
+        {pageCount > 1 && (
+          <div className="flex items-center justify-center gap-3 text-sm text-gray-700">
+            <button
+              onClick={() => setPage(currentPage - 1)}
+              disabled={currentPage === 0}
+              className="h-8 w-8 flex items-center justify-center border border-gray-300 rounded bg-white hover:bg-gray-100 disabled:opacity-50"
+              title="Previous page">
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            <span>
+              Page {currentPage + 1} of {pageCount}
+            </span>
+            <button
+              onClick={() => setPage(currentPage + 1)}
+              disabled={currentPage >= pageCount - 1}
+              className="h-8 w-8 flex items-center justify-center border border-gray-300 rounded bg-white hover:bg-gray-100 disabled:opacity-50"
+              title="Next page">
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Export the library page as the default export for Plasmo
+export default LibraryPage
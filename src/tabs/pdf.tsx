@@ -0,0 +1,582 @@
+// Page renderer and highlight tooltip
+import { HighlightTooltip } from "@/components/HighlightTooltip"
+import { PdfPage } from "@/components/PdfPage"
+import { UndoToast } from "@/components/UndoToast"
+// Quote anchoring shared with web pages
+import {
+  getPageText,
+  HIGHLIGHT_CLASS,
+  positionToRange,
+  resolveHighlight
+} from "@/lib/anchoring"
+// Highlight span helpers
+import {
+  findHighlightElement,
+  flashHighlight,
+  unwrapHighlights,
+  wrapRange
+} from "@/lib/highlighter"
+// Palette for the color picker
+import {
+  DEFAULT_PALETTE,
+  findPaletteColor,
+  type PaletteColor
+} from "@/lib/palette"
+// Viewer URL parameters and PDF selection anchoring
+import { describePdfRange, getPdfHighlightId } from "@/lib/pdf"
+// Default color and minimum selection length
+import { DEFAULT_SETTINGS, type Settings } from "@/lib/settings"
+// Storage utilities for managing highlights
+import { HighlightStorage } from "@/lib/storage"
+// Type definitions for highlight objects
+import type { Highlight, HighlightOperation } from "@/lib/types"
+// Undo toast messages and shortcuts
+import { describeOperation, getHistoryShortcut } from "@/lib/undo"
+// Icon for the viewer header
+import { FileText } from "lucide-react"
+// PDF loading and the worker that parses documents off the main thread
+import {
+  getDocument,
+  getPdfFilenameFromUrl,
+  GlobalWorkerOptions,
+  type PDFDocumentProxy
+} from "pdfjs-dist"
+import { useEffect, useRef, useState } from "react"
+import workerUrl from "url:pdfjs-dist/build/pdf.worker.min.js"
+
+// Import global styles and the text layer styles for the viewer
+import "../styles/globals.css"
+import "../styles/pdf.css"
+
+// Zoom factor pages are rendered at
+const PDF_SCALE = 1.5
+
+GlobalWorkerOptions.workerSrc = workerUrl
+
+/**
+ * PDF Viewer Page
+ *
+ * PDFs opened in the browser are redirected here, since the browser's own
+ * viewer can't be reached by content scripts. Pages are rendered with pdf.js
+ * and overlaid with its text layer, so text can be selected and highlighted
+ * like on a web page. Highlights are saved in the same store under the PDF's
+ * own URL, located by page number and text quote.
+ *
+ * The PDF's URL is read from the `file` query parameter; a
+ * `#highlight=<id>` fragment scrolls to a highlight once its page renders.
+ *
+ * @returns {JSX.Element} The viewer page
+ */
+function PdfViewerPage() {
+  // URL of the PDF being shown, which its highlights are stored under
+  const [fileUrl] = useState(
+    () => new URLSearchParams(window.location.search).get("file") || ""
+  )
+  // State for the loaded document
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null)
+  // State for the size pages take up before they are rendered
+  const [placeholderSize, setPlaceholderSize] = useState({
+    width: 0,
+    height: 0
+  })
+  // State for the document title shown in the header
+  const [title, setTitle] = useState("")
+  // State for the last error message
+  const [error, setError] = useState("")
+  // State for the user's color palette
+  const [palette, setPalette] = useState<PaletteColor[]>(DEFAULT_PALETTE)
+  // State for the user's settings, which hold the color new highlights get
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS)
+  // State for the highlight shown in the tooltip
+  const [activeHighlight, setActiveHighlight] = useState<Highlight | null>(null)
+  // State for where the tooltip opens, in viewport coordinates
+  const [tooltipPosition, setTooltipPosition] = useState({ x: 0, y: 0 })
+  // State for opening the tooltip straight into edit mode
+  const [isEditingTooltip, setIsEditingTooltip] = useState(false)
+  // State for the last change, offered for undo or redo
+  const [toast, setToast] = useState<{
+    id: number
+    message: string
+    action: "undo" | "redo"
+  } | null>(null)
+  // Highlights of this PDF, as last loaded from the store
+  const highlightsRef = useRef<Highlight[]>([])
+  // Text layers of the rendered pages, by page number
+  const textLayersRef = useRef(new Map<number, HTMLElement>())
+  // Highlight to scroll to once its page has rendered
+  const pendingScrollRef = useRef<string | null>(
+    getPdfHighlightId(window.location.hash)
+  )
+  // Wrapper of the tooltip, so clicks inside it don't close it
+  const tooltipRef = useRef<HTMLDivElement>(null)
+
+  const { minSelectionLength, defaultColorId: selectedColorId } = settings
+
+  useEffect(() => {
+    if (!fileUrl) {
+      setError("No PDF to show")
+      return
+    }
+
+    const task = getDocument({ url: fileUrl, withCredentials: true })
+    task.promise
+      .then(async (doc) => {
+        const firstPage = await doc.getPage(1)
+        const viewport = firstPage.getViewport({ scale: PDF_SCALE })
+        setPlaceholderSize({ width: viewport.width, height: viewport.height })
+
+        const metadata = await doc.getMetadata().catch(() => null)
+        const name =
+          (metadata?.info as { Title?: string } | undefined)?.Title ||
+          getPdfFilenameFromUrl(fileUrl)
+        setTitle(name)
+        // Highlights made here take the page title, as on web pages
+        document.title = name
+        setPdf(doc)
+      })
+      .catch((error) =>
+        setError(
+          `Could not open the PDF: ${error instanceof Error ? error.message : String(error)}`
+        )
+      )
+
+    loadHighlights()
+    loadPalette()
+    loadSettings()
+
+    // Changes made in the popup, the library or another tab show up here
+    // too; extension pages can't receive the content script's messages
+    const handleStorageChange = (_: unknown, areaName: string) => {
+      if (areaName !== "local") return
+      loadHighlights()
+      loadPalette()
+      loadSettings()
+    }
+    chrome.storage.onChanged.addListener(handleStorageChange)
+
+    // Opening a highlight from the popup or library while this PDF is shown
+    // only changes the fragment
+    const handleHashChange = () => {
+      const id = getPdfHighlightId(window.location.hash)
+      if (id) scrollToHighlight(id)
+    }
+    window.addEventListener("hashchange", handleHashChange)
+
+    return () => {
+      task.destroy()
+      chrome.storage.onChanged.removeListener(handleStorageChange)
+      window.removeEventListener("hashchange", handleHashChange)
+    }
+  }, [])
+
+  useEffect(() => {
+    // Bring the requested highlight's page into view so it renders
+    if (pdf && pendingScrollRef.current) {
+      scrollToHighlight(pendingScrollRef.current)
+    }
+  }, [pdf])
+
+  useEffect(() => {
+    /**
+     * Highlights text selected in a page's text layer
+     * With Alt held, the tooltip opens to add a note right away.
+     * @param {MouseEvent} e - Mouse event
+     */
+    const handleMouseUp = (e: MouseEvent) => {
+      const selection = window.getSelection()
+      if (!selection || selection.isCollapsed || selection.rangeCount === 0)
+        return
+      const range = selection.getRangeAt(0)
+      const text = selection.toString().trim()
+      if (text.length < minSelectionLength) return
+
+      const start =
+        range.startContainer instanceof Element
+          ? range.startContainer
+          : range.startContainer.parentElement
+      const textLayer = start?.closest<HTMLElement>(".textLayer")
+      const page = textLayer?.closest<HTMLElement>("[data-page-number]")
+      if (!textLayer || !page) return
+      const anchors = describePdfRange(
+        range,
+        textLayer,
+        Number(page.dataset.pageNumber)
+      )
+      if (!anchors) return
+
+      const rect = range.getBoundingClientRect()
+      handleSaveHighlight({
+        url: fileUrl,
+        title: document.title,
+        text,
+        note: "",
+        ...anchors
+      })
+        .then((highlight) => {
+          if (!e.altKey) return
+          setActiveHighlight(highlight)
+          setIsEditingTooltip(true)
+          setTooltipPosition({ x: rect.left, y: rect.bottom })
+        })
+        .catch((error) => console.warn("Could not save highlight:", error))
+      selection.removeAllRanges()
+    }
+
+    /**
+     * Opens the tooltip for a clicked highlight, and closes it on clicks
+     * elsewhere
+     * @param {MouseEvent} e - Mouse click event
+     */
+    const handleClick = (e: MouseEvent) => {
+      if (tooltipRef.current?.contains(e.target as Node)) return
+      const target = (e.target as Element).closest?.(`.${HIGHLIGHT_CLASS}`)
+      const highlight =
+        target &&
+        highlightsRef.current.find(
+          (h) => h.id === target.getAttribute("data-highlight-id")
+        )
+      if (highlight) {
+        setActiveHighlight(highlight)
+        setIsEditingTooltip(false)
+        setTooltipPosition({ x: e.clientX, y: e.clientY })
+      } else {
+        setActiveHighlight(null)
+      }
+    }
+
+    /**
+     * Handles undo and redo shortcuts, and Escape to close the tooltip
+     * @param {KeyboardEvent} e - Keyboard event
+     */
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const direction = getHistoryShortcut(e)
+      if (direction) {
+        e.preventDefault()
+        handleHistory(direction)
+      } else if (e.key === "Escape") {
+        setActiveHighlight(null)
+      }
+    }
+
+    document.addEventListener("mouseup", handleMouseUp)
+    document.addEventListener("click", handleClick)
+    document.addEventListener("keydown", handleKeyDown)
+    return () => {
+      document.removeEventListener("mouseup", handleMouseUp)
+      document.removeEventListener("click", handleClick)
+      document.removeEventListener("keydown", handleKeyDown)
+    }
+  }, [palette, settings])
+
+  /**
+   * Loads the PDF's highlights and places them on every rendered page
+   */
+  const loadHighlights = () => {
+    HighlightStorage.getByUrl(fileUrl)
+      .then((highlights) => {
+        highlightsRef.current = highlights
+        setActiveHighlight(
+          (active) => highlights.find((h) => h.id === active?.id) || null
+        )
+        textLayersRef.current.forEach((_, pageNumber) =>
+          placePageHighlights(pageNumber)
+        )
+        if (pendingScrollRef.current) {
+          scrollToHighlight(pendingScrollRef.current)
+        }
+      })
+      .catch((error) => console.warn("Could not load highlights:", error))
+  }
+
+  /**
+   * Loads the user's color palette for the color picker
+   */
+  const loadPalette = () => {
+    HighlightStorage.getPalette()
+      .then(setPalette)
+      .catch((error) => console.warn("Could not load color palette:", error))
+  }
+
+  /**
+   * Loads the user's settings for the color picker and new highlights
+   */
+  const loadSettings = () => {
+    HighlightStorage.getSettings()
+      .then(setSettings)
+      .catch((error) => console.warn("Could not load settings:", error))
+  }
+
+  /**
+   * Picks the color new highlights get, here and on web pages
+   * @param {string} colorId - The chosen palette entry
+   */
+  const handleColorChange = (colorId: string) => {
+    setSettings((current) => ({ ...current, defaultColorId: colorId }))
+    HighlightStorage.updateSettings({ defaultColorId: colorId }).catch(
+      (error) => console.warn("Could not save the color:", error)
+    )
+  }
+
+  /**
+   * Records a page's text layer once rendered and places its highlights
+   * @param {number} pageNumber - The rendered page, from 1
+   * @param {HTMLElement} textLayer - Its text layer
+   */
+  const handleTextLayerReady = (pageNumber: number, textLayer: HTMLElement) => {
+    textLayersRef.current.set(pageNumber, textLayer)
+    placePageHighlights(pageNumber)
+  }
+
+  /**
+   * Wraps the highlights of one page in its text layer
+   * Each highlight's quote is searched for in the page's text, exactly and
+   * then approximately, as on web pages. Highlights whose text can't be
+   * found are flagged as orphaned so the popup can list them.
+   * @param {number} pageNumber - The page to place highlights on, from 1
+   */
+  const placePageHighlights = (pageNumber: number) => {
+    const textLayer = textLayersRef.current.get(pageNumber)
+    if (!textLayer) return
+    unwrapHighlights(undefined, textLayer)
+
+    // Resolve every highlight before wrapping any, so positions are computed
+    // against the same text
+    const pageText = getPageText(textLayer)
+    const results = highlightsRef.current
+      .filter((h) => h.pdfPage === pageNumber)
+      .map((highlight) => ({
+        highlight,
+        position: resolveHighlight(highlight, pageText).position
+      }))
+
+    results.forEach(({ highlight, position }) => {
+      const range = position && positionToRange(position, pageText)
+      if (range) wrapRange(range, highlight)
+    })
+
+    const pending = pendingScrollRef.current
+    if (pending && findHighlightElement(pending)) scrollToHighlight(pending)
+
+    // Persist orphaned state changes so the popup can list them
+    results
+      .filter(
+        ({ highlight, position }) => Boolean(highlight.orphaned) !== !position
+      )
+      .forEach(({ highlight, position }) => {
+        HighlightStorage.update(highlight.id, { orphaned: !position }).catch(
+          (error) => console.warn("Could not flag highlight:", error)
+        )
+      })
+  }
+
+  /**
+   * Scrolls a highlight into view and flashes it
+   * A highlight on a page that hasn't rendered yet brings its page into
+   * view first and is scrolled to once the page's text layer is ready.
+   * @param {string} id - The ID of the highlight to scroll to
+   */
+  const scrollToHighlight = (id: string) => {
+    const element = findHighlightElement(id)
+    if (element) {
+      pendingScrollRef.current = null
+      element.scrollIntoView({ behavior: "smooth", block: "center" })
+      flashHighlight(id)
+      return
+    }
+
+    pendingScrollRef.current = id
+    const highlight = highlightsRef.current.find((h) => h.id === id)
+    if (highlight?.pdfPage) {
+      document
+        .querySelector(`[data-page-number="${highlight.pdfPage}"]`)
+        ?.scrollIntoView({ block: "center" })
+    }
+  }
+
+  /**
+   * Saves a new highlight in the toolbar's color
+   * @param {Omit<Highlight, "id" | "timestamp" | "color">} highlightData - The highlight without ID, timestamp and color
+   * @returns {Promise<Highlight>} The saved highlight
+   */
+  const handleSaveHighlight = async (
+    highlightData: Omit<Highlight, "id" | "timestamp" | "color">
+  ): Promise<Highlight> => {
+    // The selected entry may have been deleted from the palette meanwhile
+    const entry = findPaletteColor(palette, selectedColorId) || palette[0]
+    const highlight = await HighlightStorage.save({
+      ...highlightData,
+      id: Math.random().toString(36).substr(2, 9),
+      timestamp: Date.now(),
+      colorId: entry.id,
+      color: entry.color
+    })
+    showToast("Highlight added")
+    return highlight
+  }
+
+  /**
+   * Shows the updated highlight in the tooltip and offers to undo the change
+   * @param {Highlight | null} updated - The saved highlight, or null if it no longer exists
+   * @param {string} message - Describes the change in the undo toast
+   */
+  const applyUpdatedHighlight = (
+    updated: Highlight | null,
+    message: string
+  ) => {
+    if (!updated) return
+    showToast(message)
+    setActiveHighlight((active) =>
+      active?.id === updated.id ? updated : active
+    )
+  }
+
+  /**
+   * Deletes a highlight, moving it to the trash
+   * @param {string} id - The ID of the highlight to delete
+   */
+  const handleDeleteHighlight = async (id: string) => {
+    await HighlightStorage.delete(id)
+    showToast("Highlight deleted")
+    setActiveHighlight(null)
+  }
+
+  /**
+   * Shows the toast offering to undo or redo a change
+   * @param {string} message - What just happened
+   * @param {"undo" | "redo"} [action] - What the toast's button does
+   */
+  const showToast = (message: string, action: "undo" | "redo" = "undo") => {
+    setToast({ id: Date.now(), message, action })
+  }
+
+  /**
+   * Undoes or redoes the latest change to this PDF's highlights
+   * @param {"undo" | "redo"} direction - Which way to move through the history
+   */
+  const handleHistory = async (direction: "undo" | "redo") => {
+    let operation: HighlightOperation | null
+    try {
+      operation =
+        direction === "undo"
+          ? await HighlightStorage.undo(fileUrl)
+          : await HighlightStorage.redo(fileUrl)
+    } catch (error) {
+      console.warn(`Could not ${direction}:`, error)
+      return
+    }
+    if (!operation) {
+      setToast(null)
+      return
+    }
+
+    setActiveHighlight(null)
+    showToast(
+      `${direction === "undo" ? "Undone" : "Redone"}: ${describeOperation(operation)}`,
+      direction === "undo" ? "redo" : "undo"
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      {/* Header with the document title and the highlight color picker */}
+      <header className="sticky top-0 z-10 flex items-center gap-3 border-b bg-white px-4 py-2 shadow-sm">
+        <FileText className="h-5 w-5 shrink-0 text-gray-500" />
+        <div className="min-w-0 flex-1">
+          <h1 className="truncate text-sm font-semibold text-gray-900">
+            {title || "Loading PDF..."}
+          </h1>
+          <p className="text-xs text-gray-500">
+            {pdf ? `${pdf.numPages} pages • ` : ""}Select text to highlight it,
+            hold Alt to add a note
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          {palette.map((entry) => (
+            <button
+              key={entry.id}
+              onClick={() => handleColorChange(entry.id)}
+              className={`h-6 w-6 rounded-full border-2 transition-transform ${
+                entry.id === selectedColorId
+                  ? "scale-110 border-gray-700"
+                  : "border-gray-300 hover:scale-105"
+              }`}
+              style={{ backgroundColor: entry.color }}
+              title={entry.label}
+            />
+          ))}
+        </div>
+      </header>
+
+      {error && <p className="p-8 text-center text-sm text-red-600">{error}</p>}
+
+      {/* Pages, rendered as they come into view */}
+      {pdf && (
+        <main className="space-y-4 py-4">
+          {Array.from({ length: pdf.numPages }, (_, index) => (
+            <PdfPage
+              key={index + 1}
+              pdf={pdf}
+              pageNumber={index + 1}
+              scale={PDF_SCALE}
+              placeholderSize={placeholderSize}
+              onTextLayerReady={handleTextLayerReady}
+            />
+          ))}
+        </main>
+      )}
+
+      {/* Tooltip for viewing and editing existing highlights */}
+      {activeHighlight && (
+        <div ref={tooltipRef}>
+          <HighlightTooltip
+            // Remount to pick up edit mode when reopened for the same highlight
+            key={`${activeHighlight.id}:${isEditingTooltip}`}
+            highlight={activeHighlight}
+            position={tooltipPosition}
+            onUpdate={async (id, updates) =>
+              applyUpdatedHighlight(
+                await HighlightStorage.update(id, updates),
+                "Highlight updated"
+              )
+            }
+            onDelete={handleDeleteHighlight}
+            onAddComment={async (id, text) =>
+              applyUpdatedHighlight(
+                await HighlightStorage.addComment(id, text),
+                "Comment added"
+              )
+            }
+            onUpdateComment={async (id, commentId, text) =>
+              applyUpdatedHighlight(
+                await HighlightStorage.updateComment(id, commentId, text),
+                "Comment updated"
+              )
+            }
+            onDeleteComment={async (id, commentId) =>
+              applyUpdatedHighlight(
+                await HighlightStorage.deleteComment(id, commentId),
+                "Comment deleted"
+              )
+            }
+            onClose={() => setActiveHighlight(null)}
+            startEditing={isEditingTooltip}
+          />
+        </div>
+      )}
+
+      {/* Confirmation of the last change, with a button to undo or redo it */}
+      {toast && (
+        <UndoToast
+          key={toast.id}
+          message={toast.message}
+          action={toast.action}
+          onAction={() => handleHistory(toast.action)}
+          onClose={() => setToast(null)}
+        />
+      )}
+    </div>
+  )
+}
+
+// Export the viewer page as the default export for Plasmo
+export default PdfViewerPage